@@ -0,0 +1,71 @@
+import type { Socket } from "socket.io";
+import { verifyCandidateToken } from "../../../supabase/functions/_shared/candidateToken.ts";
+import { config, supabase } from "./config.ts";
+
+export interface CandidateData {
+  sessionId: string;
+  testId: string;
+  studentId: string;
+}
+
+export interface ProctorData {
+  userId: string;
+}
+
+// Roles with monitor_sessions in src/lib/roles.ts
+const PROCTOR_ROLES = ["owner", "proctor"];
+
+// Candidates connect with the token candidate-login issued. The test session
+// it names must still be open.
+export const authenticateCandidate = async (socket: Socket, next: (error?: Error) => void) => {
+  try {
+    const token = socket.handshake.auth?.token;
+    const claims = typeof token === "string" ? await verifyCandidateToken(token, config.candidateTokenSecret) : null;
+    if (!claims) return next(new Error("Your exam session is invalid or has expired"));
+
+    const { data: session, error } = await supabase
+      .from("test_sessions")
+      .select("id, completed_at")
+      .eq("id", claims.sid)
+      .eq("student_id", claims.stu)
+      .eq("test_id", claims.tid)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!session) return next(new Error("Test session not found"));
+    if (session.completed_at) return next(new Error("This test session has ended"));
+
+    socket.data.candidate = { sessionId: claims.sid, testId: claims.tid, studentId: claims.stu } satisfies CandidateData;
+    next();
+  } catch (error) {
+    console.error("Error authenticating candidate:", error);
+    next(new Error("Could not verify the exam session"));
+  }
+};
+
+// Proctors connect with their admin access token and need a role that may
+// monitor sessions
+export const authenticateProctor = async (socket: Socket, next: (error?: Error) => void) => {
+  try {
+    const token = socket.handshake.auth?.token;
+    const { data } = typeof token === "string" ? await supabase.auth.getUser(token) : { data: { user: null } };
+    if (!data.user) return next(new Error("Sign in as an admin to monitor sessions"));
+
+    const { data: admin, error } = await supabase
+      .from("admin_users")
+      .select("role")
+      .eq("user_id", data.user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!admin || !PROCTOR_ROLES.includes(admin.role)) {
+      return next(new Error("Your admin role doesn't allow monitoring sessions"));
+    }
+
+    socket.data.proctor = { userId: data.user.id } satisfies ProctorData;
+    next();
+  } catch (error) {
+    console.error("Error authenticating proctor:", error);
+    next(new Error("Could not verify your admin session"));
+  }
+};
@@ -0,0 +1,27 @@
+import path from "node:path";
+import { createClient } from "@supabase/supabase-js";
+
+const required = (name: string) => {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} is not configured`);
+  return value;
+};
+
+export const config = {
+  port: Number(process.env.PORT ?? 3001),
+  // Empty allows any origin, for local development
+  allowedOrigins: (process.env.ALLOWED_ORIGINS ?? "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean),
+  candidateTokenSecret: required("CANDIDATE_TOKEN_SECRET"),
+  recordingsDir: path.resolve(process.env.RECORDINGS_DIR ?? "recordings"),
+  // Largest recording chunk accepted, in bytes
+  maxChunkBytes: 8 * 1024 * 1024,
+};
+
+// Service-role client, like the edge functions'. Bypasses RLS, so it stays
+// inside this server.
+export const supabase = createClient(required("SUPABASE_URL"), required("SUPABASE_SERVICE_ROLE_KEY"), {
+  auth: { persistSession: false },
+});
@@ -0,0 +1,176 @@
+import { createServer } from "node:http";
+import { Server } from "socket.io";
+import { authenticateCandidate, authenticateProctor, type CandidateData } from "./auth.ts";
+import { config } from "./config.ts";
+import { RecordingStore, type RecordingChunk } from "./recordings.ts";
+
+type Ack = (response: { ok: boolean; error?: string }) => void;
+type DeliveryAck = (response: { delivered: number }) => void;
+
+interface SessionRequest {
+  session_id: string;
+}
+
+interface WarnRequest extends SessionRequest {
+  message: string;
+}
+
+interface AddTimeRequest extends SessionRequest {
+  minutes: number;
+}
+
+interface TerminateRequest extends SessionRequest {
+  reason?: string;
+}
+
+const SESSION_ROOM_PREFIX = "session:";
+const sessionRoom = (sessionId: string) => `${SESSION_ROOM_PREFIX}${sessionId}`;
+
+// Every connected proctor; presence and thumbnails go to all of them
+const PROCTORS_ROOM = "proctors";
+
+// Largest camera thumbnail accepted, in bytes
+const MAX_THUMBNAIL_BYTES = 256 * 1024;
+
+const httpServer = createServer((req, res) => {
+  if (req.url === "/health") {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ ok: true }));
+    return;
+  }
+  res.writeHead(404).end();
+});
+
+const io = new Server(httpServer, {
+  cors: { origin: config.allowedOrigins.length ? config.allowedOrigins : true },
+  // Leaves room for the chunk's fields around its data
+  maxHttpBufferSize: config.maxChunkBytes + 64 * 1024,
+});
+
+const recordings = new RecordingStore();
+
+// Latest camera thumbnail of each connected session, for proctors who
+// connect after it was sent
+const thumbnails = new Map<string, Buffer>();
+
+const candidates = io.of("/candidate");
+const proctors = io.of("/proctor");
+
+const isOnline = (sessionId: string) => (candidates.adapter.rooms.get(sessionRoom(sessionId))?.size ?? 0) > 0;
+
+const onlineSessions = () =>
+  [...candidates.adapter.rooms.keys()]
+    .filter((room) => room.startsWith(SESSION_ROOM_PREFIX))
+    .map((room) => room.slice(SESSION_ROOM_PREFIX.length));
+
+// Candidates taking a test. Each joins its session's room so proctor actions
+// reach every tab the candidate has open.
+candidates.use(authenticateCandidate);
+
+candidates.on("connection", (socket) => {
+  const candidate = socket.data.candidate as CandidateData;
+  socket.join(sessionRoom(candidate.sessionId));
+  proctors.to(PROCTORS_ROOM).emit("presence", { session_id: candidate.sessionId, online: true });
+
+  socket.on("recording_chunk", async (chunk: RecordingChunk, ack?: Ack) => {
+    try {
+      await recordings.append(candidate, chunk);
+      ack?.({ ok: true });
+    } catch (error) {
+      console.error(`Error storing recording chunk for session ${candidate.sessionId}:`, error);
+      ack?.({ ok: false, error: error instanceof Error ? error.message : "Could not store the recording" });
+    }
+  });
+
+  socket.on("recording_end", async () => {
+    await recordings.closeSession(candidate.sessionId).catch((error) => {
+      console.error("Error closing recordings:", error);
+    });
+  });
+
+  // A small still of the camera, sent every few seconds for the proctors'
+  // live grid. Dropped rather than queued when a proctor can't keep up.
+  socket.on("thumbnail", (image: Buffer) => {
+    if (!Buffer.isBuffer(image) || image.length > MAX_THUMBNAIL_BYTES) return;
+    thumbnails.set(candidate.sessionId, image);
+    proctors.to(PROCTORS_ROOM).volatile.emit("thumbnail", { session_id: candidate.sessionId, image });
+  });
+
+  // Recordings stay open while another connection of the session is still
+  // sending to them
+  socket.on("disconnect", async () => {
+    if (isOnline(candidate.sessionId)) return;
+
+    thumbnails.delete(candidate.sessionId);
+    proctors.to(PROCTORS_ROOM).emit("presence", { session_id: candidate.sessionId, online: false });
+    await recordings.closeSession(candidate.sessionId).catch((error) => {
+      console.error("Error closing recordings:", error);
+    });
+  });
+});
+
+// Sends a proctor's action to every connection of the session. Resolves to
+// the number of connections reached, 0 when the candidate is offline.
+const relay = async (sessionId: string, event: string, payload?: unknown) => {
+  const room = candidates.to(sessionRoom(sessionId));
+  const delivered = (await room.fetchSockets()).length;
+  room.emit(event, payload);
+  return delivered;
+};
+
+// Admins monitoring sessions. The proctor-session edge function applies
+// each action; it is relayed here so the candidate's page reacts at once.
+// Actions are acknowledged with the number of connections that received them.
+proctors.use(authenticateProctor);
+
+proctors.on("connection", (socket) => {
+  socket.join(PROCTORS_ROOM);
+  socket.emit("online", {
+    session_ids: onlineSessions(),
+    thumbnails: Object.fromEntries(thumbnails),
+  });
+
+  socket.on("warn", async ({ session_id, message }: WarnRequest, ack?: DeliveryAck) => {
+    if (!session_id || !message?.trim()) return ack?.({ delivered: 0 });
+    ack?.({ delivered: await relay(session_id, "warning", message.trim()) });
+  });
+
+  socket.on("pause", async ({ session_id }: SessionRequest, ack?: DeliveryAck) => {
+    if (!session_id) return ack?.({ delivered: 0 });
+    ack?.({ delivered: await relay(session_id, "exam_paused") });
+  });
+
+  socket.on("resume", async ({ session_id }: SessionRequest, ack?: DeliveryAck) => {
+    if (!session_id) return ack?.({ delivered: 0 });
+    ack?.({ delivered: await relay(session_id, "exam_resumed") });
+  });
+
+  socket.on("add_time", async ({ session_id, minutes }: AddTimeRequest, ack?: DeliveryAck) => {
+    if (!session_id) return ack?.({ delivered: 0 });
+    ack?.({ delivered: await relay(session_id, "time_added", { minutes }) });
+  });
+
+  socket.on("terminate", async ({ session_id, reason }: TerminateRequest, ack?: DeliveryAck) => {
+    if (!session_id) return ack?.({ delivered: 0 });
+
+    const delivered = await relay(session_id, "exam_terminated", { reason: reason?.trim() || null });
+    candidates.in(sessionRoom(session_id)).disconnectSockets();
+    await recordings.closeSession(session_id).catch((error) => {
+      console.error("Error closing recordings:", error);
+    });
+    ack?.({ delivered });
+  });
+});
+
+httpServer.listen(config.port, () => {
+  console.log(`Proctoring server listening on port ${config.port}`);
+});
+
+const shutdown = async () => {
+  io.close();
+  await recordings.closeAll();
+  process.exit(0);
+};
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
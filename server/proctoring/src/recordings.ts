@@ -0,0 +1,160 @@
+import { mkdir, open, type FileHandle } from "node:fs/promises";
+import path from "node:path";
+import { config, supabase } from "./config.ts";
+import type { CandidateData } from "./auth.ts";
+
+export type RecordingKind = "camera" | "screen" | "audio";
+
+export const RECORDING_KINDS: RecordingKind[] = ["camera", "screen", "audio"];
+
+// One MediaRecorder timeslice, sent by the candidate as it is produced
+export interface RecordingChunk {
+  // Client-chosen id of the recorder the chunk belongs to
+  recording: string;
+  kind: RecordingKind;
+  mime_type: string;
+  // 0 for a recorder's first chunk
+  sequence: number;
+  data: Buffer;
+}
+
+interface OpenRecording {
+  id: string;
+  file: FileHandle;
+  bytes: number;
+  chunks: number;
+  nextSequence: number;
+}
+
+// Chunks are written to disk between flushes of the running totals
+const FLUSH_EVERY_CHUNKS = 10;
+
+const RECORDING_ID = /^[\w-]{1,64}$/;
+
+const extensionFor = (mimeType: string) => (mimeType.startsWith("audio/") ? "weba" : "webm");
+
+// Appends each recorder's chunks, in the order they arrive, to one file per
+// recorder under RECORDINGS_DIR/<test>/<session>/. MediaRecorder chunks are
+// consecutive pieces of a single WebM stream, so the file plays back as is.
+// session_recordings keeps where each file is and how much it holds.
+//
+// A recorder's writes and its close run one at a time, in the order they
+// were asked for, so chunks arriving together land in order and a file is
+// never closed under a pending write.
+export class RecordingStore {
+  private recordings = new Map<string, OpenRecording>();
+  // The last task queued per recorder; each waits for the one before
+  private queues = new Map<string, Promise<void>>();
+
+  async append(candidate: CandidateData, chunk: RecordingChunk) {
+    if (!RECORDING_ID.test(chunk.recording) || !RECORDING_KINDS.includes(chunk.kind)) {
+      throw new Error("Malformed recording chunk");
+    }
+    if (!Buffer.isBuffer(chunk.data) || chunk.data.length > config.maxChunkBytes) {
+      throw new Error("Recording chunk is too large");
+    }
+
+    const key = `${candidate.sessionId}:${chunk.recording}`;
+    await this.enqueue(key, () => this.write(key, candidate, chunk));
+  }
+
+  // Closes the session's recordings, e.g. when the candidate disconnects
+  async closeSession(sessionId: string) {
+    const keys = this.keys().filter((key) => key.startsWith(`${sessionId}:`));
+    await Promise.all(keys.map((key) => this.closeQueued(key)));
+  }
+
+  async closeAll() {
+    await Promise.all(this.keys().map((key) => this.closeQueued(key)));
+  }
+
+  private keys() {
+    return [...new Set([...this.queues.keys(), ...this.recordings.keys()])];
+  }
+
+  // Runs the task after everything queued for the recorder so far. A failed
+  // task doesn't stop the ones after it.
+  private enqueue(key: string, task: () => Promise<void>) {
+    const run = (this.queues.get(key) ?? Promise.resolve()).then(task);
+    const tail = run.catch(() => undefined);
+    this.queues.set(key, tail);
+    void tail.then(() => {
+      if (this.queues.get(key) === tail) this.queues.delete(key);
+    });
+    return run;
+  }
+
+  private closeQueued(key: string) {
+    return this.enqueue(key, () => this.close(key));
+  }
+
+  private async write(key: string, candidate: CandidateData, chunk: RecordingChunk) {
+    let recording = this.recordings.get(key);
+    if (!recording) {
+      recording = await this.start(candidate, chunk);
+      this.recordings.set(key, recording);
+    }
+
+    if (chunk.sequence !== recording.nextSequence) {
+      console.warn(`Recording ${key} expected chunk ${recording.nextSequence}, got ${chunk.sequence}`);
+    }
+    await recording.file.write(chunk.data);
+    recording.bytes += chunk.data.length;
+    recording.chunks += 1;
+    recording.nextSequence = chunk.sequence + 1;
+
+    if (recording.chunks % FLUSH_EVERY_CHUNKS === 0) await this.flush(recording);
+  }
+  private async start(candidate: CandidateData, chunk: RecordingChunk): Promise<OpenRecording> {
+    const relativePath = path.join(
+      candidate.testId,
+      candidate.sessionId,
+      `${chunk.kind}-${chunk.recording}.${extensionFor(chunk.mime_type)}`,
+    );
+    const absolutePath = path.join(config.recordingsDir, relativePath);
+    await mkdir(path.dirname(absolutePath), { recursive: true });
+
+    // A reconnecting candidate carries on where the file left off
+    const file = await open(absolutePath, "a");
+    const { size } = await file.stat();
+
+    const { data, error } = await supabase
+      .from("session_recordings")
+      .upsert(
+        {
+          session_id: candidate.sessionId,
+          kind: chunk.kind,
+          path: relativePath,
+          mime_type: chunk.mime_type,
+        },
+        { onConflict: "path" },
+      )
+      .select("id, chunks")
+      .single();
+
+    if (error) {
+      await file.close();
+      throw error;
+    }
+
+    return { id: data.id, file, bytes: size, chunks: data.chunks, nextSequence: chunk.sequence };
+  }
+
+  private async flush(recording: OpenRecording) {
+    const { error } = await supabase
+      .from("session_recordings")
+      .update({ bytes: recording.bytes, chunks: recording.chunks, last_chunk_at: new Date().toISOString() })
+      .eq("id", recording.id);
+
+    if (error) console.error("Error updating recording:", error);
+  }
+
+  private async close(key: string) {
+    const recording = this.recordings.get(key);
+    if (!recording) return;
+    this.recordings.delete(key);
+
+    await this.flush(recording);
+    await recording.file.close();
+  }
+}
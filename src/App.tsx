@@ -2,34 +2,56 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate, useParams } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import TestLogin from "./pages/test/TestLogin";
-import TestAttempt from "./pages/test/TestAttempt";
+import TestComplete from "./pages/test/TestComplete";
 import TestManagement from "./pages/TestManagement";
 import ExamPage from "./pages/ExamPage";
 import HRDashboard from "./components/HRDashboard";
+import AdminLogin from "./pages/AdminLogin";
+import RequireAdmin from "./components/auth/RequireAdmin";
+import { AdminAuthProvider } from "./hooks/use-admin-auth";
 
 const queryClient = new QueryClient();
 
+// Old attempt links, e.g. in invitations already sent
+const RedirectToExam = () => {
+  const { id } = useParams();
+  return <Navigate to={`/exam/${id}`} replace />;
+};
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/test/:id" element={<TestLogin />} />
-          <Route path="/test/:id/attempt" element={<TestAttempt />} />
-          <Route path="/tests" element={<TestManagement />} />
-          <Route path="/exam/:id" element={<ExamPage examDuration={60} examId="1" />} />
-          <Route path="/hr-dashboard" element={<HRDashboard />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <AdminAuthProvider>
+        <BrowserRouter>
+          <Routes>
+            {/* Admin routes */}
+            <Route path="/login" element={<AdminLogin />} />
+            <Route path="/" element={<RequireAdmin><Index /></RequireAdmin>} />
+            <Route
+              path="/tests"
+              element={<RequireAdmin permission="manage_tests"><TestManagement /></RequireAdmin>}
+            />
+            <Route
+              path="/hr-dashboard"
+              element={<RequireAdmin permission="monitor_sessions"><HRDashboard /></RequireAdmin>}
+            />
+
+            {/* Candidate routes */}
+            <Route path="/test/:id" element={<TestLogin />} />
+            <Route path="/test/:id/attempt" element={<RedirectToExam />} />
+            <Route path="/test/:id/complete" element={<TestComplete />} />
+            <Route path="/exam/:id" element={<ExamPage />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </AdminAuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,25 @@
+import { Check, CloudOff, Loader2 } from "lucide-react";
+import type { AutosaveStatus } from "@/hooks/use-autosave";
+
+const LABELS: Record<AutosaveStatus, string> = {
+  idle: "",
+  saving: "Saving…",
+  saved: "All answers saved",
+  offline: "Offline: answers are kept on this device",
+  error: "Couldn't save, retrying…",
+};
+
+const AutosaveIndicator = ({ status }: { status: AutosaveStatus }) => {
+  if (status === "idle") return null;
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-gray-500" aria-live="polite">
+      {status === "saving" && <Loader2 className="h-3 w-3 animate-spin" />}
+      {status === "saved" && <Check className="h-3 w-3" />}
+      {(status === "offline" || status === "error") && <CloudOff className="h-3 w-3" />}
+      {LABELS[status]}
+    </div>
+  );
+};
+
+export default AutosaveIndicator;
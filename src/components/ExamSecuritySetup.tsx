@@ -1,12 +1,32 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import type { SecurityPolicy } from '@/lib/securityPolicy';
 import { monitoringService } from '../services/monitoringService';
 
 interface ExamSecuritySetupProps {
+  // Decides which of the camera, screen and fullscreen steps are required
+  policy: SecurityPolicy;
+  // The exam page holds the screen share, which has to last the whole test
+  screenShared: boolean;
+  onShareScreen: () => Promise<void>;
   onSetupComplete: () => void;
 }
 
-const ExamSecuritySetup: React.FC<ExamSecuritySetupProps> = ({ onSetupComplete }) => {
+type SetupStepId = 'camera' | 'screen' | 'fullscreen' | 'environment';
+
+interface SetupStep {
+  id: SetupStepId;
+  // Left out when the test's policy doesn't require it
+  required: boolean;
+  title: string;
+  description: string;
+  action: string;
+  handler: () => void;
+  // Shown in the requirements checklist
+  requirement: string;
+}
+
+const ExamSecuritySetup: React.FC<ExamSecuritySetupProps> = ({ policy, screenShared, onShareScreen, onSetupComplete }) => {
   const { toast } = useToast();
   const [currentStep, setCurrentStep] = useState(1);
   const [isCameraActive, setIsCameraActive] = useState(false);
@@ -14,26 +34,45 @@ const ExamSecuritySetup: React.FC<ExamSecuritySetupProps> = ({ onSetupComplete }
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
 
-  const steps = [
+  const allSteps: SetupStep[] = [
     {
+      id: 'camera',
+      required: policy.require_camera,
       title: "Camera Setup",
       description: "Please allow camera access to enable proctoring.",
       action: "Enable Camera",
       handler: setupCamera,
+      requirement: "Camera Access",
+    },
+    {
+      id: 'screen',
+      required: policy.screen_monitoring,
+      title: "Screen Sharing",
+      description: "Share your entire screen, not a window or a tab. If you stop sharing during the exam, it is paused until you share again.",
+      action: "Share Screen",
+      handler: shareScreen,
+      requirement: "Screen Sharing",
     },
     {
+      id: 'fullscreen',
+      required: policy.require_fullscreen,
       title: "Fullscreen Mode",
       description: "The exam must be taken in fullscreen mode.",
       action: "Enter Fullscreen",
       handler: enterFullscreen,
+      requirement: "Fullscreen Mode",
     },
     {
+      id: 'environment',
+      required: true,
       title: "Environment Check",
       description: "Please ensure you are in a well-lit, quiet environment.",
       action: "Confirm Environment",
       handler: confirmEnvironment,
+      requirement: "Environment Check",
     },
   ];
+  const steps = allSteps.filter((step) => step.required);
 
   useEffect(() => {
     // Check if already in fullscreen
@@ -73,10 +112,12 @@ const ExamSecuritySetup: React.FC<ExamSecuritySetupProps> = ({ onSetupComplete }
         streamRef.current = stream;
         setIsCameraActive(true);
         
-        // Start monitoring
-        monitoringService.startMonitoring(stream);
+        // The monitoring service keeps the stream running for the exam
+        if (monitoringService.sendStream(stream, 'camera')) {
+          streamRef.current = null;
+        }
         
-        setCurrentStep(2);
+        nextStep();
       }
     } catch (error) {
       console.error('Error accessing camera:', error);
@@ -88,10 +129,24 @@ const ExamSecuritySetup: React.FC<ExamSecuritySetupProps> = ({ onSetupComplete }
     }
   }
 
+  async function shareScreen() {
+    try {
+      await onShareScreen();
+      nextStep();
+    } catch (error) {
+      console.error('Error sharing screen:', error);
+      toast({
+        title: "Screen Sharing Error",
+        description: error instanceof Error ? error.message : "Failed to share your screen.",
+        variant: "destructive",
+      });
+    }
+  }
+
   async function enterFullscreen() {
     try {
       await document.documentElement.requestFullscreen();
-      setCurrentStep(3);
+      nextStep();
     } catch (error) {
       console.error('Error entering fullscreen:', error);
       toast({
@@ -102,13 +157,35 @@ const ExamSecuritySetup: React.FC<ExamSecuritySetupProps> = ({ onSetupComplete }
     }
   }
 
+  function nextStep() {
+    setCurrentStep(prev => prev + 1);
+  }
+
   function confirmEnvironment() {
+    // Sharing may have been stopped since its step
+    if (policy.screen_monitoring && !screenShared) {
+      toast({
+        title: "Screen Sharing Stopped",
+        description: "Share your entire screen again to start the exam.",
+        variant: "destructive",
+      });
+      setCurrentStep(steps.findIndex((step) => step.id === 'screen') + 1);
+      return;
+    }
+
     // Start the exam
     onSetupComplete();
   }
 
   const currentStepData = steps[currentStep - 1];
 
+  const requirementMet = (step: SetupStepId) => {
+    if (step === 'camera') return isCameraActive;
+    if (step === 'screen') return screenShared;
+    if (step === 'fullscreen') return isFullscreen;
+    return currentStep === steps.length;
+  };
+
   return (
     <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
       <div className="max-w-2xl w-full bg-white rounded-lg shadow-lg p-6">
@@ -121,7 +198,7 @@ const ExamSecuritySetup: React.FC<ExamSecuritySetupProps> = ({ onSetupComplete }
           </div>
           <p className="text-gray-600 mb-6">{currentStepData.description}</p>
           
-          {currentStep === 1 && (
+          {currentStepData.id === 'camera' && (
             <div className="mb-6">
               <video
                 ref={videoRef}
@@ -155,18 +232,12 @@ const ExamSecuritySetup: React.FC<ExamSecuritySetupProps> = ({ onSetupComplete }
         <div className="border-t pt-6">
           <h3 className="font-semibold mb-2">Security Requirements:</h3>
           <ul className="space-y-2 text-sm text-gray-600">
-            <li className="flex items-center">
-              <span className={`w-4 h-4 mr-2 rounded-full ${isCameraActive ? 'bg-green-500' : 'bg-gray-300'}`}></span>
-              Camera Access
-            </li>
-            <li className="flex items-center">
-              <span className={`w-4 h-4 mr-2 rounded-full ${isFullscreen ? 'bg-green-500' : 'bg-gray-300'}`}></span>
-              Fullscreen Mode
-            </li>
-            <li className="flex items-center">
-              <span className={`w-4 h-4 mr-2 rounded-full ${currentStep === 3 ? 'bg-green-500' : 'bg-gray-300'}`}></span>
-              Environment Check
-            </li>
+            {steps.map((step) => (
+              <li key={step.id} className="flex items-center">
+                <span className={`w-4 h-4 mr-2 rounded-full ${requirementMet(step.id) ? 'bg-green-500' : 'bg-gray-300'}`}></span>
+                {step.requirement}
+              </li>
+            ))}
           </ul>
         </div>
       </div>
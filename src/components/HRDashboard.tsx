@@ -1,156 +1,532 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { AlertTriangle, ArrowLeft, Clock, Pause, Play, VideoOff, XCircle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatTimeLeft } from '@/hooks/use-exam-clock';
+import { VIOLATION_LABELS, ViolationKind } from '@/lib/integrity';
+import { sessionDeadline, timeAllowance } from '@/lib/sessionClock';
+import { PROCTOR_ACTION_LABELS, ProctorAction, ProctorActionOptions, performProctorAction } from '@/lib/proctorActions';
+import { proctorService } from '@/services/proctorService';
 
-interface ExamSession {
+interface LiveSession {
   id: string;
-  studentName: string;
-  examName: string;
-  startTime: Date;
-  status: 'active' | 'completed' | 'flagged';
-  cameraStream: MediaStream | null;
-  screenStream: MediaStream | null;
-  audioStream: MediaStream | null;
-  warnings: string[];
+  started_at: string;
+  paused_at: string | null;
+  // 'screen_share' when the candidate stopped sharing their screen
+  pause_reason: string | null;
+  extra_seconds: number;
+  test: { title: string; duration_minutes: number; end_time: string | null } | null;
+  student: { name: string; email: string } | null;
+  violations: { count: number }[];
 }
 
-const HRDashboard: React.FC = () => {
-  const [activeSessions, setActiveSessions] = useState<ExamSession[]>([]);
-  const [selectedSession, setSelectedSession] = useState<ExamSession | null>(null);
+interface ActionEntry {
+  id: string;
+  action: ProctorAction;
+  message: string | null;
+  minutes: number | null;
+  created_at: string;
+}
+
+interface ViolationEntry {
+  id: string;
+  kind: ViolationKind;
+  detail: string | null;
+  occurred_at: string;
+}
+
+// Open sessions started longer ago than this are left out; the candidate
+// walked away and the session closes when they come back
+const LIVE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// The time limit or the test window, pushed back by added time and the
+// running pause, counted as the edge functions count it
+const deadlineOf = (session: LiveSession, now: number) => {
+  if (!session.test) return null;
+  return sessionDeadline(session.started_at, session.test, timeAllowance(session, new Date(now))).getTime();
+};
+
+const describeAction = (entry: ActionEntry) => {
+  if (entry.action === 'add_time') return `${PROCTOR_ACTION_LABELS.add_time}: ${entry.minutes} min`;
+  return entry.message ? `${PROCTOR_ACTION_LABELS[entry.action]}: ${entry.message}` : PROCTOR_ACTION_LABELS[entry.action];
+};
+
+// Live monitoring of the sessions in progress: a grid of camera stills
+// relayed by the proctoring server, and for the selected candidate their
+// clock, integrity violations, the actions taken so far, and warn, pause, add
+// time and terminate
+const HRDashboard = () => {
+  const [sessions, setSessions] = useState<LiveSession[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [online, setOnline] = useState<Set<string>>(new Set());
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [actions, setActions] = useState<ActionEntry[]>([]);
+  const [violations, setViolations] = useState<ViolationEntry[]>([]);
+  const [relayAvailable, setRelayAvailable] = useState(true);
+  const [now, setNow] = useState(Date.now());
+  const [warning, setWarning] = useState('');
+  const [minutes, setMinutes] = useState('5');
+  const [terminateReason, setTerminateReason] = useState('');
+  const [acting, setActing] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const thumbnailUrls = useRef<Record<string, string>>({});
+  const { toast } = useToast();
+
+  const selected = sessions.find((session) => session.id === selectedId) ?? null;
 
-  // Mock function to fetch active sessions
   useEffect(() => {
-    // In a real implementation, this would fetch from your backend
-    const fetchSessions = async () => {
-      // Simulated data
-      const sessions: ExamSession[] = [
-        {
-          id: '1',
-          studentName: 'John Doe',
-          examName: 'Mathematics Final',
-          startTime: new Date(),
-          status: 'active',
-          cameraStream: null,
-          screenStream: null,
-          audioStream: null,
-          warnings: []
-        }
-      ];
-      setActiveSessions(sessions);
+    fetchSessions();
+
+    // Sessions starting, pausing, getting time or closing, and violations
+    // adding up
+    const channel = supabase
+      .channel('live-test-sessions')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'test_sessions' }, () => {
+        fetchSessions();
+      })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'session_violations' }, () => {
+        fetchSessions();
+      })
+      .subscribe();
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+
+    return () => {
+      supabase.removeChannel(channel);
+      clearInterval(timer);
     };
+  }, []);
 
-    fetchSessions();
-    const interval = setInterval(fetchSessions, 5000); // Refresh every 5 seconds
+  useEffect(() => {
+    const showThumbnail = (sessionId: string, image: ArrayBuffer) => {
+      const url = URL.createObjectURL(new Blob([image], { type: 'image/jpeg' }));
+      if (thumbnailUrls.current[sessionId]) URL.revokeObjectURL(thumbnailUrls.current[sessionId]);
+      thumbnailUrls.current = { ...thumbnailUrls.current, [sessionId]: url };
+      setThumbnails(thumbnailUrls.current);
+    };
+
+    const dropThumbnail = (sessionId: string) => {
+      if (!thumbnailUrls.current[sessionId]) return;
+      URL.revokeObjectURL(thumbnailUrls.current[sessionId]);
+      const { [sessionId]: _dropped, ...rest } = thumbnailUrls.current;
+      thumbnailUrls.current = rest;
+      setThumbnails(rest);
+    };
+
+    const offOnline = proctorService.onOnline(({ session_ids, thumbnails: latest }) => {
+      setOnline(new Set(session_ids));
+      Object.entries(latest).forEach(([sessionId, image]) => showThumbnail(sessionId, image));
+    });
+
+    const offPresence = proctorService.onPresence(({ session_id, online: isOnline }) => {
+      setOnline((prev) => {
+        const next = new Set(prev);
+        if (isOnline) {
+          next.add(session_id);
+        } else {
+          next.delete(session_id);
+        }
+        return next;
+      });
+      if (!isOnline) dropThumbnail(session_id);
+    });
+
+    const offThumbnail = proctorService.onThumbnail(({ session_id, image }) => showThumbnail(session_id, image));
+
+    setRelayAvailable(proctorService.connect());
 
-    return () => clearInterval(interval);
+    return () => {
+      offOnline();
+      offPresence();
+      offThumbnail();
+      proctorService.disconnect();
+      Object.values(thumbnailUrls.current).forEach((url) => URL.revokeObjectURL(url));
+      thumbnailUrls.current = {};
+    };
   }, []);
 
-  const handleSessionSelect = (session: ExamSession) => {
-    setSelectedSession(session);
-  };
+  useEffect(() => {
+    setActions([]);
+    setViolations([]);
+    if (!selectedId) return;
+
+    fetchActions(selectedId);
+    fetchViolations(selectedId);
 
-  const handleWarning = (sessionId: string, warning: string) => {
-    setActiveSessions(prev =>
-      prev.map(session =>
-        session.id === sessionId
-          ? { ...session, warnings: [...session.warnings, warning] }
-          : session
+    const channel = supabase
+      .channel(`session-violations-${selectedId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'session_violations', filter: `session_id=eq.${selectedId}` },
+        () => fetchViolations(selectedId),
       )
-    );
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [selectedId]);
+
+  const fetchSessions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('test_sessions')
+        .select(`
+          id,
+          started_at,
+          paused_at,
+          pause_reason,
+          extra_seconds,
+          test:tests(title, duration_minutes, end_time),
+          student:students(name, email),
+          violations:session_violations(count)
+        `)
+        .is('completed_at', null)
+        .gte('started_at', new Date(Date.now() - LIVE_WINDOW_MS).toISOString())
+        .order('started_at');
+
+      if (error) throw error;
+      setSessions(data || []);
+    } catch (error) {
+      console.error('Error fetching live sessions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the live sessions",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
   };
 
+  const fetchActions = async (sessionId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('proctor_actions')
+        .select('id, action, message, minutes, created_at')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setActions((data || []) as ActionEntry[]);
+    } catch (error) {
+      console.error('Error fetching proctor actions:', error);
+    }
+  };
+
+  const fetchViolations = async (sessionId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('session_violations')
+        .select('id, kind, detail, occurred_at')
+        .eq('session_id', sessionId)
+        .order('occurred_at', { ascending: false });
+
+      if (error) throw error;
+      setViolations((data || []) as ViolationEntry[]);
+    } catch (error) {
+      console.error('Error fetching violations:', error);
+    }
+  };
+
+  const act = async (action: ProctorAction, options: ProctorActionOptions = {}) => {
+    if (!selected) return;
+
+    setActing(true);
+    try {
+      const delivered = await performProctorAction(selected.id, action, options);
+      toast({
+        title: PROCTOR_ACTION_LABELS[action],
+        description: delivered
+          ? `${selected.student?.name ?? 'The candidate'} has been told.`
+          : action === 'warn'
+            ? "Logged, but the candidate isn't connected to see it."
+            : "The candidate isn't connected; it applies when they are back.",
+      });
+      if (action === 'warn') setWarning('');
+      if (action === 'terminate') {
+        setTerminateReason('');
+        setSelectedId(null);
+      }
+      fetchActions(selected.id);
+      fetchSessions();
+    } catch (error) {
+      console.error(`Error performing ${action}:`, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "The action could not be applied",
+        variant: "destructive",
+      });
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const timeLeft = (session: LiveSession) => {
+    const deadline = deadlineOf(session, now);
+    return deadline === null ? null : Math.max(0, Math.ceil((deadline - now) / 1000));
+  };
+
+  const violationCount = (session: LiveSession) => session.violations[0]?.count ?? 0;
+
+  const renderThumbnail = (session: LiveSession, className: string) =>
+    thumbnails[session.id] ? (
+      <img src={thumbnails[session.id]} alt={`${session.student?.name ?? 'Candidate'}'s camera`} className={className} />
+    ) : (
+      <div className={`${className} flex items-center justify-center bg-gray-200 text-gray-500`}>
+        <VideoOff className="h-6 w-6" />
+      </div>
+    );
+
   return (
-    <div className="min-h-screen bg-gray-100 p-8">
-      <div className="max-w-7xl mx-auto">
-        <h1 className="text-3xl font-bold mb-8">HR Exam Monitoring Dashboard</h1>
-        
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-          {/* Active Sessions List */}
-          <div className="bg-white rounded-lg shadow-lg p-6">
-            <h2 className="text-xl font-bold mb-4">Active Sessions</h2>
-            <div className="space-y-4">
-              {activeSessions.map(session => (
-                <div
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Live Monitoring</h1>
+            <p className="text-gray-600 mt-2">{sessions.length} session(s) in progress</p>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Admin Portal
+            </Link>
+          </Button>
+        </div>
+
+        {!relayAvailable && (
+          <Alert>
+            <VideoOff className="h-4 w-4" />
+            <AlertTitle>No proctoring server configured</AlertTitle>
+            <AlertDescription>
+              Set VITE_PROCTORING_URL to see cameras and reach candidates at once. Actions still apply to the
+              session and take effect the next time the candidate's page talks to the server.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-[1fr_24rem] items-start">
+          <div className="grid gap-4 grid-cols-2 md:grid-cols-3">
+            {sessions.map((session) => {
+              const seconds = timeLeft(session);
+              return (
+                <button
                   key={session.id}
-                  className={`p-4 rounded-lg cursor-pointer ${
-                    selectedSession?.id === session.id
-                      ? 'bg-blue-100 border-2 border-blue-500'
-                      : 'bg-gray-50 hover:bg-gray-100'
+                  type="button"
+                  onClick={() => setSelectedId(session.id)}
+                  className={`text-left rounded-lg border bg-white overflow-hidden shadow-sm transition ${
+                    selectedId === session.id ? 'ring-2 ring-blue-500' : 'hover:shadow-md'
                   }`}
-                  onClick={() => handleSessionSelect(session)}
                 >
-                  <h3 className="font-semibold">{session.studentName}</h3>
-                  <p className="text-sm text-gray-600">{session.examName}</p>
-                  <p className="text-sm text-gray-500">
-                    Started: {session.startTime.toLocaleTimeString()}
-                  </p>
-                  {session.warnings.length > 0 && (
-                    <div className="mt-2">
-                      <span className="text-red-500 text-sm">
-                        {session.warnings.length} warning(s)
-                      </span>
+                  {renderThumbnail(session, 'w-full aspect-video object-cover')}
+                  <div className="p-3 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium truncate">{session.student?.name ?? 'Unknown candidate'}</p>
+                      <span
+                        className={`h-2 w-2 rounded-full shrink-0 ${online.has(session.id) ? 'bg-green-500' : 'bg-gray-300'}`}
+                        title={online.has(session.id) ? 'Connected' : 'Not connected'}
+                      />
+                    </div>
+                    <p className="text-xs text-gray-600 truncate">{session.test?.title}</p>
+                    <div className="flex items-center gap-2 text-xs">
+                      {violationCount(session) > 0 && (
+                        <Badge variant="outline" className="border-orange-400 text-orange-700">
+                          {violationCount(session)} violation(s)
+                        </Badge>
+                      )}
+                      {session.paused_at ? (
+                        <Badge variant="secondary">
+                          {session.pause_reason === 'screen_share' ? 'Paused: screen share stopped' : 'Paused'}
+                        </Badge>
+                      ) : seconds === 0 ? (
+                        <Badge variant="destructive">Time up</Badge>
+                      ) : (
+                        seconds !== null && (
+                          <span className="flex items-center gap-1 text-gray-600">
+                            <Clock className="h-3 w-3" />
+                            {formatTimeLeft(seconds)}
+                          </span>
+                        )
+                      )}
                     </div>
+                  </div>
+                </button>
+              );
+            })}
+            {sessions.length === 0 && (
+              <Card className="col-span-full">
+                <CardContent className="pt-6 text-center text-gray-500">
+                  {loading ? 'Loading sessions...' : 'No one is taking a test right now'}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {selected ? (
+            <Card>
+              <CardHeader>
+                <CardTitle>{selected.student?.name ?? 'Unknown candidate'}</CardTitle>
+                <CardDescription>
+                  {selected.student?.email} · {selected.test?.title}
+                  <br />
+                  Started {new Date(selected.started_at).toLocaleTimeString()}
+                  {timeLeft(selected) !== null &&
+                    ` · ${selected.paused_at && selected.pause_reason !== 'screen_share' ? 'paused with ' : ''}${formatTimeLeft(timeLeft(selected))} left`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-5">
+                {renderThumbnail(selected, 'w-full aspect-video object-cover rounded-md')}
+
+                <div className="space-y-2">
+                  <Label htmlFor="proctor-warning">Warning</Label>
+                  <Textarea
+                    id="proctor-warning"
+                    value={warning}
+                    onChange={(e) => setWarning(e.target.value)}
+                    placeholder="e.g. Please keep your face in view of the camera"
+                    rows={2}
+                  />
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    disabled={acting || !warning.trim()}
+                    onClick={() => act('warn', { message: warning.trim() })}
+                  >
+                    <AlertTriangle className="h-4 w-4 mr-2" />
+                    Send Warning
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  {selected.paused_at ? (
+                    <Button variant="outline" disabled={acting} onClick={() => act('resume')}>
+                      <Play className="h-4 w-4 mr-2" />
+                      Resume
+                    </Button>
+                  ) : (
+                    <Button variant="outline" disabled={acting} onClick={() => act('pause')}>
+                      <Pause className="h-4 w-4 mr-2" />
+                      Pause
+                    </Button>
                   )}
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="destructive" disabled={acting}>
+                        <XCircle className="h-4 w-4 mr-2" />
+                        Terminate
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Terminate this exam?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          {selected.student?.name ?? 'The candidate'}'s session is closed now and graded on the answers
+                          saved so far. This can't be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <Textarea
+                        value={terminateReason}
+                        onChange={(e) => setTerminateReason(e.target.value)}
+                        placeholder="Reason, shown to the candidate"
+                        rows={2}
+                      />
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => act('terminate', { message: terminateReason.trim() })}>
+                          Terminate
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
                 </div>
-              ))}
-            </div>
-          </div>
 
-          {/* Selected Session Monitoring */}
-          {selectedSession && (
-            <div className="md:col-span-2 bg-white rounded-lg shadow-lg p-6">
-              <h2 className="text-xl font-bold mb-4">
-                Monitoring: {selectedSession.studentName}
-              </h2>
-              
-              <div className="grid grid-cols-2 gap-4 mb-6">
-                {/* Camera Feed */}
-                <div className="relative">
-                  <h3 className="text-lg font-semibold mb-2">Camera Feed</h3>
-                  <div className="aspect-video bg-gray-200 rounded-lg">
-                    {/* Camera stream would be displayed here */}
+                <div className="space-y-2">
+                  <Label htmlFor="proctor-minutes">Add time (minutes)</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="proctor-minutes"
+                      type="number"
+                      min="1"
+                      max="240"
+                      value={minutes}
+                      onChange={(e) => setMinutes(e.target.value)}
+                    />
+                    <Button
+                      variant="outline"
+                      disabled={acting || !(parseInt(minutes) > 0)}
+                      onClick={() => act('add_time', { minutes: parseInt(minutes) })}
+                    >
+                      <Clock className="h-4 w-4 mr-2" />
+                      Add
+                    </Button>
                   </div>
                 </div>
 
-                {/* Screen Share */}
-                <div className="relative">
-                  <h3 className="text-lg font-semibold mb-2">Screen Share</h3>
-                  <div className="aspect-video bg-gray-200 rounded-lg">
-                    {/* Screen share would be displayed here */}
-                  </div>
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium">Integrity violations</h3>
+                  {violations.length ? (
+                    <ul className="space-y-1 text-sm max-h-48 overflow-y-auto">
+                      {violations.map((entry) => (
+                        <li key={entry.id} className="flex justify-between gap-2">
+                          <span className="text-orange-700">
+                            {VIOLATION_LABELS[entry.kind] ?? entry.kind}
+                            {entry.detail && <span className="text-xs text-gray-500"> ({entry.detail})</span>}
+                          </span>
+                          <span className="text-xs text-gray-500 shrink-0">
+                            {new Date(entry.occurred_at).toLocaleTimeString()}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-gray-500">None recorded</p>
+                  )}
                 </div>
-              </div>
-
-              {/* Warnings Section */}
-              <div className="mt-6">
-                <h3 className="text-lg font-semibold mb-2">Warnings</h3>
-                {selectedSession.warnings.length > 0 ? (
-                  <ul className="space-y-2">
-                    {selectedSession.warnings.map((warning, index) => (
-                      <li key={index} className="text-red-500">
-                        {warning}
-                      </li>
-                    ))}
-                  </ul>
-                ) : (
-                  <p className="text-green-500">No warnings</p>
-                )}
-              </div>
-
-              {/* Action Buttons */}
-              <div className="mt-6 flex space-x-4">
-                <button
-                  onClick={() => handleWarning(selectedSession.id, 'Suspicious activity detected')}
-                  className="bg-yellow-500 text-white px-4 py-2 rounded hover:bg-yellow-600"
-                >
-                  Flag Suspicious Activity
-                </button>
-                <button
-                  onClick={() => handleWarning(selectedSession.id, 'Exam terminated by HR')}
-                  className="bg-red-500 text-white px-4 py-2 rounded hover:bg-red-600"
-                >
-                  Terminate Exam
-                </button>
-              </div>
-            </div>
+
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium">Actions taken</h3>
+                  {actions.length ? (
+                    <ul className="space-y-1 text-sm">
+                      {actions.map((entry) => (
+                        <li key={entry.id} className="flex justify-between gap-2">
+                          <span className={entry.action === 'warn' ? 'text-orange-700' : ''}>{describeAction(entry)}</span>
+                          <span className="text-xs text-gray-500 shrink-0">
+                            {new Date(entry.created_at).toLocaleTimeString()}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-gray-500">None yet</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="pt-6 text-center text-gray-500">
+                Select a candidate to see their session and act on it
+              </CardContent>
+            </Card>
           )}
         </div>
       </div>
@@ -158,4 +534,4 @@ const HRDashboard: React.FC = () => {
   );
 };
 
-export default HRDashboard; 
\ No newline at end of file
+export default HRDashboard;
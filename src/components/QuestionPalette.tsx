@@ -0,0 +1,85 @@
+import { Flag } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { isAnswered } from "@/lib/questionTypes";
+import type { CandidateQuestion, QuestionResponse } from "@/lib/questionTypes";
+
+type PaletteStatus = "answered" | "unanswered" | "visited" | "flagged";
+
+interface QuestionPaletteProps {
+  questions: CandidateQuestion[];
+  answers: Record<string, QuestionResponse>;
+  visited: Set<string>;
+  flagged: Set<string>;
+  currentIndex: number;
+  onSelect: (index: number) => void;
+}
+
+// A flag outranks everything else: it's the candidate's own reminder to come
+// back. Visited means opened but left unanswered.
+const paletteStatus = (
+  questionId: string,
+  answers: Record<string, QuestionResponse>,
+  visited: Set<string>,
+  flagged: Set<string>,
+): PaletteStatus => {
+  if (flagged.has(questionId)) return "flagged";
+  if (isAnswered(answers[questionId])) return "answered";
+  if (visited.has(questionId)) return "visited";
+  return "unanswered";
+};
+
+const STATUS_STYLES: Record<PaletteStatus, string> = {
+  answered: "bg-green-500 border-green-500 text-white",
+  unanswered: "bg-white border-gray-300 text-gray-700",
+  visited: "bg-red-100 border-red-300 text-red-800",
+  flagged: "bg-yellow-100 border-yellow-500 text-yellow-900",
+};
+
+const STATUS_LABELS: Record<PaletteStatus, string> = {
+  answered: "Answered",
+  unanswered: "Not visited",
+  visited: "Visited, not answered",
+  flagged: "Flagged for review",
+};
+
+const QuestionPalette = ({ questions, answers, visited, flagged, currentIndex, onSelect }: QuestionPaletteProps) => (
+  <div className="space-y-4">
+    <div className="grid grid-cols-5 gap-2">
+      {questions.map((question, index) => {
+        const status = paletteStatus(question.id, answers, visited, flagged);
+        return (
+          <button
+            key={question.id}
+            type="button"
+            title={`Question ${index + 1}: ${STATUS_LABELS[status]}`}
+            aria-current={index === currentIndex ? "step" : undefined}
+            onClick={() => onSelect(index)}
+            className={cn(
+              "relative h-9 rounded-md border text-sm font-medium",
+              STATUS_STYLES[status],
+              index === currentIndex && "ring-2 ring-offset-1 ring-primary",
+            )}
+          >
+            {index + 1}
+            {status === "flagged" && isAnswered(answers[question.id]) && (
+              <span className="absolute -top-1 -right-1 h-2.5 w-2.5 rounded-full bg-green-500" />
+            )}
+          </button>
+        );
+      })}
+    </div>
+
+    <ul className="space-y-1 text-xs text-gray-600">
+      {(Object.keys(STATUS_LABELS) as PaletteStatus[]).map((status) => (
+        <li key={status} className="flex items-center gap-2">
+          <span className={cn("flex h-4 w-4 items-center justify-center rounded border", STATUS_STYLES[status])}>
+            {status === "flagged" && <Flag className="h-2.5 w-2.5" />}
+          </span>
+          {STATUS_LABELS[status]}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default QuestionPalette;
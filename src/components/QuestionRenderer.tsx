@@ -0,0 +1,138 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import type { CandidateQuestion, QuestionResponse } from "@/lib/questionTypes";
+
+interface QuestionRendererProps {
+  question: CandidateQuestion;
+  response: QuestionResponse | undefined;
+  onChange: (response: QuestionResponse | undefined) => void;
+  disabled?: boolean;
+}
+
+// Answer input for every question type; the candidate-facing counterpart of
+// the authoring form in QuestionEditor
+const QuestionRenderer = ({ question, response, onChange, disabled }: QuestionRendererProps) => {
+  const inputId = (suffix: string) => `${question.id}-${suffix}`;
+
+  switch (question.question_type) {
+    case "single_choice":
+    case "true_false":
+      return (
+        <RadioGroup
+          value={response === undefined ? "" : String(response)}
+          onValueChange={(value) =>
+            onChange(question.question_type === "true_false" ? value === "true" : value)
+          }
+          disabled={disabled}
+        >
+          <div className="space-y-2">
+            {question.options.map((option) => (
+              <div key={option.id} className="flex items-center space-x-2">
+                <RadioGroupItem value={option.id} id={inputId(option.id)} />
+                <Label htmlFor={inputId(option.id)}>{option.text}</Label>
+              </div>
+            ))}
+          </div>
+        </RadioGroup>
+      );
+
+    case "multiple_select": {
+      const selected = Array.isArray(response) ? response : [];
+      const toggle = (optionId: string, checked: boolean) => {
+        const next = checked
+          ? [...selected, optionId]
+          : selected.filter((id) => id !== optionId);
+        onChange(next.length ? next : undefined);
+      };
+
+      return (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-500">Select all that apply</p>
+          {question.options.map((option) => (
+            <div key={option.id} className="flex items-center space-x-2">
+              <Checkbox
+                id={inputId(option.id)}
+                checked={selected.includes(option.id)}
+                onCheckedChange={(checked) => toggle(option.id, checked === true)}
+                disabled={disabled}
+              />
+              <Label htmlFor={inputId(option.id)}>{option.text}</Label>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case "numeric":
+      return (
+        <Input
+          id={inputId("numeric")}
+          type="number"
+          step="any"
+          className="max-w-xs"
+          placeholder="Enter a number"
+          value={typeof response === "number" ? response : ""}
+          onChange={(e) => onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+          disabled={disabled}
+        />
+      );
+
+    case "short_text":
+      return (
+        <Input
+          id={inputId("text")}
+          placeholder="Type your answer"
+          value={typeof response === "string" ? response : ""}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          disabled={disabled}
+        />
+      );
+
+    case "ordering": {
+      // Until the candidate moves something, show the options as served
+      const order = Array.isArray(response) ? response : question.options.map((option) => option.id);
+      const textById = new Map(question.options.map((option) => [option.id, option.text]));
+      const move = (index: number, direction: -1 | 1) => {
+        const next = [...order];
+        [next[index], next[index + direction]] = [next[index + direction], next[index]];
+        onChange(next);
+      };
+
+      return (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-500">Arrange the items in the correct order</p>
+          {order.map((optionId, index) => (
+            <div key={optionId} className="flex items-center gap-2 rounded-md border p-2">
+              <span className="w-6 text-sm text-gray-500">{index + 1}.</span>
+              <span className="flex-1">{textById.get(optionId)}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={disabled || index === 0}
+                onClick={() => move(index, -1)}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={disabled || index === order.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      );
+    }
+  }
+};
+
+export default QuestionRenderer;
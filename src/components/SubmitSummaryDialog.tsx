@@ -0,0 +1,88 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+interface SubmitSummaryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  questionCount: number;
+  // Zero-based positions on the paper
+  unanswered: number[];
+  flagged: number[];
+  submitting: boolean;
+  // Finishing a section of a sectioned test rather than the test itself
+  closing: "test" | "section";
+  onReview: (index: number) => void;
+  onConfirm: () => void;
+}
+
+const QuestionLinks = ({ indexes, onReview }: { indexes: number[]; onReview: (index: number) => void }) => (
+  <div className="flex flex-wrap gap-1">
+    {indexes.map((index) => (
+      <Button key={index} type="button" variant="outline" size="sm" className="h-7 px-2" onClick={() => onReview(index)}>
+        {index + 1}
+      </Button>
+    ))}
+  </div>
+);
+
+// Last check before the final submission, or before leaving a section for
+// good: what is still unanswered or flagged, with a way back to each of those
+// questions
+const SubmitSummaryDialog = ({
+  open,
+  onOpenChange,
+  questionCount,
+  unanswered,
+  flagged,
+  submitting,
+  closing,
+  onReview,
+  onConfirm,
+}: SubmitSummaryDialogProps) => (
+  <AlertDialog open={open} onOpenChange={onOpenChange}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>{closing === "test" ? "Submit Test" : "Finish Section"}</AlertDialogTitle>
+        <AlertDialogDescription>
+          You have answered {questionCount - unanswered.length} of {questionCount} question(s).{" "}
+          {closing === "test"
+            ? "Once submitted, your answers can't be changed."
+            : "You can't come back to this section once you move on."}
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+
+      {unanswered.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-red-700">Unanswered ({unanswered.length})</p>
+          <QuestionLinks indexes={unanswered} onReview={onReview} />
+        </div>
+      )}
+      {flagged.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-yellow-800">Flagged for review ({flagged.length})</p>
+          <QuestionLinks indexes={flagged} onReview={onReview} />
+        </div>
+      )}
+
+      <AlertDialogFooter>
+        <AlertDialogCancel>Keep Working</AlertDialogCancel>
+        <AlertDialogAction onClick={onConfirm} disabled={submitting}>
+          {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {closing === "test" ? "Submit Test" : "Finish Section"}
+        </AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
+
+export default SubmitSummaryDialog;
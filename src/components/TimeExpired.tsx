@@ -0,0 +1,33 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Clock } from "lucide-react";
+
+interface TimeExpiredProps {
+  title?: string;
+}
+
+// Shown when the server closed the attempt because the deadline passed
+// while the candidate was disconnected
+const TimeExpired = ({ title }: TimeExpiredProps) => (
+  <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5 text-red-600" />
+          Time expired
+        </CardTitle>
+        {title && <CardDescription>{title}</CardDescription>}
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm text-gray-700">
+        <p>
+          Your time ran out while you were disconnected, so the attempt was closed when the deadline passed.
+        </p>
+        <p>
+          Answers saved before the deadline have been submitted. Changes that had not reached the server by then
+          could not be recorded.
+        </p>
+      </CardContent>
+    </Card>
+  </div>
+);
+
+export default TimeExpired;
@@ -6,8 +6,11 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_GRADING_SCHEME, GradingScheme } from "@/lib/gradingSchemes";
+import { fetchGradingSchemes } from "@/lib/gradingSchemeService";
 import { Plus, Edit, Trash2 } from "lucide-react";
 
 interface Batch {
@@ -15,17 +18,27 @@ interface Batch {
   name: string;
   description: string;
   created_at: string;
+  grading_scheme_id: string | null;
 }
 
+// Select value for a batch graded with the standard scheme
+const STANDARD_SCHEME = "standard";
+
+const emptyForm = { name: "", description: "", grading_scheme_id: STANDARD_SCHEME };
+
 const BatchManagement = () => {
   const [batches, setBatches] = useState<Batch[]>([]);
-  const [formData, setFormData] = useState({ name: "", description: "" });
+  const [formData, setFormData] = useState(emptyForm);
+  const [gradingSchemes, setGradingSchemes] = useState<GradingScheme[]>([]);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
     fetchBatches();
+    fetchGradingSchemes()
+      .then(setGradingSchemes)
+      .catch((error) => console.error("Error fetching grading schemes:", error));
   }, []);
 
   const fetchBatches = async () => {
@@ -51,6 +64,8 @@ const BatchManagement = () => {
     e.preventDefault();
     if (!formData.name.trim()) return;
 
+    const gradingSchemeId = formData.grading_scheme_id === STANDARD_SCHEME ? null : formData.grading_scheme_id;
+
     setLoading(true);
     try {
       if (editingId) {
@@ -59,6 +74,7 @@ const BatchManagement = () => {
           .update({
             name: formData.name,
             description: formData.description,
+            grading_scheme_id: gradingSchemeId,
             updated_at: new Date().toISOString(),
           })
           .eq("id", editingId);
@@ -71,13 +87,14 @@ const BatchManagement = () => {
           .insert([{
             name: formData.name,
             description: formData.description,
+            grading_scheme_id: gradingSchemeId,
           }]);
 
         if (error) throw error;
         toast({ title: "Success", description: "Batch created successfully" });
       }
 
-      setFormData({ name: "", description: "" });
+      setFormData(emptyForm);
       setEditingId(null);
       fetchBatches();
     } catch (error) {
@@ -93,7 +110,11 @@ const BatchManagement = () => {
   };
 
   const handleEdit = (batch: Batch) => {
-    setFormData({ name: batch.name, description: batch.description });
+    setFormData({
+      name: batch.name,
+      description: batch.description,
+      grading_scheme_id: batch.grading_scheme_id ?? STANDARD_SCHEME,
+    });
     setEditingId(batch.id);
   };
 
@@ -120,7 +141,7 @@ const BatchManagement = () => {
   };
 
   const resetForm = () => {
-    setFormData({ name: "", description: "" });
+    setFormData(emptyForm);
     setEditingId(null);
   };
 
@@ -157,6 +178,28 @@ const BatchManagement = () => {
                 />
               </div>
             </div>
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="batch-grading-scheme">Grading Scheme</Label>
+              <Select
+                value={formData.grading_scheme_id}
+                onValueChange={(value) => setFormData({ ...formData, grading_scheme_id: value })}
+              >
+                <SelectTrigger id="batch-grading-scheme">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={STANDARD_SCHEME}>
+                    {DEFAULT_GRADING_SCHEME.name} (pass {DEFAULT_GRADING_SCHEME.pass_mark}%)
+                  </SelectItem>
+                  {gradingSchemes.map((scheme) => (
+                    <SelectItem key={scheme.id} value={scheme.id}>
+                      {scheme.name} (pass {scheme.pass_mark}%)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">Used by the batch's tests that don't set their own</p>
+            </div>
             <div className="flex gap-2">
               <Button type="submit" disabled={loading}>
                 <Plus className="h-4 w-4 mr-2" />
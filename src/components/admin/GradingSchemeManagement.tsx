@@ -0,0 +1,302 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_GRADING_SCHEME,
+  GRADE_TONES,
+  GRADE_TONE_CLASSES,
+  GradeBand,
+  GradeTone,
+  GradingScheme,
+  sortBands,
+  validateGradingScheme,
+} from "@/lib/gradingSchemes";
+import { fetchGradingSchemes } from "@/lib/gradingSchemeService";
+import { Edit, Plus, Trash2, X } from "lucide-react";
+
+const emptyForm = () => ({
+  name: "",
+  pass_mark: DEFAULT_GRADING_SCHEME.pass_mark,
+  bands: DEFAULT_GRADING_SCHEME.bands.map((band) => ({ ...band })),
+});
+
+// Named pass marks and grade bands, attached to tests and batches in their
+// own forms
+const GradingSchemeManagement = () => {
+  const [schemes, setSchemes] = useState<GradingScheme[]>([]);
+  const [formData, setFormData] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchSchemes();
+  }, []);
+
+  const fetchSchemes = async () => {
+    try {
+      setSchemes(await fetchGradingSchemes());
+    } catch (error) {
+      console.error("Error fetching grading schemes:", error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch grading schemes",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateBand = (index: number, changes: Partial<GradeBand>) => {
+    setFormData((prev) => ({
+      ...prev,
+      bands: prev.bands.map((band, i) => (i === index ? { ...band, ...changes } : band)),
+    }));
+  };
+
+  const addBand = () => {
+    setFormData((prev) => ({ ...prev, bands: [...prev.bands, { label: "", min_percentage: 0, tone: "red" }] }));
+  };
+
+  const removeBand = (index: number) => {
+    setFormData((prev) => ({ ...prev, bands: prev.bands.filter((_, i) => i !== index) }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const scheme = {
+      name: formData.name.trim(),
+      pass_mark: formData.pass_mark,
+      bands: sortBands(formData.bands.map((band) => ({ ...band, label: band.label.trim() }))),
+    };
+    const problem = validateGradingScheme(scheme);
+    if (problem) {
+      toast({ title: "Error", description: problem, variant: "destructive" });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (editingId) {
+        const { error } = await supabase
+          .from("grading_schemes")
+          .update({ ...scheme, updated_at: new Date().toISOString() })
+          .eq("id", editingId);
+
+        if (error) throw error;
+        toast({ title: "Success", description: "Grading scheme updated successfully" });
+      } else {
+        const { error } = await supabase
+          .from("grading_schemes")
+          .insert([scheme]);
+
+        if (error) throw error;
+        toast({ title: "Success", description: "Grading scheme created successfully" });
+      }
+
+      resetForm();
+      fetchSchemes();
+    } catch (error) {
+      console.error("Error saving grading scheme:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save grading scheme. Scheme names must be unique.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (scheme: GradingScheme) => {
+    setFormData({
+      name: scheme.name,
+      pass_mark: scheme.pass_mark,
+      bands: scheme.bands.map((band) => ({ ...band })),
+    });
+    setEditingId(scheme.id);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this grading scheme? Tests and batches using it fall back to the standard scheme.")) return;
+
+    try {
+      const { error } = await supabase
+        .from("grading_schemes")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Grading scheme deleted successfully" });
+      fetchSchemes();
+    } catch (error) {
+      console.error("Error deleting grading scheme:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete grading scheme",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? "Edit Grading Scheme" : "Create Grading Scheme"}</CardTitle>
+          <CardDescription>
+            Results use the test's scheme, then its batch's, then the standard A+ to F scheme with a{" "}
+            {DEFAULT_GRADING_SCHEME.pass_mark}% pass mark
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="scheme-name">Name</Label>
+                <Input
+                  id="scheme-name"
+                  placeholder="e.g., Campus Drive 2026"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="scheme-pass-mark">Pass Mark (%)</Label>
+                <Input
+                  id="scheme-pass-mark"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={formData.pass_mark}
+                  onChange={(e) => setFormData({ ...formData, pass_mark: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Grades</Label>
+              {formData.bands.map((band, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    className="w-32"
+                    placeholder="Label"
+                    value={band.label}
+                    onChange={(e) => updateBand(index, { label: e.target.value })}
+                  />
+                  <span className="text-sm text-gray-600">from</span>
+                  <Input
+                    className="w-24"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={band.min_percentage}
+                    onChange={(e) => updateBand(index, { min_percentage: parseFloat(e.target.value) || 0 })}
+                  />
+                  <span className="text-sm text-gray-600">%</span>
+                  <Select value={band.tone} onValueChange={(value: GradeTone) => updateBand(index, { tone: value })}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GRADE_TONES.map((tone) => (
+                        <SelectItem key={tone} value={tone} className="capitalize">{tone}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button type="button" variant="ghost" size="icon" onClick={() => removeBand(index)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={addBand}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Grade
+              </Button>
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="submit" disabled={loading}>
+                <Plus className="h-4 w-4 mr-2" />
+                {editingId ? "Update Scheme" : "Create Scheme"}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Grading Schemes</CardTitle>
+          <CardDescription>Attach a scheme to a test or a batch when creating or editing it</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Pass Mark</TableHead>
+                <TableHead>Grades</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schemes.map((scheme) => (
+                <TableRow key={scheme.id}>
+                  <TableCell className="font-medium">{scheme.name}</TableCell>
+                  <TableCell>{scheme.pass_mark}%</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {scheme.bands.map((band) => (
+                        <Badge key={band.label} className={GRADE_TONE_CLASSES[band.tone]}>
+                          {band.label} ≥ {band.min_percentage}%
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleEdit(scheme)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleDelete(scheme.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {schemes.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-gray-500">
+                    No schemes yet. Every test uses the standard scheme.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default GradingSchemeManagement;
@@ -0,0 +1,216 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AnalyzedSubmission,
+  ITEM_FLAG_LABELS,
+  ItemStats,
+  MIN_SESSIONS_FOR_DISCRIMINATION,
+  analyzeItems,
+} from "@/lib/itemAnalysis";
+import { QUESTION_TYPE_LABELS } from "@/lib/questionTypes";
+
+interface ItemAnalysisProps {
+  testId: string;
+}
+
+// Rows fetched per request; the API caps a single response
+const PAGE_SIZE = 1000;
+
+const fetchSubmissions = async (testId: string) => {
+  const submissions: AnalyzedSubmission[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("test_submissions")
+      .select("session_id, question_id, response, is_correct")
+      .eq("test_id", testId)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    submissions.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return submissions;
+  }
+};
+
+const formatSeconds = (seconds: number | null) => {
+  if (seconds === null) return "—";
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+};
+
+const difficultyClass = (difficulty: number) => {
+  if (difficulty < 20 || difficulty > 95) return "text-red-700";
+  if (difficulty < 40 || difficulty > 85) return "text-orange-700";
+  return "text-green-700";
+};
+
+// Per-question statistics over the graded sessions of a test
+const ItemAnalysis = ({ testId }: ItemAnalysisProps) => {
+  const [items, setItems] = useState<ItemStats[]>([]);
+  const [sessionCount, setSessionCount] = useState(0);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchAnalysis();
+  }, [testId]);
+
+  const fetchAnalysis = async () => {
+    setLoading(true);
+    try {
+      const { data: sessions, error: sessionsError } = await supabase
+        .from("test_sessions")
+        .select("id, total_score, max_score, total_questions, question_order, question_seconds")
+        .eq("test_id", testId)
+        .not("graded_at", "is", null);
+
+      if (sessionsError) throw sessionsError;
+
+      const graded = new Set((sessions || []).map((session) => session.id));
+      const submissions = (await fetchSubmissions(testId)).filter((submission) => graded.has(submission.session_id));
+
+      // Every question any candidate was served, in the order first seen
+      const questionIds = [
+        ...new Set([
+          ...(sessions || []).flatMap((session) => session.question_order ?? []),
+          ...submissions.map((submission) => submission.question_id),
+        ]),
+      ];
+
+      const { data: questions, error: questionsError } = questionIds.length
+        ? await supabase
+            .from("questions")
+            .select("id, question_text, question_type, options, correct_answer")
+            .in("id", questionIds)
+        : { data: [], error: null };
+
+      if (questionsError) throw questionsError;
+
+      const byId = new Map((questions || []).map((question) => [question.id, question]));
+      setItems(
+        analyzeItems(
+          questionIds.filter((id) => byId.has(id)).map((id) => byId.get(id)),
+          (sessions || []).map((session) => ({
+            ...session,
+            total_score: session.total_score ?? 0,
+            max_score: session.max_score ?? session.total_questions ?? 0,
+          })),
+          submissions,
+        ),
+      );
+      setSessionCount(graded.size);
+    } catch (error) {
+      console.error("Error fetching item analysis:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the item analysis",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const shown = flaggedOnly ? items.filter((item) => item.flags.length > 0) : items;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Item Analysis</CardTitle>
+        <CardDescription>
+          How each question performed across {sessionCount} graded session(s). Difficulty is the share of candidates
+          who answered fully correctly; discrimination compares the top and bottom quartiles by overall score
+          {sessionCount < MIN_SESSIONS_FOR_DISCRIMINATION &&
+            ` and needs at least ${MIN_SESSIONS_FOR_DISCRIMINATION} sessions`}
+          .
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center space-x-2">
+          <Switch id="item-flagged-only" checked={flaggedOnly} onCheckedChange={setFlaggedOnly} />
+          <Label htmlFor="item-flagged-only">Only questions that need a look</Label>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Question</TableHead>
+              <TableHead>Served</TableHead>
+              <TableHead>Difficulty</TableHead>
+              <TableHead>Discrimination</TableHead>
+              <TableHead>Avg. Time</TableHead>
+              <TableHead>Chosen Options</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shown.map((item) => (
+              <TableRow key={item.question.id} className="align-top">
+                <TableCell className="max-w-sm">
+                  <p className="line-clamp-3">{item.question.question_text}</p>
+                  <p className="text-xs text-gray-500">{QUESTION_TYPE_LABELS[item.question.question_type]}</p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {item.flags.map((flag) => (
+                      <Badge key={flag} variant="destructive" className="font-normal">
+                        {ITEM_FLAG_LABELS[flag]}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  {item.served}
+                  <p className="text-xs text-gray-500">{item.answered} answered</p>
+                </TableCell>
+                <TableCell className={difficultyClass(item.difficulty)}>{item.difficulty.toFixed(0)}%</TableCell>
+                <TableCell>{item.discrimination === null ? "—" : item.discrimination.toFixed(2)}</TableCell>
+                <TableCell>{formatSeconds(item.average_seconds)}</TableCell>
+                <TableCell className="min-w-48">
+                  {item.choices ? (
+                    <div className="space-y-1">
+                      {item.choices.map((choice) => (
+                        <div key={choice.option.id} className="text-xs">
+                          <div className="flex justify-between gap-2">
+                            <span className={choice.is_key ? "font-semibold text-green-700" : ""}>
+                              {choice.option.id}. {choice.option.text}
+                            </span>
+                            <span>{choice.percentage.toFixed(0)}%</span>
+                          </div>
+                          <div className="h-1.5 bg-gray-100 rounded">
+                            <div
+                              className={`h-1.5 rounded ${choice.is_key ? "bg-green-500" : "bg-gray-400"}`}
+                              style={{ width: `${choice.percentage}%` }}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <span className="text-xs text-gray-500">Not a choice question</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+            {shown.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-gray-500">
+                  {loading
+                    ? "Analyzing..."
+                    : items.length
+                      ? "No questions stand out"
+                      : "No graded sessions yet"}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ItemAnalysis;
@@ -0,0 +1,234 @@
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Edit, Trash2 } from "lucide-react";
+
+interface QuestionBank {
+  id: string;
+  name: string;
+  description: string;
+  created_at: string;
+  question_count: number;
+}
+
+const QuestionBankManagement = () => {
+  const [banks, setBanks] = useState<QuestionBank[]>([]);
+  const [formData, setFormData] = useState({ name: "", description: "" });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchBanks();
+  }, []);
+
+  const fetchBanks = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("question_banks")
+        .select("id, name, description, created_at, questions(count)")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setBanks(
+        (data || []).map(({ questions, ...bank }) => ({
+          ...bank,
+          question_count: questions[0]?.count ?? 0,
+        }))
+      );
+    } catch (error) {
+      console.error("Error fetching question banks:", error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch question banks",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+
+    setLoading(true);
+    try {
+      if (editingId) {
+        const { error } = await supabase
+          .from("question_banks")
+          .update({
+            name: formData.name,
+            description: formData.description,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", editingId);
+
+        if (error) throw error;
+        toast({ title: "Success", description: "Question bank updated successfully" });
+      } else {
+        const { error } = await supabase
+          .from("question_banks")
+          .insert([{
+            name: formData.name,
+            description: formData.description,
+          }]);
+
+        if (error) throw error;
+        toast({ title: "Success", description: "Question bank created successfully" });
+      }
+
+      setFormData({ name: "", description: "" });
+      setEditingId(null);
+      fetchBanks();
+    } catch (error) {
+      console.error("Error saving question bank:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save question bank",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (bank: QuestionBank) => {
+    setFormData({ name: bank.name, description: bank.description });
+    setEditingId(bank.id);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Are you sure you want to delete this question bank? Its questions stay available in existing tests.")) return;
+
+    try {
+      const { error } = await supabase
+        .from("question_banks")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Question bank deleted successfully" });
+      fetchBanks();
+    } catch (error) {
+      console.error("Error deleting question bank:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete question bank",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const resetForm = () => {
+    setFormData({ name: "", description: "" });
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? "Edit Question Bank" : "Create New Question Bank"}</CardTitle>
+          <CardDescription>
+            {editingId ? "Update the question bank information" : "Group reusable questions by topic or skill"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="bank-name">Bank Name</Label>
+                <Input
+                  id="bank-name"
+                  placeholder="e.g., Quantitative Aptitude"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="bank-description">Description</Label>
+                <Textarea
+                  id="bank-description"
+                  placeholder="Brief description of the question bank"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  rows={3}
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={loading}>
+                <Plus className="h-4 w-4 mr-2" />
+                {editingId ? "Update Bank" : "Create Bank"}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Question Banks</CardTitle>
+          <CardDescription>Banks can be combined when composing a test</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Questions</TableHead>
+                <TableHead>Created Date</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {banks.map((bank) => (
+                <TableRow key={bank.id}>
+                  <TableCell className="font-medium">{bank.name}</TableCell>
+                  <TableCell>{bank.description}</TableCell>
+                  <TableCell>{bank.question_count}</TableCell>
+                  <TableCell>
+                    {new Date(bank.created_at).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEdit(bank)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(bank.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default QuestionBankManagement;
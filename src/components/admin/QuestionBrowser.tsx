@@ -0,0 +1,560 @@
+import { Fragment, useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, ChevronLeft, ChevronRight, Edit, Loader2, Search, Trash2 } from "lucide-react";
+import QuestionEditor from "@/components/admin/QuestionEditor";
+import {
+  QUESTION_TYPE_LABELS,
+  QuestionDraft,
+  QuestionType,
+  fromQuestionRow,
+  toQuestionRow,
+  validateQuestion,
+} from "@/lib/questionTypes";
+
+type Difficulty = Database["public"]["Enums"]["question_difficulty"];
+
+const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+const PAGE_SIZE = 20;
+// Select value meaning "no filter"
+const ALL = "all";
+
+interface NamedItem {
+  id: string;
+  name: string;
+}
+
+interface QuestionRow {
+  id: string;
+  question_text: string;
+  question_type: QuestionType;
+  tags: string[];
+  difficulty: Difficulty | null;
+  updated_at: string;
+  bank: { name: string } | null;
+}
+
+interface EditState {
+  id: string;
+  draft: QuestionDraft;
+  tags: string;
+  difficulty: Difficulty | typeof ALL;
+  // Answers already recorded against this question
+  submissionCount: number;
+}
+
+const QUESTION_COLUMNS = "id, question_text, question_type, tags, difficulty, updated_at, bank:question_banks(name)";
+
+const selectQuestions = () => supabase.from("questions").select(QUESTION_COLUMNS, { count: "exact" });
+
+const parseTags = (value: string) =>
+  [...new Set(value.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+
+const QuestionBrowser = () => {
+  const [questions, setQuestions] = useState<QuestionRow[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(0);
+  const [banks, setBanks] = useState<NamedItem[]>([]);
+  const [batches, setBatches] = useState<NamedItem[]>([]);
+  const [filters, setFilters] = useState({ search: "", bank: ALL, batch: ALL, tag: "", difficulty: ALL });
+  // Text inputs apply on submit rather than on every keystroke
+  const [searchInput, setSearchInput] = useState("");
+  const [tagInput, setTagInput] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [editing, setEditing] = useState<EditState | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<{ ids: string[]; submissionCount: number } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchFilterOptions();
+  }, []);
+
+  useEffect(() => {
+    fetchQuestions();
+  }, [filters, page]);
+
+  const fetchFilterOptions = async () => {
+    try {
+      const [bankResult, batchResult] = await Promise.all([
+        supabase.from("question_banks").select("id, name").order("name"),
+        supabase.from("batches").select("id, name").order("created_at", { ascending: false }),
+      ]);
+
+      if (bankResult.error) throw bankResult.error;
+      if (batchResult.error) throw batchResult.error;
+      setBanks(bankResult.data || []);
+      setBatches(batchResult.data || []);
+    } catch (error) {
+      console.error("Error fetching filter options:", error);
+    }
+  };
+
+  const fetchQuestions = async () => {
+    setLoading(true);
+    try {
+      // Questions used by a batch are resolved by the database; see the
+      // batch_questions function. It returns rows of questions, but these
+      // client types can't follow the bank relationship through a function,
+      // so its query is typed as the table's.
+      let query =
+        filters.batch === ALL
+          ? selectQuestions()
+          : (supabase
+              .rpc("batch_questions", { batch: filters.batch }, { count: "exact" })
+              .select(QUESTION_COLUMNS) as unknown as ReturnType<typeof selectQuestions>);
+
+      if (filters.search) {
+        query = query.textSearch("search_vector", filters.search, { type: "websearch", config: "english" });
+      }
+      if (filters.bank !== ALL) {
+        query = query.eq("bank_id", filters.bank);
+      }
+      if (filters.tag) {
+        query = query.contains("tags", [filters.tag]);
+      }
+      if (filters.difficulty !== ALL) {
+        query = query.eq("difficulty", filters.difficulty as Difficulty);
+      }
+
+      const from = page * PAGE_SIZE;
+      const { data, error, count } = await query
+        .order("updated_at", { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      setQuestions(data || []);
+      setTotalCount(count ?? 0);
+      setSelected([]);
+    } catch (error) {
+      console.error("Error fetching questions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch questions",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const countSubmissions = async (questionIds: string[]) => {
+    const { count, error } = await supabase
+      .from("test_submissions")
+      .select("id", { count: "exact", head: true })
+      .in("question_id", questionIds);
+
+    if (error) throw error;
+    return count ?? 0;
+  };
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(0);
+    setFilters({ ...filters, search: searchInput.trim(), tag: tagInput.trim().toLowerCase() });
+  };
+
+  const setFilter = (key: "bank" | "batch" | "difficulty", value: string) => {
+    setPage(0);
+    setFilters({ ...filters, [key]: value });
+  };
+
+  const startEditing = async (questionId: string) => {
+    try {
+      const [{ data, error }, submissionCount] = await Promise.all([
+        supabase
+          .from("questions")
+          .select("id, question_type, question_text, options, correct_answer, tags, difficulty")
+          .eq("id", questionId)
+          .single(),
+        countSubmissions([questionId]),
+      ]);
+
+      if (error) throw error;
+      setEditing({
+        id: data.id,
+        draft: fromQuestionRow(data),
+        tags: data.tags.join(", "),
+        difficulty: data.difficulty ?? ALL,
+        submissionCount,
+      });
+    } catch (error) {
+      console.error("Error loading question:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load question",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const problem = validateQuestion(editing.draft);
+    if (problem) {
+      toast({
+        title: "Error",
+        description: problem,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("questions")
+        .update({
+          ...toQuestionRow(editing.draft),
+          tags: parseTags(editing.tags),
+          difficulty: editing.difficulty === ALL ? null : editing.difficulty,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", editing.id);
+
+      if (error) throw error;
+
+      toast({ title: "Success", description: "Question updated successfully" });
+      setEditing(null);
+      fetchQuestions();
+    } catch (error) {
+      console.error("Error updating question:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update question",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = async (ids: string[]) => {
+    try {
+      setDeleteTarget({ ids, submissionCount: await countSubmissions(ids) });
+    } catch (error) {
+      console.error("Error checking submissions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to check whether the questions have been answered",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("questions")
+        .delete()
+        .in("id", deleteTarget.ids);
+
+      if (error) throw error;
+
+      toast({ title: "Success", description: `${deleteTarget.ids.length} question(s) deleted` });
+      setDeleteTarget(null);
+      if (editing && deleteTarget.ids.includes(editing.id)) setEditing(null);
+      fetchQuestions();
+    } catch (error) {
+      console.error("Error deleting questions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete questions",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleSelected = (questionId: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, questionId] : prev.filter((id) => id !== questionId)));
+  };
+
+  const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+  const allSelected = questions.length > 0 && selected.length === questions.length;
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={applyFilters} className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="question-search">Search</Label>
+          <Input
+            id="question-search"
+            placeholder="Words in the question text"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Bank</Label>
+          <Select value={filters.bank} onValueChange={(value) => setFilter("bank", value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All banks</SelectItem>
+              {banks.map((bank) => (
+                <SelectItem key={bank.id} value={bank.id}>{bank.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Batch</Label>
+          <Select value={filters.batch} onValueChange={(value) => setFilter("batch", value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All batches</SelectItem>
+              {batches.map((batch) => (
+                <SelectItem key={batch.id} value={batch.id}>{batch.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Difficulty</Label>
+          <Select value={filters.difficulty} onValueChange={(value) => setFilter("difficulty", value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any difficulty</SelectItem>
+              {DIFFICULTIES.map((difficulty) => (
+                <SelectItem key={difficulty} value={difficulty} className="capitalize">{difficulty}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="question-tag">Tag</Label>
+          <div className="flex gap-2">
+            <Input
+              id="question-tag"
+              placeholder="e.g. algebra"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+            />
+            <Button type="submit" size="icon" aria-label="Search">
+              <Search className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </form>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-600">
+          {totalCount} question(s){selected.length > 0 && `, ${selected.length} selected`}
+        </span>
+        <Button
+          variant="destructive"
+          size="sm"
+          disabled={selected.length === 0}
+          onClick={() => confirmDelete(selected)}
+        >
+          <Trash2 className="h-4 w-4 mr-2" />
+          Delete Selected
+        </Button>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10">
+              <Checkbox
+                checked={allSelected}
+                onCheckedChange={(checked) => setSelected(checked === true ? questions.map((q) => q.id) : [])}
+                aria-label="Select all on this page"
+              />
+            </TableHead>
+            <TableHead>Question</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Bank</TableHead>
+            <TableHead>Tags</TableHead>
+            <TableHead>Difficulty</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {questions.map((question) => (
+            <Fragment key={question.id}>
+              <TableRow>
+                <TableCell>
+                  <Checkbox
+                    checked={selected.includes(question.id)}
+                    onCheckedChange={(checked) => toggleSelected(question.id, checked === true)}
+                    aria-label="Select question"
+                  />
+                </TableCell>
+                <TableCell className="max-w-md truncate">{question.question_text}</TableCell>
+                <TableCell>{QUESTION_TYPE_LABELS[question.question_type]}</TableCell>
+                <TableCell>{question.bank?.name ?? "—"}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {question.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary">{tag}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="capitalize">{question.difficulty ?? "—"}</TableCell>
+                <TableCell>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => startEditing(question.id)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => confirmDelete([question.id])}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+              {editing?.id === question.id && (
+                <TableRow>
+                  <TableCell colSpan={7} className="bg-gray-50">
+                    <div className="space-y-4 p-2">
+                      {editing.submissionCount > 0 && (
+                        <Alert variant="destructive">
+                          <AlertTriangle className="h-4 w-4" />
+                          <AlertTitle>This question has already been answered</AlertTitle>
+                          <AlertDescription>
+                            {editing.submissionCount} recorded answer(s) reference it. Changes apply to future
+                            attempts only; to recalculate existing scores, regrade the tests from their results.
+                          </AlertDescription>
+                        </Alert>
+                      )}
+                      <QuestionEditor
+                        value={editing.draft}
+                        onChange={(draft) => setEditing({ ...editing, draft })}
+                      />
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="edit-tags">Tags</Label>
+                          <Input
+                            id="edit-tags"
+                            placeholder="Comma-separated, e.g. algebra, fractions"
+                            value={editing.tags}
+                            onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Difficulty</Label>
+                          <Select
+                            value={editing.difficulty}
+                            onValueChange={(value) => setEditing({ ...editing, difficulty: value as EditState["difficulty"] })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={ALL}>Not set</SelectItem>
+                              {DIFFICULTIES.map((difficulty) => (
+                                <SelectItem key={difficulty} value={difficulty} className="capitalize">{difficulty}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button onClick={handleSave} disabled={saving}>
+                          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                          Save Changes
+                        </Button>
+                        <Button variant="outline" onClick={() => setEditing(null)} disabled={saving}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )}
+            </Fragment>
+          ))}
+          {!loading && questions.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center text-gray-500">
+                No questions match these filters.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+
+      <div className="flex items-center justify-end gap-2">
+        <span className="text-sm text-gray-600">
+          Page {page + 1} of {pageCount}
+        </span>
+        <Button variant="outline" size="sm" disabled={page === 0 || loading} onClick={() => setPage(page - 1)}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={page + 1 >= pageCount || loading}
+          onClick={() => setPage(page + 1)}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={() => setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Questions</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete {deleteTarget?.ids.length} question(s)? They are also removed from every test that uses them.
+              {deleteTarget && deleteTarget.submissionCount > 0 && (
+                <span className="block mt-2 font-medium text-red-700">
+                  {deleteTarget.submissionCount} recorded answer(s) reference these questions. Existing scores
+                  are kept, but those answers will no longer show which question they belonged to.
+                </span>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={saving}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {saving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Trash2 className="h-4 w-4 mr-2" />
+              )}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default QuestionBrowser;
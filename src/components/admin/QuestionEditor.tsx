@@ -0,0 +1,208 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus, X } from "lucide-react";
+import {
+  MAX_OPTIONS,
+  MIN_OPTIONS,
+  NumericAnswerKey,
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  QuestionDraft,
+  QuestionType,
+  ShortTextAnswerKey,
+  emptyDraft,
+  optionId,
+  removeOption,
+} from "@/lib/questionTypes";
+
+interface QuestionEditorProps {
+  value: QuestionDraft;
+  onChange: (draft: QuestionDraft) => void;
+}
+
+// Authoring form for a single question of any type
+const QuestionEditor = ({ value, onChange }: QuestionEditorProps) => {
+  const { question_type: type, options, correct_answer: key } = value;
+
+  const handleTypeChange = (nextType: QuestionType) => {
+    onChange({ ...emptyDraft(nextType), question_text: value.question_text });
+  };
+
+  const setKey = (nextKey: QuestionDraft["correct_answer"]) => {
+    onChange({ ...value, correct_answer: nextKey });
+  };
+
+  const setOptionText = (index: number, text: string) => {
+    onChange({
+      ...value,
+      options: options.map((option, i) => (i === index ? { ...option, text } : option)),
+    });
+  };
+
+  const addOption = () => {
+    onChange({ ...value, options: [...options, { id: optionId(options.length), text: "" }] });
+  };
+
+  const toggleCorrect = (id: string, checked: boolean) => {
+    const selected = key as string[];
+    setKey(checked ? [...selected, id] : selected.filter((selectedId) => selectedId !== id));
+  };
+
+  const numericKey = key as NumericAnswerKey;
+  const textKey = key as ShortTextAnswerKey;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="question_type">Question Type</Label>
+        <Select value={type} onValueChange={(next: QuestionType) => handleTypeChange(next)}>
+          <SelectTrigger id="question_type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {QUESTION_TYPES.map((questionType) => (
+              <SelectItem key={questionType} value={questionType}>
+                {QUESTION_TYPE_LABELS[questionType]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="question">Question</Label>
+        <Textarea
+          id="question"
+          placeholder="Enter your question here..."
+          value={value.question_text}
+          onChange={(e) => onChange({ ...value, question_text: e.target.value })}
+          required
+          rows={3}
+        />
+      </div>
+
+      {(type === "single_choice" || type === "multiple_select" || type === "ordering") && (
+        <div className="space-y-2">
+          <Label>Options</Label>
+          <p className="text-sm text-gray-500">
+            {type === "single_choice" && "Mark the correct option."}
+            {type === "multiple_select" && "Tick every correct option."}
+            {type === "ordering" && "Enter the items in the correct order; candidates see them shuffled."}
+          </p>
+          <RadioGroup
+            value={type === "single_choice" ? (key as string) : ""}
+            onValueChange={(id) => setKey(id)}
+            className="space-y-2"
+          >
+            {options.map((option, index) => (
+              <div key={option.id} className="flex items-center gap-2">
+                {type === "single_choice" && (
+                  <RadioGroupItem value={option.id} id={`correct-${option.id}`} aria-label={`Option ${option.id} is correct`} />
+                )}
+                {type === "multiple_select" && (
+                  <Checkbox
+                    checked={(key as string[]).includes(option.id)}
+                    onCheckedChange={(checked) => toggleCorrect(option.id, checked === true)}
+                    aria-label={`Option ${option.id} is correct`}
+                  />
+                )}
+                {type === "ordering" && <span className="w-6 text-sm text-gray-500">{index + 1}.</span>}
+                <Input
+                  placeholder={`Option ${option.id}`}
+                  value={option.text}
+                  onChange={(e) => setOptionText(index, e.target.value)}
+                  required
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={options.length <= MIN_OPTIONS}
+                  onClick={() => onChange(removeOption(value, index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </RadioGroup>
+          <Button type="button" variant="outline" size="sm" disabled={options.length >= MAX_OPTIONS} onClick={addOption}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Option
+          </Button>
+        </div>
+      )}
+
+      {type === "true_false" && (
+        <div className="space-y-2">
+          <Label>Correct Answer</Label>
+          <RadioGroup value={String(key)} onValueChange={(answer) => setKey(answer === "true")} className="flex gap-6">
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="true" id="correct-true" />
+              <Label htmlFor="correct-true">True</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="false" id="correct-false" />
+              <Label htmlFor="correct-false">False</Label>
+            </div>
+          </RadioGroup>
+        </div>
+      )}
+
+      {type === "numeric" && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="numeric_value">Correct Value</Label>
+            <Input
+              id="numeric_value"
+              type="number"
+              step="any"
+              value={Number.isFinite(numericKey.value) ? numericKey.value : ""}
+              onChange={(e) => setKey({ ...numericKey, value: parseFloat(e.target.value) })}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="numeric_tolerance">Tolerance (±)</Label>
+            <Input
+              id="numeric_tolerance"
+              type="number"
+              step="any"
+              min="0"
+              value={Number.isFinite(numericKey.tolerance) ? numericKey.tolerance : ""}
+              onChange={(e) => setKey({ ...numericKey, tolerance: parseFloat(e.target.value) })}
+            />
+          </div>
+        </div>
+      )}
+
+      {type === "short_text" && (
+        <div className="space-y-2">
+          <Label htmlFor="accepted_answers">Accepted Answers</Label>
+          <Textarea
+            id="accepted_answers"
+            placeholder="One accepted answer per line"
+            value={textKey.accepted.join("\n")}
+            onChange={(e) => setKey({ ...textKey, accepted: e.target.value.split("\n") })}
+            rows={3}
+          />
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="case_sensitive"
+              checked={textKey.case_sensitive}
+              onCheckedChange={(checked) => setKey({ ...textKey, case_sensitive: checked })}
+            />
+            <Label htmlFor="case_sensitive">Case sensitive</Label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionEditor;
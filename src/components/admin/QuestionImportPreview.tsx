@@ -0,0 +1,92 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle, Upload, XCircle } from "lucide-react";
+import type { ImportRow } from "@/lib/questionImport";
+
+interface QuestionImportPreviewProps {
+  fileName: string;
+  rows: ImportRow[];
+  loading: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const QuestionImportPreview = ({ fileName, rows, loading, onConfirm, onCancel }: QuestionImportPreviewProps) => {
+  const validCount = rows.filter((row) => row.errors.length === 0).length;
+  const invalidCount = rows.length - validCount;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">{fileName}</span>
+        <Badge className="bg-green-100 text-green-800">{validCount} ready</Badge>
+        {invalidCount > 0 && (
+          <Badge className="bg-red-100 text-red-800">{invalidCount} with errors</Badge>
+        )}
+      </div>
+
+      <div className="max-h-96 overflow-auto border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Row</TableHead>
+              <TableHead>Question</TableHead>
+              <TableHead>Options</TableHead>
+              <TableHead className="w-20">Answer</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.rowNumber} className={row.errors.length ? "bg-red-50" : undefined}>
+                <TableCell>{row.rowNumber}</TableCell>
+                <TableCell className="max-w-xs whitespace-pre-wrap">{row.draft.question_text}</TableCell>
+                <TableCell className="max-w-xs">
+                  <ol className="list-[upper-alpha] list-inside">
+                    {row.draft.options.map((option) => (
+                      <li key={option.id} className="truncate">{option.text || "—"}</li>
+                    ))}
+                  </ol>
+                </TableCell>
+                <TableCell>{String(row.draft.correct_answer) || "—"}</TableCell>
+                <TableCell>
+                  {row.errors.length === 0 ? (
+                    <CheckCircle className="h-4 w-4 text-green-600" />
+                  ) : (
+                    <ul className="space-y-1 text-sm text-red-700">
+                      {row.errors.map((error) => (
+                        <li key={error} className="flex items-start gap-1">
+                          <XCircle className="h-4 w-4 shrink-0" />
+                          {error}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {invalidCount > 0 && (
+        <p className="text-sm text-gray-600">
+          Rows with errors are skipped. Fix them in the file and upload it again to include them.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={onConfirm} disabled={loading || validCount === 0}>
+          <Upload className="h-4 w-4 mr-2" />
+          Import {validCount} Question{validCount === 1 ? "" : "s"}
+        </Button>
+        <Button variant="outline" onClick={onCancel} disabled={loading}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionImportPreview;
@@ -0,0 +1,180 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Plus, Trash2, Upload, X } from "lucide-react";
+import { MAX_OPTIONS, MIN_OPTIONS, QuestionDraft, optionId, removeOption, validateQuestion } from "@/lib/questionTypes";
+import type { ParsedQuestion } from "@/lib/pdfQuestionImport";
+
+interface QuestionReviewGridProps {
+  fileName: string;
+  questions: ParsedQuestion[];
+  loading: boolean;
+  onChange: (questions: ParsedQuestion[]) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const correctIds = (draft: QuestionDraft) =>
+  Array.isArray(draft.correct_answer)
+    ? (draft.correct_answer as string[])
+    : draft.correct_answer
+      ? [draft.correct_answer as string]
+      : [];
+
+// Editable grid for questions extracted from a PDF. Marking more than one
+// option correct turns a question into multiple select.
+const QuestionReviewGrid = ({ fileName, questions, loading, onChange, onConfirm, onCancel }: QuestionReviewGridProps) => {
+  const errors = questions.map((question) => validateQuestion(question.draft));
+  const readyCount = errors.filter((error) => !error).length;
+
+  // Parser warnings describe the extracted text, so drop them once edited
+  const updateDraft = (index: number, draft: QuestionDraft) => {
+    onChange(questions.map((question, i) => (i === index ? { ...question, draft, warnings: [] } : question)));
+  };
+
+  const toggleCorrect = (index: number, id: string) => {
+    const draft = questions[index].draft;
+    const current = correctIds(draft);
+    const next = current.includes(id) ? current.filter((selected) => selected !== id) : [...current, id];
+    next.sort();
+    updateDraft(index, {
+      ...draft,
+      question_type: next.length > 1 ? "multiple_select" : "single_choice",
+      correct_answer: next.length > 1 ? next : (next[0] ?? ""),
+    });
+  };
+
+  const setOptionText = (index: number, optionIndex: number, text: string) => {
+    const draft = questions[index].draft;
+    updateDraft(index, {
+      ...draft,
+      options: draft.options.map((option, i) => (i === optionIndex ? { ...option, text } : option)),
+    });
+  };
+
+  const addOption = (index: number) => {
+    const draft = questions[index].draft;
+    updateDraft(index, { ...draft, options: [...draft.options, { id: optionId(draft.options.length), text: "" }] });
+  };
+
+  const removeQuestion = (index: number) => {
+    onChange(questions.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">{fileName}</span>
+        <Badge className="bg-green-100 text-green-800">{readyCount} ready</Badge>
+        {readyCount < questions.length && (
+          <Badge className="bg-red-100 text-red-800">{questions.length - readyCount} need attention</Badge>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Check the extracted text and click an option letter to mark it correct.
+      </p>
+
+      <div className="max-h-[32rem] overflow-auto border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">No.</TableHead>
+              <TableHead className="w-1/3">Question</TableHead>
+              <TableHead>Options</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {questions.map((question, index) => {
+              const correct = correctIds(question.draft);
+              const error = errors[index];
+
+              return (
+                <TableRow key={index} className={error ? "bg-red-50" : undefined}>
+                  <TableCell className="align-top">{question.number}</TableCell>
+                  <TableCell className="align-top space-y-2">
+                    <Textarea
+                      value={question.draft.question_text}
+                      onChange={(e) => updateDraft(index, { ...question.draft, question_text: e.target.value })}
+                      rows={3}
+                    />
+                    {[...question.warnings, ...(error && !question.warnings.length ? [error] : [])].map((message) => (
+                      <p key={message} className="flex items-center gap-1 text-sm text-red-700">
+                        <AlertTriangle className="h-4 w-4 shrink-0" />
+                        {message}
+                      </p>
+                    ))}
+                  </TableCell>
+                  <TableCell className="align-top space-y-2">
+                    {question.draft.options.map((option, optionIndex) => (
+                      <div key={option.id} className="flex items-center gap-2">
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant={correct.includes(option.id) ? "default" : "outline"}
+                          className="w-9"
+                          onClick={() => toggleCorrect(index, option.id)}
+                        >
+                          {option.id}
+                        </Button>
+                        <Input
+                          value={option.text}
+                          onChange={(e) => setOptionText(index, optionIndex, e.target.value)}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          disabled={question.draft.options.length <= MIN_OPTIONS}
+                          onClick={() => updateDraft(index, removeOption(question.draft, optionIndex))}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={question.draft.options.length >= MAX_OPTIONS}
+                      onClick={() => addOption(index)}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Option
+                    </Button>
+                  </TableCell>
+                  <TableCell className="align-top">
+                    <Button type="button" variant="ghost" size="icon" onClick={() => removeQuestion(index)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {readyCount < questions.length && (
+        <p className="text-sm text-gray-600">
+          Questions that still have problems are skipped on import.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={onConfirm} disabled={loading || readyCount === 0}>
+          <Upload className="h-4 w-4 mr-2" />
+          Import {readyCount} Question{readyCount === 1 ? "" : "s"}
+        </Button>
+        <Button variant="outline" onClick={onCancel} disabled={loading}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionReviewGrid;
@@ -3,103 +3,142 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { Upload, Plus, FileText, Link } from "lucide-react";
-import { generateTestLink } from "@/lib/utils";
+import { Upload, Plus, FileText } from "lucide-react";
+import { QuestionDraft, emptyDraft, toQuestionRow, validateQuestion } from "@/lib/questionTypes";
+import { ImportRow, buildImportRows, normalizeQuestionText, readSpreadsheet } from "@/lib/questionImport";
+import QuestionEditor from "@/components/admin/QuestionEditor";
+import { ParsedQuestion, extractPdfLines, parseQuestionPaper } from "@/lib/pdfQuestionImport";
+import QuestionImportPreview from "@/components/admin/QuestionImportPreview";
+import QuestionReviewGrid from "@/components/admin/QuestionReviewGrid";
 
-interface Batch {
+interface Test {
+  id: string;
+  title: string;
+  is_active: boolean;
+  batch: { name: string } | null;
+}
+
+interface QuestionBank {
   id: string;
   name: string;
 }
 
+// Select value for saving to the bank without attaching to a test
+const NO_TEST = "none";
+
 const QuestionUpload = () => {
-  const [batches, setBatches] = useState<Batch[]>([]);
-  const [selectedBatch, setSelectedBatch] = useState("");
+  const [tests, setTests] = useState<Test[]>([]);
+  const [selectedTest, setSelectedTest] = useState(NO_TEST);
+  const [banks, setBanks] = useState<QuestionBank[]>([]);
+  const [selectedBank, setSelectedBank] = useState("");
   const [uploadType, setUploadType] = useState<"manual" | "file">("manual");
   const [loading, setLoading] = useState(false);
-  const [testLink, setTestLink] = useState<string>("");
+  const [importPreview, setImportPreview] = useState<{ fileName: string; rows: ImportRow[] } | null>(null);
+  const [pdfReview, setPdfReview] = useState<{ fileName: string; questions: ParsedQuestion[] } | null>(null);
   const { toast } = useToast();
 
   // Manual question form
-  const [questionForm, setQuestionForm] = useState({
-    question_text: "",
-    option_a: "",
-    option_b: "",
-    option_c: "",
-    option_d: "",
-    correct_answer: "A" as "A" | "B" | "C" | "D",
-  });
+  const [questionForm, setQuestionForm] = useState<QuestionDraft>(emptyDraft());
 
   useEffect(() => {
-    fetchBatches();
+    fetchTests();
+    fetchBanks();
   }, []);
 
-  const fetchBatches = async () => {
+  const fetchTests = async () => {
     try {
       const { data, error } = await supabase
-        .from("batches")
-        .select("id, name")
+        .from("tests")
+        .select("id, title, is_active, batch:batches(name)")
         .order("created_at", { ascending: false });
 
       if (error) throw error;
-      setBatches(data || []);
+      setTests(data || []);
     } catch (error) {
-      console.error("Error fetching batches:", error);
+      console.error("Error fetching tests:", error);
+    }
+  };
+
+  // Append questions to the end of the selected test, if any
+  const attachToTest = async (questionIds: string[]) => {
+    if (selectedTest === NO_TEST || questionIds.length === 0) return;
+
+    const { data: last, error: positionError } = await supabase
+      .from("test_questions")
+      .select("position")
+      .eq("test_id", selectedTest)
+      .order("position", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (positionError) throw positionError;
+
+    const start = last ? last.position + 1 : 0;
+    const { error } = await supabase
+      .from("test_questions")
+      .insert(questionIds.map((questionId, index) => ({
+        test_id: selectedTest,
+        question_id: questionId,
+        position: start + index,
+      })));
+
+    if (error) throw error;
+  };
+
+  const fetchBanks = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("question_banks")
+        .select("id, name")
+        .order("name");
+
+      if (error) throw error;
+      setBanks(data || []);
+    } catch (error) {
+      console.error("Error fetching question banks:", error);
     }
   };
 
   const handleManualSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedBatch || !questionForm.question_text.trim()) return;
+    if (!selectedBank) return;
+
+    const problem = validateQuestion(questionForm);
+    if (problem) {
+      toast({
+        title: "Error",
+        description: problem,
+        variant: "destructive",
+      });
+      return;
+    }
 
     setLoading(true);
     try {
-      // First create a test for the batch
-      const { data: test, error: testError } = await supabase
-        .from("tests")
+      // Add the question to the bank, then to the selected test
+      const { data: question, error: questionError } = await supabase
+        .from("questions")
         .insert([{
-          batch_id: selectedBatch,
-          title: "Test for " + batches.find(b => b.id === selectedBatch)?.name,
-          duration_minutes: 60,
-          is_active: true,
-          start_time: new Date().toISOString(),
-          end_time: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours from now
+          bank_id: selectedBank,
+          ...toQuestionRow(questionForm),
         }])
-        .select()
+        .select("id")
         .single();
 
-      if (testError) throw testError;
-
-      // Then add the question
-      const { error: questionError } = await supabase
-        .from("questions")
-        .insert([{
-          batch_id: selectedBatch,
-          ...questionForm,
-        }]);
-
       if (questionError) throw questionError;
 
-      // Generate test link using the test ID
-      const newTestLink = generateTestLink(test.id);
-      setTestLink(newTestLink);
-      
+      await attachToTest([question.id]);
+
       toast({ 
         title: "Success", 
         description: "Question added successfully" 
       });
       
-      setQuestionForm({
-        question_text: "",
-        option_a: "",
-        option_b: "",
-        option_c: "",
-        option_d: "",
-        correct_answer: "A",
-      });
+      // Keep the type so a run of similar questions is quick to enter
+      setQuestionForm(emptyDraft(questionForm.question_type));
     } catch (error) {
       console.error("Error adding question:", error);
       toast({
@@ -112,76 +151,56 @@ const QuestionUpload = () => {
     }
   };
 
+  // Parse and validate only; nothing is written until the author confirms
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file || !selectedBatch) return;
+    if (!file || !selectedBank) return;
 
     setLoading(true);
     try {
-      // First create a test for the batch
-      const { data: test, error: testError } = await supabase
-        .from("tests")
-        .insert([{
-          batch_id: selectedBatch,
-          title: "Test for " + batches.find(b => b.id === selectedBatch)?.name,
-          duration_minutes: 60,
-          is_active: true,
-          start_time: new Date().toISOString(),
-          end_time: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours from now
-        }])
-        .select()
-        .single();
-
-      if (testError) throw testError;
-
-      const text = await file.text();
-      
-      // Simple CSV/Excel parsing (assuming CSV format with headers)
-      const lines = text.split('\n').filter(line => line.trim());
-      const questions = [];
-
-      for (let i = 1; i < lines.length; i++) { // Skip header
-        const columns = lines[i].split(',');
-        if (columns.length >= 6) {
-          questions.push({
-            batch_id: selectedBatch,
-            question_text: columns[0]?.trim(),
-            option_a: columns[1]?.trim(),
-            option_b: columns[2]?.trim(),
-            option_c: columns[3]?.trim(),
-            option_d: columns[4]?.trim(),
-            correct_answer: columns[5]?.trim().toUpperCase(),
+      if (file.name.toLowerCase().endsWith(".pdf")) {
+        const questions = parseQuestionPaper(await extractPdfLines(file));
+        if (questions.length === 0) {
+          toast({
+            title: "Error",
+            description: "No numbered questions found. Scanned PDFs without a text layer cannot be read.",
+            variant: "destructive",
           });
+          return;
         }
+        setPdfReview({ fileName: file.name, questions });
+        return;
       }
 
-      if (questions.length > 0) {
-        const { error } = await supabase
-          .from("questions")
-          .insert(questions);
+      const data = await readSpreadsheet(file);
 
-        if (error) throw error;
+      const { data: existing, error } = await supabase
+        .from("questions")
+        .select("question_text")
+        .eq("bank_id", selectedBank);
 
-        // Generate test link using the test ID
-        const newTestLink = generateTestLink(test.id);
-        setTestLink(newTestLink);
+      if (error) throw error;
 
+      const { rows, headerError } = buildImportRows(
+        data,
+        new Set((existing || []).map((question) => normalizeQuestionText(question.question_text)))
+      );
+
+      if (headerError) {
         toast({
-          title: "Success",
-          description: `${questions.length} questions uploaded successfully`,
-        });
-      } else {
-        toast({
-          title: "Warning",
-          description: "No valid questions found in the file",
+          title: "Error",
+          description: headerError,
           variant: "destructive",
         });
+        return;
       }
+
+      setImportPreview({ fileName: file.name, rows });
     } catch (error) {
-      console.error("Error uploading file:", error);
+      console.error("Error reading file:", error);
       toast({
         title: "Error",
-        description: "Failed to upload questions. Please check file format.",
+        description: error instanceof Error ? error.message : "Failed to read file",
         variant: "destructive",
       });
     } finally {
@@ -190,57 +209,94 @@ const QuestionUpload = () => {
     }
   };
 
+  const handleConfirmImport = async () => {
+    if (!selectedBank) return;
+
+    const drafts = importPreview
+      ? importPreview.rows.filter((row) => row.errors.length === 0).map((row) => row.draft)
+      : (pdfReview?.questions ?? []).map((question) => question.draft).filter((draft) => !validateQuestion(draft));
+    const questions = drafts.map((draft) => ({ bank_id: selectedBank, ...toQuestionRow(draft) }));
+    if (questions.length === 0) return;
+
+    setLoading(true);
+    try {
+      const { data: inserted, error } = await supabase
+        .from("questions")
+        .insert(questions)
+        .select("id");
+
+      if (error) throw error;
+
+      await attachToTest(inserted.map((question) => question.id));
+      setImportPreview(null);
+      setPdfReview(null);
+
+      toast({
+        title: "Success",
+        description: `${questions.length} questions uploaded successfully`,
+      });
+    } catch (error) {
+      console.error("Error importing questions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to import questions",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
-      {testLink && (
-        <Card className="bg-green-50 border-green-200">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Link className="h-5 w-5" />
-              Test Link Generated
-            </CardTitle>
-            <CardDescription>
-              Share this link with students to take the test
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="flex items-center gap-2">
-              <Input
-                value={testLink}
-                readOnly
-                className="font-mono"
-              />
-              <Button
-                variant="outline"
-                onClick={() => {
-                  navigator.clipboard.writeText(testLink);
-                  toast({
-                    title: "Copied!",
-                    description: "Test link copied to clipboard",
-                  });
-                }}
-              >
-                Copy
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
-      )}
-      
       <Card>
         <CardHeader>
-          <CardTitle>Select Batch</CardTitle>
-          <CardDescription>Choose the batch to add questions to</CardDescription>
+          <CardTitle>Select Question Bank</CardTitle>
+          <CardDescription>Choose the bank to save questions to</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Select
+            value={selectedBank}
+            onValueChange={(value) => {
+              setSelectedBank(value);
+              // Duplicate checks were made against the previous bank
+              setImportPreview(null);
+              setPdfReview(null);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select a question bank" />
+            </SelectTrigger>
+            <SelectContent>
+              {banks.map((bank) => (
+                <SelectItem key={bank.id} value={bank.id}>
+                  {bank.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add to Test</CardTitle>
+          <CardDescription>
+            Optionally append the new questions to an existing test or draft. Create tests in the Tests tab.
+          </CardDescription>
         </CardHeader>
         <CardContent>
-          <Select value={selectedBatch} onValueChange={setSelectedBatch}>
+          <Select value={selectedTest} onValueChange={setSelectedTest}>
             <SelectTrigger>
-              <SelectValue placeholder="Select a batch" />
+              <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              {batches.map((batch) => (
-                <SelectItem key={batch.id} value={batch.id}>
-                  {batch.name}
+              <SelectItem value={NO_TEST}>Question bank only</SelectItem>
+              {tests.map((test) => (
+                <SelectItem key={test.id} value={test.id}>
+                  {test.title}
+                  {test.batch ? ` · ${test.batch.name}` : ""}
+                  {test.is_active ? " (Active)" : " (Draft)"}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -281,82 +337,9 @@ const QuestionUpload = () => {
           </CardHeader>
           <CardContent>
             <form onSubmit={handleManualSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="question">Question</Label>
-                <Textarea
-                  id="question"
-                  placeholder="Enter your question here..."
-                  value={questionForm.question_text}
-                  onChange={(e) => setQuestionForm({ ...questionForm, question_text: e.target.value })}
-                  required
-                  rows={3}
-                />
-              </div>
+              <QuestionEditor value={questionForm} onChange={setQuestionForm} />
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="option_a">Option A</Label>
-                  <Input
-                    id="option_a"
-                    placeholder="Option A"
-                    value={questionForm.option_a}
-                    onChange={(e) => setQuestionForm({ ...questionForm, option_a: e.target.value })}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="option_b">Option B</Label>
-                  <Input
-                    id="option_b"
-                    placeholder="Option B"
-                    value={questionForm.option_b}
-                    onChange={(e) => setQuestionForm({ ...questionForm, option_b: e.target.value })}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="option_c">Option C</Label>
-                  <Input
-                    id="option_c"
-                    placeholder="Option C"
-                    value={questionForm.option_c}
-                    onChange={(e) => setQuestionForm({ ...questionForm, option_c: e.target.value })}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="option_d">Option D</Label>
-                  <Input
-                    id="option_d"
-                    placeholder="Option D"
-                    value={questionForm.option_d}
-                    onChange={(e) => setQuestionForm({ ...questionForm, option_d: e.target.value })}
-                    required
-                  />
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="correct_answer">Correct Answer</Label>
-                <Select
-                  value={questionForm.correct_answer}
-                  onValueChange={(value: "A" | "B" | "C" | "D") => 
-                    setQuestionForm({ ...questionForm, correct_answer: value })
-                  }
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="A">Option A</SelectItem>
-                    <SelectItem value="B">Option B</SelectItem>
-                    <SelectItem value="C">Option C</SelectItem>
-                    <SelectItem value="D">Option D</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              <Button type="submit" disabled={loading || !selectedBatch}>
+              <Button type="submit" disabled={loading || !selectedBank}>
                 <Plus className="h-4 w-4 mr-2" />
                 Add Question
               </Button>
@@ -370,30 +353,57 @@ const QuestionUpload = () => {
           <CardHeader>
             <CardTitle>Upload Questions from File</CardTitle>
             <CardDescription>
-              Upload a CSV file with columns: Question, Option A, Option B, Option C, Option D, Correct Answer
+              Upload a CSV or Excel (.xlsx) file, or a PDF question paper
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="file">Choose File</Label>
-                <Input
-                  id="file"
-                  type="file"
-                  accept=".csv,.xlsx,.xls"
-                  onChange={handleFileUpload}
-                  disabled={loading || !selectedBatch}
-                />
-              </div>
-              <div className="text-sm text-gray-600">
-                <p>Expected format:</p>
-                <ul className="list-disc list-inside mt-2 space-y-1">
-                  <li>CSV file with headers</li>
-                  <li>Columns: Question, Option A, Option B, Option C, Option D, Correct Answer</li>
-                  <li>Correct Answer should be A, B, C, or D</li>
-                </ul>
+            {pdfReview ? (
+              <QuestionReviewGrid
+                fileName={pdfReview.fileName}
+                questions={pdfReview.questions}
+                loading={loading}
+                onChange={(questions) => setPdfReview({ ...pdfReview, questions })}
+                onConfirm={handleConfirmImport}
+                onCancel={() => setPdfReview(null)}
+              />
+            ) : importPreview ? (
+              <QuestionImportPreview
+                fileName={importPreview.fileName}
+                rows={importPreview.rows}
+                loading={loading}
+                onConfirm={handleConfirmImport}
+                onCancel={() => setImportPreview(null)}
+              />
+            ) : (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="file">Choose File</Label>
+                  <Input
+                    id="file"
+                    type="file"
+                    accept=".csv,.xlsx,.pdf"
+                    onChange={handleFileUpload}
+                    disabled={loading || !selectedBank}
+                  />
+                </div>
+                <div className="text-sm text-gray-600">
+                  <p>Spreadsheet format:</p>
+                  <ul className="list-disc list-inside mt-2 space-y-1">
+                    <li>CSV or .xlsx file with a header row; only the first sheet is read</li>
+                    <li>Columns are matched by header name, in any order: Question, Option A, Option B, Option C, Option D, Correct Answer</li>
+                    <li>Correct Answer should be A, B, C, or D</li>
+                    <li>Quote CSV fields that contain commas or line breaks</li>
+                  </ul>
+                  <p className="mt-4">PDF question papers:</p>
+                  <ul className="list-disc list-inside mt-2 space-y-1">
+                    <li>Text-based PDFs only; scanned pages cannot be read</li>
+                    <li>Numbered questions (1. or Q1) with lettered options (A) or a.)</li>
+                    <li>Answers from an "Answer Key" section, an "Answer: B" line, an asterisk (*) or bold text</li>
+                    <li>Every question is shown for review before anything is saved</li>
+                  </ul>
+                </div>
               </div>
-            </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -39,6 +39,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Upload, Plus, Mail, Loader2, Trash2 } from "lucide-react";
 import { sendTestEmails } from "@/lib/emailService";
 import { generateTestLink } from "@/lib/utils";
+import { generateAccessCode, hashAccessCode } from "@/lib/security";
 
 interface Batch {
   id: string;
@@ -108,24 +109,17 @@ const StudentManagement = () => {
     }
   };
 
-  const generatePassword = () =>
-    Math.random().toString(36).slice(-10) +
-    Math.random().toString(36).toUpperCase().slice(-2);
-
   const handleManualSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedBatch || !studentForm.name.trim() || !studentForm.email.trim()) return;
 
     setLoading(true);
     try {
-      const password = generatePassword();
-
       const { error } = await supabase.from("students").insert([
         {
           batch_id: selectedBatch,
           name: studentForm.name,
           email: studentForm.email,
-          password,
         },
       ]);
 
@@ -133,7 +127,7 @@ const StudentManagement = () => {
 
       toast({
         title: "Success",
-        description: `Student added with password: ${password}`,
+        description: "Student added. An access code is issued when test links are sent.",
       });
 
       setStudentForm({ name: "", email: "" });
@@ -189,6 +183,7 @@ const StudentManagement = () => {
           id,
           title,
           is_active,
+          end_time,
           batch_id
         `)
         .eq("batch_id", selectedBatch);
@@ -214,7 +209,7 @@ const StudentManagement = () => {
       console.log('Fetching students for batch:', selectedBatch);
       const { data: studentList, error: studentError } = await supabase
         .from("students")
-        .select("id, name, email, password")
+        .select("id, name, email")
         .eq("batch_id", selectedBatch);
 
       if (studentError) {
@@ -227,12 +222,52 @@ const StudentManagement = () => {
       }
 
       console.log(`Found ${studentList.length} students in batch`);
-      
+
+      // Candidates who already used their code keep it; everyone else gets a
+      // fresh one. Only the hash is stored, the plaintext goes in the email.
+      const { data: usedCodes, error: codesError } = await supabase
+        .from("candidate_access_codes")
+        .select("student_id")
+        .eq("test_id", test.id)
+        .not("used_at", "is", null);
+
+      if (codesError) {
+        throw new Error(`Failed to fetch access codes: ${codesError.message}`);
+      }
+
+      const usedStudentIds = new Set(usedCodes?.map((code) => code.student_id));
+      const invites = await Promise.all(
+        studentList
+          .filter((student) => !usedStudentIds.has(student.id))
+          .map(async (student) => {
+            const accessCode = generateAccessCode();
+            return { ...student, access_code: accessCode, code_hash: await hashAccessCode(accessCode) };
+          })
+      );
+
+      if (invites.length === 0) {
+        throw new Error('All students in this batch have already started the test');
+      }
+
+      const { data: issued, error: issueError } = await supabase.rpc("issue_access_codes", {
+        test: test.id,
+        expires: test.end_time,
+        codes: invites.map((invite) => ({ student_id: invite.id, code_hash: invite.code_hash })),
+      });
+
+      if (issueError) {
+        throw new Error(`Failed to issue access codes: ${issueError.message}`);
+      }
+
+      // A candidate who logged in since usedCodes was read kept their code
+      const issuedIds = new Set(issued);
+      const issuedInvites = invites.filter((invite) => issuedIds.has(invite.id));
+
       // Generate the test link using the utility function
       const testLink = generateTestLink(test.id);
       console.log('Generated test link:', testLink);
 
-      const result = await sendTestEmails(studentList, testLink);
+      const result = await sendTestEmails(issuedInvites, testLink);
 
       if (result.success) {
         toast({
@@ -279,7 +314,6 @@ const StudentManagement = () => {
             batch_id: selectedBatch,
             name: columns[0]?.trim(),
             email: columns[1]?.trim(),
-            password: generatePassword(),
           });
         }
       }
@@ -0,0 +1,360 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, Plus, Trash2 } from "lucide-react";
+
+type Difficulty = Database["public"]["Enums"]["question_difficulty"];
+
+const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+// Select value meaning "no filter"
+const ANY = "any";
+
+interface TestBlueprintProps {
+  testId: string;
+}
+
+interface QuestionBank {
+  id: string;
+  name: string;
+}
+
+interface TestSection {
+  id: string;
+  title: string;
+}
+
+interface BlueprintRule {
+  id: string;
+  bank_id: string | null;
+  section_id: string | null;
+  tag: string | null;
+  difficulty: Difficulty | null;
+  question_count: number;
+  points: number;
+  position: number;
+  bank: { name: string } | null;
+  // Questions currently matching the rule
+  pool_size: number;
+}
+
+const emptyRule = {
+  bank_id: ANY,
+  // ANY here: no section, i.e. the first one
+  section_id: ANY,
+  tag: "",
+  difficulty: ANY as Difficulty | typeof ANY,
+  question_count: 5,
+  points: 1,
+};
+
+// Random-draw rules for a test. Every candidate session draws its own sample
+// from each rule's pool when the paper is first served.
+const TestBlueprint = ({ testId }: TestBlueprintProps) => {
+  const [rules, setRules] = useState<BlueprintRule[]>([]);
+  const [banks, setBanks] = useState<QuestionBank[]>([]);
+  const [sections, setSections] = useState<TestSection[]>([]);
+  const [ruleForm, setRuleForm] = useState(emptyRule);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchBanks();
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+    fetchSections();
+  }, [testId]);
+
+  const fetchBanks = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("question_banks")
+        .select("id, name")
+        .order("name");
+
+      if (error) throw error;
+      setBanks(data || []);
+    } catch (error) {
+      console.error("Error fetching question banks:", error);
+    }
+  };
+
+  const fetchSections = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("test_sections")
+        .select("id, title")
+        .eq("test_id", testId)
+        .order("position");
+
+      if (error) throw error;
+      setSections(data || []);
+    } catch (error) {
+      console.error("Error fetching sections:", error);
+    }
+  };
+
+  const countPool = async (rule: Pick<BlueprintRule, "bank_id" | "tag" | "difficulty">) => {
+    let query = supabase.from("questions").select("id", { count: "exact", head: true });
+    if (rule.bank_id) query = query.eq("bank_id", rule.bank_id);
+    if (rule.tag) query = query.contains("tags", [rule.tag]);
+    if (rule.difficulty) query = query.eq("difficulty", rule.difficulty);
+
+    const { count, error } = await query;
+    if (error) throw error;
+    return count ?? 0;
+  };
+
+  const fetchRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("test_blueprint_rules")
+        .select(`
+          id, bank_id, section_id, tag, difficulty, question_count, points, position,
+          bank:question_banks(name)
+        `)
+        .eq("test_id", testId)
+        .order("position");
+
+      if (error) throw error;
+
+      const poolSizes = await Promise.all((data || []).map(countPool));
+      setRules((data || []).map((rule, index) => ({ ...rule, pool_size: poolSizes[index] })));
+    } catch (error) {
+      console.error("Error fetching blueprint:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the blueprint for this test",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (ruleForm.question_count < 1 || ruleForm.points < 0) return;
+
+    setLoading(true);
+    try {
+      const nextPosition = rules.length ? Math.max(...rules.map((rule) => rule.position)) + 1 : 0;
+      const { error } = await supabase
+        .from("test_blueprint_rules")
+        .insert({
+          test_id: testId,
+          bank_id: ruleForm.bank_id === ANY ? null : ruleForm.bank_id,
+          section_id: ruleForm.section_id === ANY ? null : ruleForm.section_id,
+          tag: ruleForm.tag.trim().toLowerCase() || null,
+          difficulty: ruleForm.difficulty === ANY ? null : ruleForm.difficulty,
+          question_count: ruleForm.question_count,
+          points: ruleForm.points,
+          position: nextPosition,
+        });
+
+      if (error) throw error;
+
+      setRuleForm(emptyRule);
+      fetchRules();
+    } catch (error) {
+      console.error("Error adding blueprint rule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to add rule",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemove = async (ruleId: string) => {
+    try {
+      const { error } = await supabase
+        .from("test_blueprint_rules")
+        .delete()
+        .eq("id", ruleId);
+
+      if (error) throw error;
+      fetchRules();
+    } catch (error) {
+      console.error("Error removing blueprint rule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const sectionTitle = (sectionId: string | null) =>
+    sections.find((section) => section.id === sectionId)?.title ?? "First";
+
+  const drawnCount = rules.reduce((total, rule) => total + rule.question_count, 0);
+  const drawnPoints = rules.reduce((total, rule) => total + rule.question_count * Number(rule.points), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">Random draw</h3>
+          <span className="text-sm text-gray-600">
+            {drawnCount} question(s), {drawnPoints} point(s) per candidate
+          </span>
+        </div>
+        <p className="text-sm text-gray-600">
+          Each candidate gets their own sample from every rule, in addition to the questions added to the test
+          directly. Questions already on the paper are not drawn twice.
+        </p>
+        <div className="max-h-72 overflow-y-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Count</TableHead>
+                <TableHead>Bank</TableHead>
+                <TableHead>Tag</TableHead>
+                <TableHead>Difficulty</TableHead>
+                <TableHead>Points each</TableHead>
+                {sections.length > 0 && <TableHead>Section</TableHead>}
+                <TableHead>Pool</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell>{rule.question_count}</TableCell>
+                  <TableCell>{rule.bank?.name ?? "Any"}</TableCell>
+                  <TableCell>{rule.tag ?? "Any"}</TableCell>
+                  <TableCell className="capitalize">{rule.difficulty ?? "Any"}</TableCell>
+                  <TableCell>{rule.points}</TableCell>
+                  {sections.length > 0 && <TableCell>{sectionTitle(rule.section_id)}</TableCell>}
+                  <TableCell>
+                    <span className={`flex items-center gap-1 ${rule.pool_size < rule.question_count ? "text-red-700" : ""}`}>
+                      {rule.pool_size < rule.question_count && <AlertTriangle className="h-4 w-4" />}
+                      {rule.pool_size} available
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" onClick={() => handleRemove(rule.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {rules.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={sections.length > 0 ? 8 : 7} className="text-center text-gray-500">
+                    No rules yet. Every candidate gets the same questions.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        {rules.some((rule) => rule.pool_size < rule.question_count) && (
+          <p className="text-sm text-red-700">
+            Some pools are smaller than their count; candidates will get fewer questions from them.
+          </p>
+        )}
+      </div>
+
+      <form onSubmit={handleAddRule} className="space-y-4">
+        <Label>Add rule</Label>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="rule-count" className="text-xs text-gray-600">Questions</Label>
+            <Input
+              id="rule-count"
+              type="number"
+              min="1"
+              value={ruleForm.question_count}
+              onChange={(e) => setRuleForm({ ...ruleForm, question_count: parseInt(e.target.value) || 1 })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">Bank</Label>
+            <Select value={ruleForm.bank_id} onValueChange={(value) => setRuleForm({ ...ruleForm, bank_id: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any bank</SelectItem>
+                {banks.map((bank) => (
+                  <SelectItem key={bank.id} value={bank.id}>{bank.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rule-tag" className="text-xs text-gray-600">Tag</Label>
+            <Input
+              id="rule-tag"
+              placeholder="Any"
+              value={ruleForm.tag}
+              onChange={(e) => setRuleForm({ ...ruleForm, tag: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">Difficulty</Label>
+            <Select
+              value={ruleForm.difficulty}
+              onValueChange={(value: Difficulty | typeof ANY) => setRuleForm({ ...ruleForm, difficulty: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any difficulty</SelectItem>
+                {DIFFICULTIES.map((difficulty) => (
+                  <SelectItem key={difficulty} value={difficulty} className="capitalize">{difficulty}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rule-points" className="text-xs text-gray-600">Points each</Label>
+            <Input
+              id="rule-points"
+              type="number"
+              min="0"
+              step="0.5"
+              value={ruleForm.points}
+              onChange={(e) => setRuleForm({ ...ruleForm, points: parseFloat(e.target.value) || 0 })}
+            />
+          </div>
+          {sections.length > 0 && (
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-600">Section</Label>
+              <Select
+                value={ruleForm.section_id}
+                onValueChange={(value) => setRuleForm({ ...ruleForm, section_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>First section</SelectItem>
+                  {sections.map((section) => (
+                    <SelectItem key={section.id} value={section.id}>{section.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        <Button type="submit" disabled={loading}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default TestBlueprint;
@@ -0,0 +1,581 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { GradingScheme } from "@/lib/gradingSchemes";
+import { fetchGradingSchemes } from "@/lib/gradingSchemeService";
+import {
+  DEFAULT_SECURITY_POLICY,
+  SECURITY_RULES,
+  SECURITY_RULE_LABELS,
+  SecurityPolicy,
+  parseSecurityPolicy,
+} from "@/lib/securityPolicy";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+
+interface TestComposerProps {
+  testId: string;
+}
+
+interface QuestionBank {
+  id: string;
+  name: string;
+}
+
+interface BankQuestion {
+  id: string;
+  question_text: string;
+}
+
+interface TestSection {
+  id: string;
+  title: string;
+}
+
+interface TestQuestion {
+  id: string;
+  position: number;
+  points: number;
+  section_id: string | null;
+  question: BankQuestion & { bank: { name: string } | null };
+}
+
+// Select value for questions outside any section
+const NO_SECTION = "none";
+// Select value for a test graded with its batch's scheme
+const BATCH_SCHEME = "batch";
+
+// Each candidate gets their own order when the shuffle settings are on; see
+// the exam-paper edge function. The scoring settings apply at grading, the
+// grading scheme when results are reported, and the violation thresholds and
+// security policy on the exam page.
+interface TestSettings {
+  shuffle_questions: boolean;
+  shuffle_options: boolean;
+  wrong_answer_penalty: number;
+  partial_credit: boolean;
+  grading_scheme_id: string | null;
+  violation_warn_threshold: number | null;
+  violation_submit_threshold: number | null;
+  security_policy: SecurityPolicy;
+}
+
+const TestComposer = ({ testId }: TestComposerProps) => {
+  const [items, setItems] = useState<TestQuestion[]>([]);
+  const [settings, setSettings] = useState<TestSettings>({
+    shuffle_questions: false,
+    shuffle_options: false,
+    wrong_answer_penalty: 0,
+    partial_credit: false,
+    grading_scheme_id: null,
+    violation_warn_threshold: null,
+    violation_submit_threshold: null,
+    security_policy: DEFAULT_SECURITY_POLICY,
+  });
+  const [gradingSchemes, setGradingSchemes] = useState<GradingScheme[]>([]);
+  const [sections, setSections] = useState<TestSection[]>([]);
+  const [banks, setBanks] = useState<QuestionBank[]>([]);
+  const [selectedBank, setSelectedBank] = useState("");
+  const [bankQuestions, setBankQuestions] = useState<BankQuestion[]>([]);
+  const [selectedQuestions, setSelectedQuestions] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchBanks();
+    fetchGradingSchemes()
+      .then(setGradingSchemes)
+      .catch((error) => console.error("Error fetching grading schemes:", error));
+  }, []);
+
+  useEffect(() => {
+    fetchItems();
+    fetchSettings();
+    fetchSections();
+  }, [testId]);
+
+  useEffect(() => {
+    if (selectedBank) {
+      fetchBankQuestions();
+    }
+  }, [selectedBank]);
+
+  const fetchBanks = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("question_banks")
+        .select("id, name")
+        .order("name");
+
+      if (error) throw error;
+      setBanks(data || []);
+    } catch (error) {
+      console.error("Error fetching question banks:", error);
+    }
+  };
+
+  const fetchItems = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("test_questions")
+        .select(`
+          id,
+          position,
+          points,
+          section_id,
+          question:questions(id, question_text, bank:question_banks(name))
+        `)
+        .eq("test_id", testId)
+        .order("position");
+
+      if (error) throw error;
+      setItems(data || []);
+    } catch (error) {
+      console.error("Error fetching test questions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the questions in this test",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchSections = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("test_sections")
+        .select("id, title")
+        .eq("test_id", testId)
+        .order("position");
+
+      if (error) throw error;
+      setSections(data || []);
+    } catch (error) {
+      console.error("Error fetching sections:", error);
+    }
+  };
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("tests")
+        .select(`
+          shuffle_questions, shuffle_options, wrong_answer_penalty, partial_credit, grading_scheme_id,
+          violation_warn_threshold, violation_submit_threshold, security_policy
+        `)
+        .eq("id", testId)
+        .single();
+
+      if (error) throw error;
+      setSettings({ ...data, security_policy: parseSecurityPolicy(data.security_policy) });
+    } catch (error) {
+      console.error("Error fetching test settings:", error);
+    }
+  };
+
+  const handleSettingChange = async <K extends keyof TestSettings>(setting: K, value: TestSettings[K]) => {
+    const previous = settings[setting];
+    setSettings((prev) => ({ ...prev, [setting]: value }));
+    try {
+      const { error } = await supabase
+        .from("tests")
+        .update({ [setting]: value })
+        .eq("id", testId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error updating test settings:", error);
+      setSettings((prev) => ({ ...prev, [setting]: previous }));
+      toast({
+        title: "Error",
+        description: "Failed to update test settings",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchBankQuestions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("questions")
+        .select("id, question_text")
+        .eq("bank_id", selectedBank)
+        .order("created_at");
+
+      if (error) throw error;
+      setBankQuestions(data || []);
+      setSelectedQuestions([]);
+    } catch (error) {
+      console.error("Error fetching bank questions:", error);
+    }
+  };
+
+  const attachedIds = new Set(items.map((item) => item.question.id));
+  const availableQuestions = bankQuestions.filter((question) => !attachedIds.has(question.id));
+
+  const toggleQuestion = (questionId: string, checked: boolean) => {
+    setSelectedQuestions((prev) =>
+      checked ? [...prev, questionId] : prev.filter((id) => id !== questionId)
+    );
+  };
+
+  const handleAddQuestions = async () => {
+    if (selectedQuestions.length === 0) return;
+
+    setLoading(true);
+    try {
+      const nextPosition = items.length ? Math.max(...items.map((item) => item.position)) + 1 : 0;
+      const { error } = await supabase
+        .from("test_questions")
+        .insert(
+          selectedQuestions.map((questionId, index) => ({
+            test_id: testId,
+            question_id: questionId,
+            position: nextPosition + index,
+          }))
+        );
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${selectedQuestions.length} question(s) added to the test`,
+      });
+      setSelectedQuestions([]);
+      fetchItems();
+    } catch (error) {
+      console.error("Error adding questions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to add questions",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemove = async (itemId: string) => {
+    try {
+      const { error } = await supabase
+        .from("test_questions")
+        .delete()
+        .eq("id", itemId);
+
+      if (error) throw error;
+      fetchItems();
+    } catch (error) {
+      console.error("Error removing question:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove question",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Swap positions with the neighbour in the given direction
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const current = items[index];
+    const neighbour = items[index + direction];
+    if (!current || !neighbour) return;
+
+    try {
+      const updates = await Promise.all([
+        supabase.from("test_questions").update({ position: neighbour.position }).eq("id", current.id),
+        supabase.from("test_questions").update({ position: current.position }).eq("id", neighbour.id),
+      ]);
+
+      const failed = updates.find((update) => update.error);
+      if (failed) throw failed.error;
+      fetchItems();
+    } catch (error) {
+      console.error("Error reordering questions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to reorder questions",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePointsChange = async (itemId: string, points: number) => {
+    if (Number.isNaN(points) || points < 0) return;
+
+    setItems((prev) => prev.map((item) => (item.id === itemId ? { ...item, points } : item)));
+    try {
+      const { error } = await supabase
+        .from("test_questions")
+        .update({ points })
+        .eq("id", itemId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error updating points:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update points",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSectionChange = async (itemId: string, sectionId: string | null) => {
+    setItems((prev) => prev.map((item) => (item.id === itemId ? { ...item, section_id: sectionId } : item)));
+    try {
+      const { error } = await supabase
+        .from("test_questions")
+        .update({ section_id: sectionId })
+        .eq("id", itemId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error updating section:", error);
+      toast({
+        title: "Error",
+        description: "Failed to move the question to another section",
+        variant: "destructive",
+      });
+      fetchItems();
+    }
+  };
+
+  const totalPoints = items.reduce((total, item) => total + Number(item.points), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-6">
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="composer-shuffle-questions"
+            checked={settings.shuffle_questions}
+            onCheckedChange={(checked) => handleSettingChange("shuffle_questions", checked)}
+          />
+          <Label htmlFor="composer-shuffle-questions">Shuffle questions per candidate</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="composer-shuffle-options"
+            checked={settings.shuffle_options}
+            onCheckedChange={(checked) => handleSettingChange("shuffle_options", checked)}
+          />
+          <Label htmlFor="composer-shuffle-options">Shuffle options per candidate</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="composer-partial-credit"
+            checked={settings.partial_credit}
+            onCheckedChange={(checked) => handleSettingChange("partial_credit", checked)}
+          />
+          <Label htmlFor="composer-partial-credit">Partial credit on multiple select</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Label htmlFor="composer-penalty">Wrong answer penalty</Label>
+          <Input
+            id="composer-penalty"
+            type="number"
+            min="0"
+            max="1"
+            step="0.05"
+            className="w-24"
+            key={settings.wrong_answer_penalty}
+            defaultValue={settings.wrong_answer_penalty}
+            onBlur={(e) => {
+              const penalty = Math.min(1, Math.max(0, parseFloat(e.target.value) || 0));
+              if (penalty !== settings.wrong_answer_penalty) handleSettingChange("wrong_answer_penalty", penalty);
+            }}
+          />
+          <span className="text-xs text-gray-500">of the question's points</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Label htmlFor="composer-grading-scheme">Grading scheme</Label>
+          <Select
+            value={settings.grading_scheme_id ?? BATCH_SCHEME}
+            onValueChange={(value) => handleSettingChange("grading_scheme_id", value === BATCH_SCHEME ? null : value)}
+          >
+            <SelectTrigger id="composer-grading-scheme" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={BATCH_SCHEME}>Same as the batch</SelectItem>
+              {gradingSchemes.map((scheme) => (
+                <SelectItem key={scheme.id} value={scheme.id}>
+                  {scheme.name} (pass {scheme.pass_mark}%)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {(["violation_warn_threshold", "violation_submit_threshold"] as const).map((setting) => (
+          <div key={setting} className="flex items-center space-x-2">
+            <Label htmlFor={`composer-${setting}`}>
+              {setting === "violation_warn_threshold" ? "Warn after" : "Auto-submit after"}
+            </Label>
+            <Input
+              id={`composer-${setting}`}
+              type="number"
+              min="1"
+              placeholder="Off"
+              className="w-20"
+              key={settings[setting] ?? "off"}
+              defaultValue={settings[setting] ?? ""}
+              onBlur={(e) => {
+                const threshold = parseInt(e.target.value) > 0 ? parseInt(e.target.value) : null;
+                if (threshold !== settings[setting]) handleSettingChange(setting, threshold);
+              }}
+            />
+            <span className="text-xs text-gray-500">violations</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        {SECURITY_RULES.map((rule) => (
+          <div key={rule} className="flex items-center space-x-2">
+            <Switch
+              id={`composer-security-${rule}`}
+              checked={settings.security_policy[rule]}
+              onCheckedChange={(checked) =>
+                handleSettingChange("security_policy", { ...settings.security_policy, [rule]: checked })
+              }
+            />
+            <Label htmlFor={`composer-security-${rule}`}>{SECURITY_RULE_LABELS[rule]}</Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">Questions in this test</h3>
+          <span className="text-sm text-gray-600">
+            {items.length} question(s), {totalPoints} point(s)
+          </span>
+        </div>
+        <div className="max-h-72 overflow-y-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>Question</TableHead>
+                <TableHead>Bank</TableHead>
+                {sections.length > 0 && <TableHead className="w-40">Section</TableHead>}
+                <TableHead className="w-24">Points</TableHead>
+                <TableHead className="w-32">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item, index) => (
+                <TableRow key={item.id}>
+                  <TableCell>{index + 1}</TableCell>
+                  <TableCell className="max-w-xs truncate">{item.question.question_text}</TableCell>
+                  <TableCell>{item.question.bank?.name ?? "—"}</TableCell>
+                  {sections.length > 0 && (
+                    <TableCell>
+                      <Select
+                        value={item.section_id ?? NO_SECTION}
+                        onValueChange={(value) => handleSectionChange(item.id, value === NO_SECTION ? null : value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_SECTION}>First section</SelectItem>
+                          {sections.map((section) => (
+                            <SelectItem key={section.id} value={section.id}>{section.title}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  )}
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      defaultValue={item.points}
+                      onBlur={(e) => handlePointsChange(item.id, parseFloat(e.target.value))}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => handleMove(index, -1)}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={index === items.length - 1}
+                        onClick={() => handleMove(index, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleRemove(item.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {items.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={sections.length > 0 ? 6 : 5} className="text-center text-gray-500">
+                    No questions yet. Add some from a question bank below.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Add from question bank</Label>
+        <Select value={selectedBank} onValueChange={setSelectedBank}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select a question bank" />
+          </SelectTrigger>
+          <SelectContent>
+            {banks.map((bank) => (
+              <SelectItem key={bank.id} value={bank.id}>
+                {bank.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {selectedBank && (
+          <div className="max-h-60 overflow-y-auto border rounded-md p-2 space-y-2">
+            {availableQuestions.map((question) => (
+              <div key={question.id} className="flex items-start space-x-2">
+                <Checkbox
+                  id={`bank-question-${question.id}`}
+                  checked={selectedQuestions.includes(question.id)}
+                  onCheckedChange={(checked) => toggleQuestion(question.id, checked === true)}
+                />
+                <Label htmlFor={`bank-question-${question.id}`} className="font-normal leading-snug">
+                  {question.question_text}
+                </Label>
+              </div>
+            ))}
+            {availableQuestions.length === 0 && (
+              <p className="text-sm text-gray-500">Every question in this bank is already in the test.</p>
+            )}
+          </div>
+        )}
+
+        <Button onClick={handleAddQuestions} disabled={loading || selectedQuestions.length === 0}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Selected ({selectedQuestions.length})
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TestComposer;
@@ -7,10 +7,27 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { Play, Square, Timer, Users } from "lucide-react";
+import { Link, ListOrdered, Play, Square, Timer, Users } from "lucide-react";
 import { generateTestLink } from "@/lib/utils";
+import TestComposer from "@/components/admin/TestComposer";
+import TestBlueprint from "@/components/admin/TestBlueprint";
+import TestSections from "@/components/admin/TestSections";
+import type { GradingScheme } from "@/lib/gradingSchemes";
+import { fetchGradingSchemes } from "@/lib/gradingSchemeService";
+import {
+  DEFAULT_SECURITY_POLICY,
+  SECURITY_RULES,
+  SECURITY_RULE_LABELS,
+  SecurityPolicy,
+  parseSecurityPolicy,
+} from "@/lib/securityPolicy";
+
+// Select value for a test graded with its batch's scheme
+const BATCH_SCHEME = "batch";
 
 interface Batch {
   id: string;
@@ -24,6 +41,7 @@ interface Test {
   is_active: boolean;
   start_time: string | null;
   end_time: string | null;
+  security_policy: SecurityPolicy;
   batch: { name: string };
 }
 
@@ -31,24 +49,35 @@ const TestManagement = () => {
   const [batches, setBatches] = useState<Batch[]>([]);
   const [tests, setTests] = useState<Test[]>([]);
   const [selectedBatch, setSelectedBatch] = useState("");
+  const [gradingSchemes, setGradingSchemes] = useState<GradingScheme[]>([]);
   const [loading, setLoading] = useState(false);
+  const [composingTest, setComposingTest] = useState<Test | null>(null);
   const { toast } = useToast();
 
   const [testForm, setTestForm] = useState({
     title: "",
     duration_minutes: 60,
+    grace_period_seconds: 30,
     start_time: "",
     end_time: "",
-    security: {
-      screen_monitoring: true,
-      disable_right_click: true,
-      require_camera: true,
-    },
+    shuffle_questions: false,
+    shuffle_options: false,
+    wrong_answer_penalty: 0,
+    partial_credit: false,
+    grading_scheme_id: BATCH_SCHEME,
+    // Integrity violations before the candidate is warned, and before their
+    // test is submitted for them; empty leaves it off
+    violation_warn_threshold: "",
+    violation_submit_threshold: "",
+    security_policy: DEFAULT_SECURITY_POLICY,
   });
 
   useEffect(() => {
     fetchBatches();
     fetchTests();
+    fetchGradingSchemes()
+      .then(setGradingSchemes)
+      .catch((error) => console.error("Error fetching grading schemes:", error));
   }, []);
 
   const fetchBatches = async () => {
@@ -76,12 +105,13 @@ const TestManagement = () => {
           is_active,
           start_time,
           end_time,
+          security_policy,
           batch:batches(name)
         `)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
-      setTests(data || []);
+      setTests((data || []).map((test) => ({ ...test, security_policy: parseSecurityPolicy(test.security_policy) })));
     } catch (error) {
       console.error("Error fetching tests:", error);
     }
@@ -99,13 +129,28 @@ const TestManagement = () => {
           batch_id: selectedBatch,
           title: testForm.title,
           duration_minutes: testForm.duration_minutes,
+          grace_period_seconds: testForm.grace_period_seconds,
+          // New tests are drafts until questions are added and they are activated
+          is_active: false,
           start_time: testForm.start_time || null,
           end_time: testForm.end_time || null,
+          shuffle_questions: testForm.shuffle_questions,
+          shuffle_options: testForm.shuffle_options,
+          wrong_answer_penalty: testForm.wrong_answer_penalty,
+          partial_credit: testForm.partial_credit,
+          grading_scheme_id: testForm.grading_scheme_id === BATCH_SCHEME ? null : testForm.grading_scheme_id,
+          violation_warn_threshold: parseInt(testForm.violation_warn_threshold) || null,
+          violation_submit_threshold: parseInt(testForm.violation_submit_threshold) || null,
+          security_policy: testForm.security_policy,
         }]);
 
       if (error) throw error;
 
-     
+      toast({
+        title: "Success",
+        description: "Draft test created. Add questions, then activate it.",
+      });
+      setTestForm({ ...testForm, title: "" });
       fetchTests();
     } catch (error) {
       console.error("Error creating test:", error);
@@ -144,6 +189,14 @@ const TestManagement = () => {
     }
   };
 
+  const copyTestLink = (testId: string) => {
+    navigator.clipboard.writeText(generateTestLink(testId));
+    toast({
+      title: "Copied!",
+      description: "Test link copied to clipboard",
+    });
+  };
+
   const formatDateTime = (dateString: string | null) => {
     if (!dateString) return "Not set";
     return new Date(dateString).toLocaleString();
@@ -185,21 +238,24 @@ const TestManagement = () => {
                 />
               </div>
             </div>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-  <div className="flex items-center space-x-2">
-    <Switch 
-      id="screen-monitoring" 
-      checked={testForm.security.screen_monitoring}
-      onCheckedChange={checked => setTestForm({...testForm, security: {
-        ...testForm.security,
-        screen_monitoring: checked
-      }})}
-    />
-    <Label htmlFor="screen-monitoring">Screen Monitoring</Label>
-  </div>
-  {/* Add similar switches for other security features */}
-</div>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Security</Label>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {SECURITY_RULES.map((rule) => (
+                  <div key={rule} className="flex items-center space-x-2">
+                    <Switch
+                      id={`security-${rule}`}
+                      checked={testForm.security_policy[rule]}
+                      onCheckedChange={(checked) =>
+                        setTestForm({ ...testForm, security_policy: { ...testForm.security_policy, [rule]: checked } })
+                      }
+                    />
+                    <Label htmlFor={`security-${rule}`}>{SECURITY_RULE_LABELS[rule]}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="duration">Duration (minutes)</Label>
                 <Input
@@ -211,6 +267,16 @@ const TestManagement = () => {
                   required
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="grace_period">Late Submission Grace (seconds)</Label>
+                <Input
+                  id="grace_period"
+                  type="number"
+                  min="0"
+                  value={testForm.grace_period_seconds}
+                  onChange={(e) => setTestForm({ ...testForm, grace_period_seconds: Math.max(0, parseInt(e.target.value) || 0) })}
+                />
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="start_time">Start Time (Optional)</Label>
                 <Input
@@ -231,6 +297,103 @@ const TestManagement = () => {
               </div>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="shuffle-questions"
+                  checked={testForm.shuffle_questions}
+                  onCheckedChange={(checked) => setTestForm({ ...testForm, shuffle_questions: checked })}
+                />
+                <Label htmlFor="shuffle-questions">Shuffle questions</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="shuffle-options"
+                  checked={testForm.shuffle_options}
+                  onCheckedChange={(checked) => setTestForm({ ...testForm, shuffle_options: checked })}
+                />
+                <Label htmlFor="shuffle-options">Shuffle options</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="partial-credit"
+                  checked={testForm.partial_credit}
+                  onCheckedChange={(checked) => setTestForm({ ...testForm, partial_credit: checked })}
+                />
+                <Label htmlFor="partial-credit">Partial credit on multiple select</Label>
+              </div>
+            </div>
+
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="grading_scheme">Grading Scheme</Label>
+              <Select
+                value={testForm.grading_scheme_id}
+                onValueChange={(value) => setTestForm({ ...testForm, grading_scheme_id: value })}
+              >
+                <SelectTrigger id="grading_scheme">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BATCH_SCHEME}>Same as the batch</SelectItem>
+                  {gradingSchemes.map((scheme) => (
+                    <SelectItem key={scheme.id} value={scheme.id}>
+                      {scheme.name} (pass {scheme.pass_mark}%)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="wrong_answer_penalty">Wrong Answer Penalty (fraction of points)</Label>
+              <Input
+                id="wrong_answer_penalty"
+                type="number"
+                min="0"
+                max="1"
+                step="0.05"
+                value={testForm.wrong_answer_penalty}
+                onChange={(e) =>
+                  setTestForm({
+                    ...testForm,
+                    wrong_answer_penalty: Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)),
+                  })
+                }
+              />
+              <p className="text-xs text-gray-500">
+                E.g. 0.25 deducts a quarter of a question's points for a wrong answer. Unanswered questions score zero.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-xl">
+              <div className="space-y-2">
+                <Label htmlFor="violation_warn_threshold">Warn After (violations)</Label>
+                <Input
+                  id="violation_warn_threshold"
+                  type="number"
+                  min="1"
+                  placeholder="Off"
+                  value={testForm.violation_warn_threshold}
+                  onChange={(e) => setTestForm({ ...testForm, violation_warn_threshold: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="violation_submit_threshold">Auto-submit After (violations)</Label>
+                <Input
+                  id="violation_submit_threshold"
+                  type="number"
+                  min="1"
+                  placeholder="Off"
+                  value={testForm.violation_submit_threshold}
+                  onChange={(e) => setTestForm({ ...testForm, violation_submit_threshold: e.target.value })}
+                />
+              </div>
+              <p className="text-xs text-gray-500 md:col-span-2">
+                Violations are leaving the exam tab, window or fullscreen, copy, paste and right-click attempts, opening
+                developer tools, using more than one monitor and stopping screen sharing.
+              </p>
+            </div>
+
             <Button type="submit" disabled={loading || !selectedBatch}>
               <Timer className="h-4 w-4 mr-2" />
               Create Test
@@ -253,6 +416,7 @@ const TestManagement = () => {
                 <TableHead>Duration</TableHead>
                 <TableHead>Start Time</TableHead>
                 <TableHead>End Time</TableHead>
+                <TableHead>Security</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Actions</TableHead>
               </TableRow>
@@ -265,13 +429,25 @@ const TestManagement = () => {
                   <TableCell>{test.duration_minutes} min</TableCell>
                   <TableCell>{formatDateTime(test.start_time)}</TableCell>
                   <TableCell>{formatDateTime(test.end_time)}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1 max-w-[14rem]">
+                      {SECURITY_RULES.filter((rule) => test.security_policy[rule]).map((rule) => (
+                        <span key={rule} className="px-2 py-0.5 rounded-full text-xs bg-blue-50 text-blue-800">
+                          {SECURITY_RULE_LABELS[rule]}
+                        </span>
+                      ))}
+                      {!SECURITY_RULES.some((rule) => test.security_policy[rule]) && (
+                        <span className="text-xs text-gray-500">None</span>
+                      )}
+                    </div>
+                  </TableCell>
                   <TableCell>
                     <span className={`px-2 py-1 rounded-full text-xs ${
                       test.is_active 
                         ? 'bg-green-100 text-green-800' 
                         : 'bg-gray-100 text-gray-800'
                     }`}>
-                      {test.is_active ? 'Active' : 'Inactive'}
+                      {test.is_active ? 'Active' : 'Draft'}
                     </span>
                   </TableCell>
                   <TableCell>
@@ -291,6 +467,22 @@ const TestManagement = () => {
                           <Play className="h-4 w-4" />
                         )}
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setComposingTest(test)}
+                      >
+                        <ListOrdered className="h-4 w-4 mr-2" />
+                        Questions
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => copyTestLink(test.id)}
+                      >
+                        <Link className="h-4 w-4 mr-2" />
+                        Copy Link
+                      </Button>
                     </div>
                   </TableCell>
                 </TableRow>
@@ -299,6 +491,36 @@ const TestManagement = () => {
           </Table>
         </CardContent>
       </Card>
+
+      <Dialog open={!!composingTest} onOpenChange={(open) => !open && setComposingTest(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{composingTest?.title}</DialogTitle>
+            <DialogDescription>
+              Pick questions from any bank, have each candidate draw a random sample, and split the test into
+              timed sections
+            </DialogDescription>
+          </DialogHeader>
+          {composingTest && (
+            <Tabs defaultValue="fixed">
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="fixed">Fixed Questions</TabsTrigger>
+                <TabsTrigger value="blueprint">Random Draw</TabsTrigger>
+                <TabsTrigger value="sections">Sections</TabsTrigger>
+              </TabsList>
+              <TabsContent value="fixed">
+                <TestComposer testId={composingTest.id} />
+              </TabsContent>
+              <TabsContent value="blueprint">
+                <TestBlueprint testId={composingTest.id} />
+              </TabsContent>
+              <TabsContent value="sections">
+                <TestSections testId={composingTest.id} durationMinutes={composingTest.duration_minutes} />
+              </TabsContent>
+            </Tabs>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
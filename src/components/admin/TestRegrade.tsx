@@ -0,0 +1,453 @@
+import { Fragment, useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, Edit, Loader2, RefreshCw } from "lucide-react";
+import QuestionEditor from "@/components/admin/QuestionEditor";
+import {
+  QUESTION_TYPE_LABELS,
+  QuestionDraft,
+  QuestionType,
+  describeAnswerKey,
+  fromQuestionRow,
+  toQuestionRow,
+  validateQuestion,
+} from "@/lib/questionTypes";
+import { notifyOutcomeChanges, regradeTest } from "@/lib/regradeService";
+
+interface TestRegradeProps {
+  testId: string;
+  // Called after a regrade so the results can be reloaded
+  onRegraded: () => void;
+}
+
+interface KeyedQuestion {
+  id: string;
+  question_text: string;
+  question_type: QuestionType;
+  correct_answer: unknown;
+}
+
+interface RegradeChange {
+  id: string;
+  old_total_score: number | null;
+  new_total_score: number;
+  old_max_score: number | null;
+  new_max_score: number;
+  old_passed: boolean;
+  new_passed: boolean;
+  notified_at: string | null;
+  student: { name: string; email: string } | null;
+}
+
+interface RegradeRun {
+  id: string;
+  reason: string;
+  status: string;
+  notify_candidates: boolean;
+  sessions_regraded: number;
+  error: string | null;
+  created_at: string;
+  changes: RegradeChange[];
+}
+
+// Answer-key corrections for a test that has already run: fix a key or void
+// a question, then regrade the graded sessions. The regrade-test edge
+// function keeps the old and new scores of every session it changes.
+const TestRegrade = ({ testId, onRegraded }: TestRegradeProps) => {
+  const [questions, setQuestions] = useState<KeyedQuestion[]>([]);
+  const [voided, setVoided] = useState<string[]>([]);
+  const [runs, setRuns] = useState<RegradeRun[]>([]);
+  const [editing, setEditing] = useState<{ id: string; draft: QuestionDraft } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [reason, setReason] = useState("");
+  const [notify, setNotify] = useState(false);
+  const [regrading, setRegrading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchQuestions();
+    fetchRuns();
+  }, [testId]);
+
+  const fetchQuestions = async () => {
+    try {
+      const [testResult, composedResult, sessionsResult] = await Promise.all([
+        supabase.from("tests").select("voided_question_ids").eq("id", testId).single(),
+        supabase.from("test_questions").select("question_id").eq("test_id", testId).order("position"),
+        supabase.from("test_sessions").select("question_order").eq("test_id", testId).not("graded_at", "is", null),
+      ]);
+
+      const failed = [testResult, composedResult, sessionsResult].find((result) => result.error);
+      if (failed) throw failed.error;
+
+      const test = testResult.data;
+      const composed = composedResult.data;
+      const sessions = sessionsResult.data;
+
+      // Composed questions and anything drawn for a candidate from a pool
+      const questionIds = [
+        ...new Set([
+          ...(composed || []).map((row) => row.question_id),
+          ...(sessions || []).flatMap((session) => session.question_order ?? []),
+        ]),
+      ];
+
+      const { data, error } = questionIds.length
+        ? await supabase
+            .from("questions")
+            .select("id, question_text, question_type, correct_answer")
+            .in("id", questionIds)
+        : { data: [], error: null };
+
+      if (error) throw error;
+
+      const byId = new Map((data || []).map((question) => [question.id, question]));
+      setQuestions(questionIds.filter((id) => byId.has(id)).map((id) => byId.get(id)));
+      setVoided(test.voided_question_ids ?? []);
+    } catch (error) {
+      console.error("Error fetching answer keys:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the answer keys of this test",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchRuns = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("regrade_runs")
+        .select(`
+          id,
+          reason,
+          status,
+          notify_candidates,
+          sessions_regraded,
+          error,
+          created_at,
+          changes:regrade_changes(
+            id,
+            old_total_score,
+            new_total_score,
+            old_max_score,
+            new_max_score,
+            old_passed,
+            new_passed,
+            notified_at,
+            student:students(name, email)
+          )
+        `)
+        .eq("test_id", testId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setRuns(data || []);
+    } catch (error) {
+      console.error("Error fetching regrade history:", error);
+    }
+  };
+
+  const handleEdit = async (questionId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("questions")
+        .select("question_type, question_text, options, correct_answer")
+        .eq("id", questionId)
+        .single();
+
+      if (error) throw error;
+      setEditing({ id: questionId, draft: fromQuestionRow(data) });
+    } catch (error) {
+      console.error("Error loading question:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load question",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const problem = validateQuestion(editing.draft);
+    if (problem) {
+      toast({ title: "Error", description: problem, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("questions")
+        .update({ ...toQuestionRow(editing.draft), updated_at: new Date().toISOString() })
+        .eq("id", editing.id);
+
+      if (error) throw error;
+
+      toast({ title: "Success", description: "Answer key updated. Regrade the test to apply it." });
+      setEditing(null);
+      fetchQuestions();
+    } catch (error) {
+      console.error("Error updating answer key:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update the answer key",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleVoidChange = async (questionId: string, isVoided: boolean) => {
+    const previous = voided;
+    const next = isVoided ? [...voided, questionId] : voided.filter((id) => id !== questionId);
+    setVoided(next);
+    try {
+      const { error } = await supabase
+        .from("tests")
+        .update({ voided_question_ids: next })
+        .eq("id", testId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error voiding question:", error);
+      setVoided(previous);
+      toast({
+        title: "Error",
+        description: "Failed to update voided questions",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const sendNotifications = async (runId: string) => {
+    try {
+      const result = await notifyOutcomeChanges(runId);
+      toast({
+        title: result.success ? "Candidates notified" : "Some notifications failed",
+        description: `${result.successCount} sent, ${result.failedCount} failed`,
+        variant: result.success ? "default" : "destructive",
+      });
+    } catch (error) {
+      console.error("Error notifying candidates:", error);
+      toast({
+        title: "Error",
+        description: "Failed to notify candidates",
+        variant: "destructive",
+      });
+    }
+    fetchRuns();
+  };
+
+  const handleRegrade = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+
+    setRegrading(true);
+    try {
+      const result = await regradeTest(testId, reason.trim(), notify);
+      toast({
+        title: "Regrade complete",
+        description: `${result.sessions_regraded} session(s) regraded, ${result.changed} score(s) changed, ${result.outcomes_changed} pass/fail outcome(s) changed`,
+      });
+      setReason("");
+      if (notify && result.outcomes_changed > 0) {
+        await sendNotifications(result.run_id);
+      }
+      onRegraded();
+    } catch (error) {
+      console.error("Error regrading test:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to regrade the test",
+        variant: "destructive",
+      });
+    } finally {
+      setRegrading(false);
+      fetchRuns();
+    }
+  };
+
+  const formatScore = (score: number | null, max: number | null) =>
+    score === null ? "—" : `${Number(score)} / ${max === null ? "—" : Number(max)}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Answer Keys &amp; Regrading</CardTitle>
+        <CardDescription>
+          Correct a key or void a question, then regrade to recalculate every graded session of this test
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Question</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Answer Key</TableHead>
+              <TableHead>Voided</TableHead>
+              <TableHead className="w-16" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {questions.map((question) => (
+              <Fragment key={question.id}>
+                <TableRow className={voided.includes(question.id) ? "opacity-60" : ""}>
+                  <TableCell className="max-w-md">
+                    <p className="line-clamp-2">{question.question_text}</p>
+                  </TableCell>
+                  <TableCell>{QUESTION_TYPE_LABELS[question.question_type]}</TableCell>
+                  <TableCell className="font-mono text-sm">
+                    {describeAnswerKey(question.question_type, question.correct_answer)}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={voided.includes(question.id)}
+                      onCheckedChange={(checked) => handleVoidChange(question.id, checked)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="outline" size="sm" onClick={() => handleEdit(question.id)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+                {editing?.id === question.id && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="bg-gray-50">
+                      <div className="space-y-4 p-2">
+                        <Alert>
+                          <AlertTriangle className="h-4 w-4" />
+                          <AlertTitle>This edits the question itself</AlertTitle>
+                          <AlertDescription>
+                            Other tests using it get the corrected key too; regrade them as well.
+                          </AlertDescription>
+                        </Alert>
+                        <QuestionEditor value={editing.draft} onChange={(draft) => setEditing({ ...editing, draft })} />
+                        <div className="flex gap-2">
+                          <Button onClick={handleSave} disabled={saving}>
+                            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Save Key
+                          </Button>
+                          <Button variant="outline" onClick={() => setEditing(null)} disabled={saving}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </Fragment>
+            ))}
+          </TableBody>
+        </Table>
+
+        <form onSubmit={handleRegrade} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="regrade-reason">Reason</Label>
+            <Input
+              id="regrade-reason"
+              placeholder="e.g. Corrected the key of question 12"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              required
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox id="regrade-notify" checked={notify} onCheckedChange={(checked) => setNotify(checked === true)} />
+            <Label htmlFor="regrade-notify">Email candidates whose pass/fail outcome changes</Label>
+          </div>
+          <Button type="submit" disabled={regrading || !reason.trim()}>
+            {regrading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            Regrade Test
+          </Button>
+        </form>
+
+        {runs.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-semibold">Regrade History</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Score</TableHead>
+                  <TableHead>Outcome</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => {
+                  const unnotified = run.changes.filter(
+                    (change) => change.old_passed !== change.new_passed && !change.notified_at,
+                  ).length;
+
+                  return (
+                    <Fragment key={run.id}>
+                      <TableRow>
+                        <TableCell>{new Date(run.created_at).toLocaleString()}</TableCell>
+                        <TableCell>{run.reason}</TableCell>
+                        <TableCell>
+                          <Badge variant={run.status === "failed" ? "destructive" : run.status === "running" ? "secondary" : "default"}>
+                            {run.status}
+                          </Badge>
+                          {run.error && <p className="text-xs text-red-700">{run.error}</p>}
+                        </TableCell>
+                        <TableCell colSpan={3} className="text-sm text-gray-600">
+                          {run.sessions_regraded} session(s) regraded, {run.changes.length} changed
+                          {unnotified > 0 && (
+                            <Button variant="link" size="sm" onClick={() => sendNotifications(run.id)}>
+                              Notify {unnotified} candidate(s)
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {run.changes.map((change) => (
+                        <TableRow key={change.id} className="text-sm">
+                          <TableCell colSpan={3} />
+                          <TableCell>{change.student?.name ?? "—"}</TableCell>
+                          <TableCell>
+                            {formatScore(change.old_total_score, change.old_max_score)} →{" "}
+                            {formatScore(change.new_total_score, change.new_max_score)}
+                          </TableCell>
+                          <TableCell>
+                            {change.old_passed === change.new_passed ? (
+                              <span className="text-gray-500">Unchanged</span>
+                            ) : (
+                              <div className="flex items-center gap-2">
+                                <Badge className={change.new_passed ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}>
+                                  {change.new_passed ? "Now passes" : "Now fails"}
+                                </Badge>
+                                {change.notified_at && <span className="text-xs text-gray-500">Notified</span>}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TestRegrade;
@@ -6,7 +6,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+import ItemAnalysis from "@/components/admin/ItemAnalysis";
+import TestRegrade from "@/components/admin/TestRegrade";
+import {
+  DEFAULT_GRADING_SCHEME,
+  GRADE_TONE_CLASSES,
+  GradingScheme,
+  gradeFor,
+  isPassing,
+} from "@/lib/gradingSchemes";
+import { fetchTestGradingScheme } from "@/lib/gradingSchemeService";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
 interface Test {
   id: string;
@@ -14,12 +25,33 @@ interface Test {
   batch: { name: string };
 }
 
+// Per-section breakdown recorded when a sectioned test is graded. A type
+// alias so the generated Json type converts to it
+type SectionScore = {
+  section_id: string;
+  title: string;
+  score: number;
+  max_score: number;
+  total_questions: number;
+};
+
 interface TestSession {
   id: string;
+  // Weighted: points after penalties and partial credit
   total_score: number;
+  // Questions answered fully correctly; null for sessions graded before it
+  // was recorded
+  raw_score: number | null;
   total_questions: number;
+  max_score: number | null;
   started_at: string;
   completed_at: string | null;
+  // Closed by the server after the deadline passed
+  timed_out: boolean;
+  // Ended early by a proctor
+  terminated_at: string | null;
+  termination_reason: string | null;
+  section_scores: SectionScore[] | null;
   student: { name: string; email: string };
   test: { title: string };
 }
@@ -28,8 +60,10 @@ const TestResults = () => {
   const [tests, setTests] = useState<Test[]>([]);
   const [selectedTest, setSelectedTest] = useState("");
   const [testSessions, setTestSessions] = useState<TestSession[]>([]);
+  const [gradingScheme, setGradingScheme] = useState<GradingScheme>(DEFAULT_GRADING_SCHEME);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
+  const { can } = useAdminAuth();
 
   useEffect(() => {
     fetchTests();
@@ -38,6 +72,12 @@ const TestResults = () => {
   useEffect(() => {
     if (selectedTest) {
       fetchTestSessions();
+      fetchTestGradingScheme(selectedTest)
+        .then(setGradingScheme)
+        .catch((error) => {
+          console.error("Error fetching grading scheme:", error);
+          setGradingScheme(DEFAULT_GRADING_SCHEME);
+        });
     }
   }, [selectedTest]);
 
@@ -69,9 +109,15 @@ const TestResults = () => {
         .select(`
           id,
           total_score,
+          raw_score,
           total_questions,
+          max_score,
           started_at,
           completed_at,
+          timed_out,
+          terminated_at,
+          termination_reason,
+          section_scores,
           student:students(name, email),
           test:tests(title)
         `)
@@ -79,7 +125,12 @@ const TestResults = () => {
         .order("total_score", { ascending: false });
 
       if (error) throw error;
-      setTestSessions(data || []);
+      setTestSessions(
+        (data || []).map((session) => ({
+          ...session,
+          section_scores: session.section_scores as SectionScore[] | null,
+        }))
+      );
     } catch (error) {
       console.error("Error fetching test sessions:", error);
       toast({
@@ -92,31 +143,20 @@ const TestResults = () => {
     }
   };
 
+  // Sessions graded before per-question points have no max_score; each
+  // question was worth one point then
+  const getMaxScore = (session: TestSession) => session.max_score ?? session.total_questions;
+
   const getScorePercentage = (score: number, total: number) => {
     if (total === 0) return 0;
     return Math.round((score / total) * 100);
   };
 
-  const getGradeColor = (percentage: number) => {
-    if (percentage >= 90) return "bg-green-100 text-green-800";
-    if (percentage >= 80) return "bg-blue-100 text-blue-800";
-    if (percentage >= 70) return "bg-yellow-100 text-yellow-800";
-    if (percentage >= 60) return "bg-orange-100 text-orange-800";
-    return "bg-red-100 text-red-800";
-  };
-
-  const getGrade = (percentage: number) => {
-    if (percentage >= 90) return "A+";
-    if (percentage >= 80) return "A";
-    if (percentage >= 70) return "B";
-    if (percentage >= 60) return "C";
-    return "F";
-  };
-
   // Prepare chart data
   const chartData = testSessions.map((session, index) => ({
     student: `Student ${index + 1}`,
-    score: getScorePercentage(session.total_score, session.total_questions),
+    weighted: getScorePercentage(session.total_score, getMaxScore(session)),
+    raw: session.raw_score === null ? null : getScorePercentage(session.raw_score, session.total_questions),
   }));
 
   const formatDateTime = (dateString: string) => {
@@ -127,19 +167,37 @@ const TestResults = () => {
     if (testSessions.length === 0) return null;
 
     const percentages = testSessions.map(session => 
-      getScorePercentage(session.total_score, session.total_questions)
+      getScorePercentage(session.total_score, getMaxScore(session))
     );
 
     const average = percentages.reduce((sum, score) => sum + score, 0) / percentages.length;
     const highest = Math.max(...percentages);
     const lowest = Math.min(...percentages);
-    const passed = percentages.filter(score => score >= 60).length;
+    const passed = percentages.filter(score => isPassing(gradingScheme, score)).length;
 
     return { average, highest, lowest, passed, total: testSessions.length };
   };
 
   const stats = calculateStats();
 
+  // Average percentage per section, in the order the sections were served
+  const sectionAverages = (() => {
+    const bySection = new Map<string, { title: string; percentages: number[] }>();
+    for (const session of testSessions) {
+      for (const section of session.section_scores ?? []) {
+        const entry = bySection.get(section.section_id) ?? { title: section.title, percentages: [] };
+        entry.percentages.push(getScorePercentage(section.score, section.max_score));
+        bySection.set(section.section_id, entry);
+      }
+    }
+    return [...bySection.entries()].map(([sectionId, { title, percentages }]) => ({
+      sectionId,
+      title,
+      average: percentages.reduce((sum, percentage) => sum + percentage, 0) / percentages.length,
+      sessions: percentages.length,
+    }));
+  })();
+
   return (
     <div className="space-y-6">
       <Card>
@@ -199,8 +257,9 @@ const TestResults = () => {
                   {stats.total > 0 ? Math.round((stats.passed / stats.total) * 100) : 0}%
                 </div>
                 <p className="text-xs text-gray-600">
-                  {stats.passed} of {stats.total} students
+                  {stats.passed} of {stats.total} students at {gradingScheme.pass_mark}% or above
                 </p>
+                <p className="text-xs text-gray-500">{gradingScheme.name} grading scheme</p>
               </CardContent>
             </Card>
           </div>
@@ -208,7 +267,9 @@ const TestResults = () => {
           <Card>
             <CardHeader>
               <CardTitle>Score Distribution</CardTitle>
-              <CardDescription>Visual representation of student scores</CardDescription>
+              <CardDescription>
+                Weighted scores count points, penalties and partial credit; raw scores count fully correct answers
+              </CardDescription>
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={300}>
@@ -217,12 +278,47 @@ const TestResults = () => {
                   <XAxis dataKey="student" />
                   <YAxis />
                   <Tooltip />
-                  <Bar dataKey="score" fill="#8884d8" />
+                  <Legend />
+                  <Bar dataKey="weighted" name="Weighted %" fill="#8884d8" />
+                  <Bar dataKey="raw" name="Raw %" fill="#82ca9d" />
                 </BarChart>
               </ResponsiveContainer>
             </CardContent>
           </Card>
 
+          {sectionAverages.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Section Scores</CardTitle>
+                <CardDescription>Average score in each section of the test</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Section</TableHead>
+                      <TableHead>Average</TableHead>
+                      <TableHead>Graded Sessions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sectionAverages.map((section) => (
+                      <TableRow key={section.sectionId}>
+                        <TableCell className="font-medium">{section.title}</TableCell>
+                        <TableCell>{section.average.toFixed(1)}%</TableCell>
+                        <TableCell>{section.sessions}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          <ItemAnalysis testId={selectedTest} />
+
+          {can("manage_tests") && <TestRegrade testId={selectedTest} onRegraded={fetchTestSessions} />}
+
           <Card>
             <CardHeader>
               <CardTitle>Individual Results</CardTitle>
@@ -234,8 +330,10 @@ const TestResults = () => {
                   <TableRow>
                     <TableHead>Student Name</TableHead>
                     <TableHead>Email</TableHead>
+                    <TableHead>Correct</TableHead>
                     <TableHead>Score</TableHead>
                     <TableHead>Percentage</TableHead>
+                    {sectionAverages.length > 0 && <TableHead>Sections</TableHead>}
                     <TableHead>Grade</TableHead>
                     <TableHead>Started At</TableHead>
                     <TableHead>Completed At</TableHead>
@@ -244,18 +342,32 @@ const TestResults = () => {
                 </TableHeader>
                 <TableBody>
                   {testSessions.map((session) => {
-                    const percentage = getScorePercentage(session.total_score, session.total_questions);
-                    const grade = getGrade(percentage);
-                    
+                    const percentage = getScorePercentage(session.total_score, getMaxScore(session));
+                    const grade = gradeFor(gradingScheme, percentage);
+
                     return (
                       <TableRow key={session.id}>
                         <TableCell className="font-medium">{session.student?.name}</TableCell>
                         <TableCell>{session.student?.email}</TableCell>
-                        <TableCell>{session.total_score} / {session.total_questions}</TableCell>
+                        <TableCell>
+                          {session.raw_score === null ? "—" : `${session.raw_score} / ${session.total_questions}`}
+                        </TableCell>
+                        <TableCell>{session.total_score} / {getMaxScore(session)}</TableCell>
                         <TableCell>{percentage}%</TableCell>
+                        {sectionAverages.length > 0 && (
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {(session.section_scores ?? []).map((section) => (
+                                <Badge key={section.section_id} variant="outline">
+                                  {section.title}: {section.score} / {section.max_score}
+                                </Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                        )}
                         <TableCell>
-                          <Badge className={getGradeColor(percentage)}>
-                            {grade}
+                          <Badge className={GRADE_TONE_CLASSES[grade.tone]}>
+                            {grade.label}
                           </Badge>
                         </TableCell>
                         <TableCell>{formatDateTime(session.started_at)}</TableCell>
@@ -263,9 +375,15 @@ const TestResults = () => {
                           {session.completed_at ? formatDateTime(session.completed_at) : "In Progress"}
                         </TableCell>
                         <TableCell>
-                          <Badge variant={session.completed_at ? "default" : "secondary"}>
-                            {session.completed_at ? "Completed" : "In Progress"}
-                          </Badge>
+                          {session.terminated_at ? (
+                            <Badge variant="destructive" title={session.termination_reason ?? undefined}>
+                              Terminated
+                            </Badge>
+                          ) : (
+                            <Badge variant={session.timed_out ? "destructive" : session.completed_at ? "default" : "secondary"}>
+                              {session.timed_out ? "Timed Out" : session.completed_at ? "Completed" : "In Progress"}
+                            </Badge>
+                          )}
                         </TableCell>
                       </TableRow>
                     );
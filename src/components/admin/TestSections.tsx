@@ -0,0 +1,256 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+
+interface TestSectionsProps {
+  testId: string;
+  // The test's overall limit, which still applies to a sectioned test
+  durationMinutes: number;
+}
+
+interface TestSection {
+  id: string;
+  title: string;
+  position: number;
+  duration_minutes: number | null;
+  question_count: number | null;
+}
+
+const emptySection = {
+  title: "",
+  duration_minutes: "",
+  question_count: "",
+};
+
+// Ordered sections of a test. Candidates take them one after another and
+// can't return to a section they have finished; see the next-section edge
+// function.
+const TestSections = ({ testId, durationMinutes }: TestSectionsProps) => {
+  const [sections, setSections] = useState<TestSection[]>([]);
+  const [sectionForm, setSectionForm] = useState(emptySection);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchSections();
+  }, [testId]);
+
+  const fetchSections = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("test_sections")
+        .select("id, title, position, duration_minutes, question_count")
+        .eq("test_id", testId)
+        .order("position");
+
+      if (error) throw error;
+      setSections(data || []);
+    } catch (error) {
+      console.error("Error fetching sections:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the sections of this test",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAddSection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sectionForm.title.trim()) return;
+
+    setLoading(true);
+    try {
+      const nextPosition = sections.length ? Math.max(...sections.map((section) => section.position)) + 1 : 0;
+      const { error } = await supabase
+        .from("test_sections")
+        .insert({
+          test_id: testId,
+          title: sectionForm.title.trim(),
+          duration_minutes: parseInt(sectionForm.duration_minutes) || null,
+          question_count: parseInt(sectionForm.question_count) || null,
+          position: nextPosition,
+        });
+
+      if (error) throw error;
+
+      setSectionForm(emptySection);
+      fetchSections();
+    } catch (error) {
+      console.error("Error adding section:", error);
+      toast({
+        title: "Error",
+        description: "Failed to add section",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemove = async (sectionId: string) => {
+    try {
+      const { error } = await supabase
+        .from("test_sections")
+        .delete()
+        .eq("id", sectionId);
+
+      if (error) throw error;
+      fetchSections();
+    } catch (error) {
+      console.error("Error removing section:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove section",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Swap positions with the neighbour in the given direction
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const current = sections[index];
+    const neighbour = sections[index + direction];
+    if (!current || !neighbour) return;
+
+    try {
+      const updates = await Promise.all([
+        supabase.from("test_sections").update({ position: neighbour.position }).eq("id", current.id),
+        supabase.from("test_sections").update({ position: current.position }).eq("id", neighbour.id),
+      ]);
+
+      const failed = updates.find((update) => update.error);
+      if (failed) throw failed.error;
+      fetchSections();
+    } catch (error) {
+      console.error("Error reordering sections:", error);
+      toast({
+        title: "Error",
+        description: "Failed to reorder sections",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const timedMinutes = sections.reduce((total, section) => total + (section.duration_minutes ?? 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">Sections</h3>
+          <span className="text-sm text-gray-600">
+            {sections.length} section(s), {timedMinutes} of {durationMinutes} min timed
+          </span>
+        </div>
+        <p className="text-sm text-gray-600">
+          Candidates take the sections in order and can't go back to one they have finished. Questions and draw
+          rules without a section belong to the first one.
+        </p>
+        <div className="max-h-72 overflow-y-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead>Time limit</TableHead>
+                <TableHead>Questions served</TableHead>
+                <TableHead className="w-32">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sections.map((section, index) => (
+                <TableRow key={section.id}>
+                  <TableCell>{index + 1}</TableCell>
+                  <TableCell>{section.title}</TableCell>
+                  <TableCell>{section.duration_minutes ? `${section.duration_minutes} min` : "Rest of the test"}</TableCell>
+                  <TableCell>{section.question_count ?? "All"}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => handleMove(index, -1)}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={index === sections.length - 1}
+                        onClick={() => handleMove(index, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleRemove(section.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {sections.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-gray-500">
+                    No sections. Candidates move freely across the whole test.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        {timedMinutes > durationMinutes && (
+          <p className="flex items-center gap-1 text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4" />
+            The section limits add up to more than the test's {durationMinutes} minutes; the test ends first.
+          </p>
+        )}
+      </div>
+
+      <form onSubmit={handleAddSection} className="space-y-4">
+        <Label>Add section</Label>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="section-title" className="text-xs text-gray-600">Title</Label>
+            <Input
+              id="section-title"
+              placeholder="e.g. Quantitative"
+              value={sectionForm.title}
+              onChange={(e) => setSectionForm({ ...sectionForm, title: e.target.value })}
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="section-duration" className="text-xs text-gray-600">Time limit (minutes)</Label>
+            <Input
+              id="section-duration"
+              type="number"
+              min="1"
+              placeholder="None"
+              value={sectionForm.duration_minutes}
+              onChange={(e) => setSectionForm({ ...sectionForm, duration_minutes: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="section-count" className="text-xs text-gray-600">Questions to serve</Label>
+            <Input
+              id="section-count"
+              type="number"
+              min="1"
+              placeholder="All"
+              value={sectionForm.question_count}
+              onChange={(e) => setSectionForm({ ...sectionForm, question_count: e.target.value })}
+            />
+          </div>
+        </div>
+        <Button type="submit" disabled={loading}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Section
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default TestSections;
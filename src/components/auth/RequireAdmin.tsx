@@ -0,0 +1,64 @@
+import { ReactNode } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+import { AdminPermission } from "@/lib/roles";
+
+interface RequireAdminProps {
+  // Omit to allow any admin role
+  permission?: AdminPermission;
+  children: ReactNode;
+}
+
+const RequireAdmin = ({ permission, children }: RequireAdminProps) => {
+  const { session, role, loading, can, signOut } = useAdminAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+
+  if (!role || (permission && !can(permission))) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <div className="flex justify-center mb-4">
+              <ShieldAlert className="h-12 w-12 text-red-500" />
+            </div>
+            <CardTitle className="text-center">Access Denied</CardTitle>
+            <CardDescription className="text-center">
+              {role
+                ? "Your role does not allow access to this page."
+                : "This account is not registered as an administrator."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex justify-center gap-2">
+            {role && (
+              <Button variant="outline" asChild>
+                <a href="/">Back to Dashboard</a>
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => signOut()}>
+              Sign Out
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireAdmin;
@@ -0,0 +1,92 @@
+import { createContext, useContext, useEffect, useRef, useState, ReactNode } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AdminPermission, AdminRole, hasPermission } from "@/lib/roles";
+
+interface AdminAuthContextValue {
+  session: Session | null;
+  role: AdminRole | null;
+  loading: boolean;
+  can: (permission: AdminPermission) => boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AdminAuthContext = createContext<AdminAuthContextValue | null>(null);
+
+export function AdminAuthProvider({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [role, setRole] = useState<AdminRole | null>(null);
+  const [loading, setLoading] = useState(true);
+  const userIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const loadRole = async (nextSession: Session | null) => {
+      setSession(nextSession);
+
+      if (!nextSession) {
+        userIdRef.current = null;
+        setRole(null);
+        setLoading(false);
+        return;
+      }
+
+      // Token refreshes keep the same user; only a new user re-fetches the role
+      if (userIdRef.current === nextSession.user.id) return;
+      userIdRef.current = nextSession.user.id;
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from("admin_users")
+        .select("role")
+        .eq("user_id", nextSession.user.id)
+        .maybeSingle();
+
+      if (error) console.error("Error fetching admin role:", error);
+      setRole(data?.role ?? null);
+      setLoading(false);
+    };
+
+    supabase.auth.getSession().then(({ data }) => loadRole(data.session));
+
+    const { data: listener } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      // Defer the query so it doesn't run inside the auth callback
+      setTimeout(() => loadRole(nextSession), 0);
+    });
+
+    return () => listener.subscription.unsubscribe();
+  }, []);
+
+  const signIn = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  };
+
+  const signOut = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  };
+
+  return (
+    <AdminAuthContext.Provider
+      value={{
+        session,
+        role,
+        loading,
+        can: (permission) => hasPermission(role, permission),
+        signIn,
+        signOut,
+      }}
+    >
+      {children}
+    </AdminAuthContext.Provider>
+  );
+}
+
+export function useAdminAuth() {
+  const context = useContext(AdminAuthContext);
+  if (!context) {
+    throw new Error("useAdminAuth must be used within an AdminAuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { CandidateSession, isTimeExpired, saveAnswers } from "@/lib/examService";
+import { PendingAnswer, enqueueAnswer, getPendingAnswers, removePendingAnswers } from "@/lib/answerQueue";
+import type { QuestionResponse } from "@/lib/questionTypes";
+
+// Quiet period after the last change before answers are sent
+const AUTOSAVE_DELAY_MS = 800;
+// Wait before retrying a save the server rejected
+const RETRY_DELAY_MS = 10_000;
+
+export type AutosaveStatus = "idle" | "saving" | "saved" | "offline" | "error";
+
+// Queues answer changes in IndexedDB and sends them to the server debounced,
+// retrying when the connection comes back. onExpired runs if the server has
+// already closed the session.
+export function useAutosave(session: CandidateSession | null, onExpired: () => void) {
+  const [status, setStatus] = useState<AutosaveStatus>("idle");
+  const timer = useRef<number>();
+  const flushing = useRef(false);
+  const expiredHandler = useRef(onExpired);
+  expiredHandler.current = onExpired;
+
+  const schedule = useCallback((delay: number, flush: () => Promise<void>) => {
+    window.clearTimeout(timer.current);
+    timer.current = window.setTimeout(flush, delay);
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (!session || flushing.current) return;
+
+    let pending: PendingAnswer[];
+    try {
+      pending = await getPendingAnswers(session.sessionId);
+    } catch (error) {
+      // Without IndexedDB nothing was queued; answers go out with the final
+      // submission
+      console.error("Error reading queued answers:", error);
+      return;
+    }
+    if (pending.length === 0) return;
+    if (!navigator.onLine) {
+      setStatus("offline");
+      return;
+    }
+
+    flushing.current = true;
+    setStatus("saving");
+    try {
+      await saveAnswers(
+        session,
+        Object.fromEntries(pending.map((answer) => [answer.questionId, answer.response])),
+      );
+      await removePendingAnswers(pending);
+      setStatus("saved");
+
+      // Edits made while this batch was in flight
+      const remaining = await getPendingAnswers(session.sessionId);
+      if (remaining.length) schedule(AUTOSAVE_DELAY_MS, flush);
+    } catch (error) {
+      if (isTimeExpired(error)) {
+        expiredHandler.current();
+        return;
+      }
+      console.error("Error saving answers:", error);
+      if (navigator.onLine) {
+        setStatus("error");
+        schedule(RETRY_DELAY_MS, flush);
+      } else {
+        setStatus("offline");
+      }
+    } finally {
+      flushing.current = false;
+    }
+  }, [session, schedule]);
+
+  const queueAnswer = useCallback(
+    async (questionId: string, response: QuestionResponse | null) => {
+      if (!session) return;
+
+      try {
+        await enqueueAnswer({ sessionId: session.sessionId, questionId, response, version: Date.now() });
+      } catch (error) {
+        // Without IndexedDB (e.g. some private windows) answers still go out
+        // with the final submission
+        console.error("Error queueing answer:", error);
+        return;
+      }
+      schedule(AUTOSAVE_DELAY_MS, flush);
+    },
+    [session, flush, schedule],
+  );
+
+  useEffect(() => {
+    if (!session) return;
+
+    const handleOnline = () => flush();
+    const handleOffline = () => setStatus("offline");
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+
+    // Send anything left over from an earlier tab
+    flush();
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      window.clearTimeout(timer.current);
+    };
+  }, [session, flush]);
+
+  return { status, queueAnswer, flush };
+}
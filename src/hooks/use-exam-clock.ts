@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+
+// Seconds left until the server's deadline, or null until one is known. The
+// server clock is read once; elapsed time after that comes from
+// performance.now(), which changing the system clock does not affect. A
+// paused clock stays where it was.
+export function useExamClock(deadline: string | null, serverTime: string | null, paused = false) {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!deadline || !serverTime) return;
+
+    const remainingMs = new Date(deadline).getTime() - new Date(serverTime).getTime();
+    const origin = performance.now();
+    const tick = () =>
+      setSecondsLeft(Math.max(0, Math.ceil((remainingMs - (performance.now() - origin)) / 1000)));
+
+    tick();
+    if (paused) return;
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [deadline, serverTime, paused]);
+
+  return secondsLeft;
+}
+
+// MM:SS, or H:MM:SS for papers over an hour
+export const formatTimeLeft = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainingSeconds = seconds % 60;
+  const mmss = `${minutes.toString().padStart(2, "0")}:${remainingSeconds.toString().padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
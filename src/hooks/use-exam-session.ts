@@ -0,0 +1,218 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useExamClock } from "@/hooks/use-exam-clock";
+import { useAutosave } from "@/hooks/use-autosave";
+import { useQuestionTimer } from "@/hooks/use-question-timer";
+import { clearPendingAnswers, getPendingAnswers } from "@/lib/answerQueue";
+import {
+  ExamPaper,
+  clearCandidateSession,
+  fetchExamPaper,
+  finishSection as finishSectionRequest,
+  getCandidateSession,
+  isSessionPaused,
+  isTimeExpired,
+  submitTest,
+} from "@/lib/examService";
+import type { QuestionResponse } from "@/lib/questionTypes";
+
+export type ExamPhase =
+  // No candidate session for this test; the candidate has to log in
+  | "signed_out"
+  | "loading"
+  // The paper could not be loaded; see error
+  | "failed"
+  | "in_progress"
+  | "submitted"
+  // The server closed the session because its deadline passed
+  | "expired";
+
+// The candidate side of a test session, from loading the paper to the final
+// submission: answers with autosave and resume, the server-driven clock,
+// moving through the sections of a sectioned test, and closing the section
+// or the test automatically when its time runs out. The page reports the
+// question on screen with showQuestion so time per question is recorded.
+// While the session is paused nothing is saved, and the clock stands still
+// unless the pause came from the candidate stopping their screen share; the
+// page calls reload when the session is paused or resumed or gets more time.
+export function useExamSession(testId: string | undefined) {
+  const session = useMemo(() => (testId ? getCandidateSession(testId) : null), [testId]);
+  const [phase, setPhase] = useState<ExamPhase>(session ? "loading" : "signed_out");
+  const [error, setError] = useState<string | null>(null);
+  const [paper, setPaper] = useState<ExamPaper | null>(null);
+  const [answers, setAnswers] = useState<Record<string, QuestionResponse>>({});
+  const [submitting, setSubmitting] = useState(false);
+  // Time ran out while the submission could not reach the server
+  const [waitingForConnection, setWaitingForConnection] = useState(false);
+  const [shownQuestion, showQuestion] = useState<string | null>(null);
+  // Deadline whose expiry has already been acted on; each section has its own
+  const autoClosedDeadline = useRef<string | null>(null);
+  const paused = paper?.paused ?? false;
+  const clockStopped = paused && paper?.pause_reason !== "screen_share";
+  const secondsLeft = useExamClock(paper?.deadline ?? null, paper?.server_time ?? null, clockStopped);
+
+  // Changes still queued can no longer be saved once the session is closed
+  const expire = useCallback(() => {
+    if (session) clearPendingAnswers(session.sessionId).catch(() => undefined);
+    clearCandidateSession();
+    setPhase("expired");
+  }, [session]);
+
+  const active = phase === "in_progress" && !paused;
+  // A screen share pause leaves the clock running, so time can still run
+  // out and close the test
+  const timing = phase === "in_progress" && !clockStopped;
+  const { status: saveStatus, queueAnswer } = useAutosave(active ? session : null, expire);
+  const questionTimer = useQuestionTimer(session?.sessionId ?? null, active ? shownQuestion : null);
+
+  const loadPaper = useCallback(async () => {
+    if (!session) return;
+
+    try {
+      const loaded = await fetchExamPaper(session);
+
+      // Resume: answers saved on the server, then any changes that never
+      // made it there
+      const restored: Record<string, QuestionResponse> = { ...loaded.answers };
+      const pending = await getPendingAnswers(session.sessionId).catch(() => []);
+      for (const answer of pending) {
+        if (answer.response === null) {
+          delete restored[answer.questionId];
+        } else {
+          restored[answer.questionId] = answer.response;
+        }
+      }
+
+      setPaper(loaded);
+      setAnswers(restored);
+      setPhase(loaded.questions.length ? "in_progress" : "failed");
+      if (!loaded.questions.length) setError("This test has no questions yet");
+    } catch (loadError) {
+      if (isTimeExpired(loadError)) {
+        expire();
+        return;
+      }
+      console.error("Error loading exam paper:", loadError);
+      setError(loadError instanceof Error ? loadError.message : "Failed to load the test");
+      setPhase("failed");
+    }
+  }, [session, expire]);
+
+  useEffect(() => {
+    loadPaper();
+  }, [loadPaper]);
+
+  const setAnswer = (questionId: string, response: QuestionResponse | undefined) => {
+    setAnswers((prev) => {
+      const next = { ...prev };
+      if (response === undefined) {
+        delete next[questionId];
+      } else {
+        next[questionId] = response;
+      }
+      return next;
+    });
+    queueAnswer(questionId, response ?? null);
+  };
+
+  // Every question on the paper as served, null for unanswered so a cleared
+  // answer that was autosaved earlier is dropped
+  const paperAnswers = () =>
+    Object.fromEntries((paper?.questions ?? []).map((question) => [question.id, answers[question.id] ?? null]));
+
+  // Runs a request that closes the section or the test, handling a session
+  // the server has already closed and a deadline reached while offline
+  const closeWith = async (request: () => Promise<void>) => {
+    if (!session || !paper || submitting) return;
+
+    setSubmitting(true);
+    try {
+      await request();
+      setWaitingForConnection(false);
+    } catch (closeError) {
+      if (isTimeExpired(closeError)) {
+        expire();
+        return;
+      }
+      if (isSessionPaused(closeError)) {
+        await loadPaper();
+        return;
+      }
+      if (secondsLeft === 0 && !navigator.onLine) {
+        setWaitingForConnection(true);
+        return;
+      }
+      throw closeError;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Answers are graded server-side; the score is never computed here
+  const submit = () =>
+    closeWith(async () => {
+      await submitTest(session, paperAnswers(), questionTimer.secondsSpent());
+      await clearPendingAnswers(session.sessionId).catch(() => undefined);
+      questionTimer.clear();
+      clearCandidateSession();
+      setPhase("submitted");
+    });
+
+  // Closes the current section for good and loads the next one
+  const finishSection = () =>
+    closeWith(async () => {
+      await finishSectionRequest(
+        session,
+        paper.current_section ?? 0,
+        paperAnswers(),
+        questionTimer.secondsSpent(),
+      );
+      await clearPendingAnswers(session.sessionId).catch(() => undefined);
+      await loadPaper();
+    });
+
+  const sections = paper?.sections ?? [];
+  const currentSection = paper?.current_section ?? null;
+  const onLastSection = currentSection === null || currentSection === sections.length - 1;
+  const closeCurrent = onLastSection ? submit : finishSection;
+
+  // Close the section, or submit the test, when the server's deadline is
+  // reached
+  useEffect(() => {
+    if (secondsLeft === 0 && timing && paper && autoClosedDeadline.current !== paper.deadline) {
+      autoClosedDeadline.current = paper.deadline;
+      closeCurrent().catch((closeError) => console.error("Error submitting test:", closeError));
+    }
+  }, [secondsLeft, timing]);
+
+  // Retry a time-up submission that failed for lack of a connection
+  useEffect(() => {
+    if (!waitingForConnection) return;
+
+    const retry = () => closeCurrent().catch((closeError) => console.error("Error submitting test:", closeError));
+    window.addEventListener("online", retry);
+    return () => window.removeEventListener("online", retry);
+  }, [waitingForConnection]);
+
+  return {
+    session,
+    phase,
+    error,
+    test: paper?.test ?? null,
+    questions: paper?.questions ?? [],
+    // Empty for an unsectioned test
+    sections,
+    currentSection,
+    onLastSection,
+    answers,
+    setAnswer,
+    showQuestion,
+    paused,
+    reload: loadPaper,
+    submit,
+    finishSection,
+    submitting,
+    waitingForConnection,
+    secondsLeft,
+    saveStatus,
+  };
+}
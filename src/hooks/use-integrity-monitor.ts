@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useRef } from "react";
+import { CandidateSession, ViolationReport, reportViolations } from "@/lib/examService";
+import type { Violation, ViolationKind } from "@/lib/integrity";
+import type { SecurityPolicy } from "@/lib/securityPolicy";
+
+// Violations are sent in batches this often
+const FLUSH_INTERVAL_MS = 3000;
+// The same kind again within this window is one violation, e.g. the blur
+// and visibilitychange that switching tabs fires together
+const REPEAT_WINDOW_MS = 2000;
+// Docked developer tools take at least this much of the window
+const DEVTOOLS_GAP_PX = 160;
+const DEVTOOLS_CHECK_MS = 2000;
+
+// Screen.isExtended from the Window Management API; Chromium only so far
+type ExtendedScreen = Screen & { isExtended?: boolean } & EventTarget;
+
+const isDevtoolsShortcut = (event: KeyboardEvent) =>
+  event.key === "F12" ||
+  ((event.ctrlKey || event.metaKey) && event.shiftKey && ["I", "J", "C"].includes(event.key.toUpperCase())) ||
+  (event.metaKey && event.altKey && ["I", "J", "C"].includes(event.key.toUpperCase()));
+
+// Watches the exam page for integrity violations (leaving the tab, window or
+// fullscreen, copy/paste and right-click attempts, developer tools, extra
+// monitors) and reports them for the session in batches. The test's security
+// policy decides whether fullscreen is watched and whether copy/paste and
+// right-click are blocked and counted. Pass null while the candidate isn't
+// answering, e.g. during setup or a pause. onReport gets the server's tally
+// after each batch.
+export function useIntegrityMonitor(
+  session: CandidateSession | null,
+  policy: SecurityPolicy,
+  onReport: (report: ViolationReport) => void,
+) {
+  const queue = useRef<Violation[]>([]);
+  const lastSeen = useRef<Partial<Record<ViolationKind, number>>>({});
+  const sending = useRef(false);
+  const reportHandler = useRef(onReport);
+  reportHandler.current = onReport;
+
+  const record = useCallback((kind: ViolationKind, detail?: string) => {
+    const now = Date.now();
+    if (now - (lastSeen.current[kind] ?? 0) < REPEAT_WINDOW_MS) return;
+    lastSeen.current[kind] = now;
+    queue.current.push({ kind, occurred_at: new Date(now).toISOString(), detail });
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (!session || sending.current || queue.current.length === 0) return;
+
+    const batch = queue.current;
+    queue.current = [];
+    sending.current = true;
+    try {
+      reportHandler.current(await reportViolations(session, batch));
+    } catch (error) {
+      // Kept for the next attempt
+      console.error("Error reporting violations:", error);
+      queue.current = [...batch, ...queue.current];
+    } finally {
+      sending.current = false;
+    }
+  }, [session]);
+
+  const { require_fullscreen, disable_copy_paste, disable_right_click } = policy;
+  useEffect(() => {
+    if (!session) return;
+
+    const handleVisibility = () => {
+      if (document.hidden) record("tab_hidden");
+    };
+    const handleBlur = () => {
+      if (!document.hidden) record("window_blur");
+    };
+    const handleFullscreen = () => {
+      if (require_fullscreen && !document.fullscreenElement) record("fullscreen_exit");
+    };
+    const handleCopy = (event: ClipboardEvent) => {
+      if (!disable_copy_paste) return;
+      event.preventDefault();
+      record("copy");
+    };
+    const handlePaste = (event: ClipboardEvent) => {
+      if (!disable_copy_paste) return;
+      event.preventDefault();
+      record("paste");
+    };
+    const handleContextMenu = (event: MouseEvent) => {
+      if (!disable_right_click) return;
+      event.preventDefault();
+      record("right_click");
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isDevtoolsShortcut(event)) record("devtools", `Shortcut ${event.key}`);
+    };
+
+    // Docked developer tools shrink the page inside the window
+    let devtoolsOpen = false;
+    const checkDevtools = () => {
+      const open =
+        window.outerWidth - window.innerWidth > DEVTOOLS_GAP_PX ||
+        window.outerHeight - window.innerHeight > DEVTOOLS_GAP_PX;
+      if (open && !devtoolsOpen) record("devtools", "Window size");
+      devtoolsOpen = open;
+    };
+
+    const screen = window.screen as ExtendedScreen;
+    const checkMonitors = () => {
+      if (screen.isExtended) record("multiple_monitors");
+    };
+
+    document.addEventListener("visibilitychange", handleVisibility);
+    document.addEventListener("fullscreenchange", handleFullscreen);
+    document.addEventListener("copy", handleCopy);
+    document.addEventListener("cut", handleCopy);
+    document.addEventListener("paste", handlePaste);
+    document.addEventListener("contextmenu", handleContextMenu);
+    document.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("blur", handleBlur);
+    screen.addEventListener?.("change", checkMonitors);
+    checkMonitors();
+    checkDevtools();
+    const devtoolsTimer = window.setInterval(checkDevtools, DEVTOOLS_CHECK_MS);
+    const flushTimer = window.setInterval(flush, FLUSH_INTERVAL_MS);
+
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibility);
+      document.removeEventListener("fullscreenchange", handleFullscreen);
+      document.removeEventListener("copy", handleCopy);
+      document.removeEventListener("cut", handleCopy);
+      document.removeEventListener("paste", handlePaste);
+      document.removeEventListener("contextmenu", handleContextMenu);
+      document.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("blur", handleBlur);
+      screen.removeEventListener?.("change", checkMonitors);
+      window.clearInterval(devtoolsTimer);
+      window.clearInterval(flushTimer);
+      flush();
+    };
+  }, [session, require_fullscreen, disable_copy_paste, disable_right_click, record, flush]);
+
+  return { record };
+}
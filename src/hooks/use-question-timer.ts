@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useRef } from "react";
+
+const storageKey = (sessionId: string) => `question-seconds:${sessionId}`;
+
+const readTotals = (sessionId: string): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(sessionId)) ?? "{}");
+  } catch {
+    return {};
+  }
+};
+
+// Running totals of the seconds each question has been on screen, kept in
+// localStorage so a reload or a resumed attempt carries on counting. Pass the
+// id of the question being shown, or null while none is.
+export function useQuestionTimer(sessionId: string | null, questionId: string | null) {
+  const totals = useRef<Record<string, number>>({});
+  const shownSince = useRef<number | null>(null);
+
+  useEffect(() => {
+    totals.current = sessionId ? readTotals(sessionId) : {};
+  }, [sessionId]);
+
+  // Adds the time since the question was shown to its total
+  const settle = useCallback(
+    (id: string | null) => {
+      if (!sessionId || !id || shownSince.current === null) return;
+
+      totals.current[id] = (totals.current[id] ?? 0) + (Date.now() - shownSince.current) / 1000;
+      shownSince.current = Date.now();
+      localStorage.setItem(storageKey(sessionId), JSON.stringify(totals.current));
+    },
+    [sessionId],
+  );
+
+  useEffect(() => {
+    shownSince.current = questionId ? Date.now() : null;
+    return () => settle(questionId);
+  }, [questionId, settle]);
+
+  // Totals including the question on screen right now
+  const secondsSpent = () => {
+    settle(questionId);
+    return { ...totals.current };
+  };
+
+  const clear = () => {
+    if (sessionId) localStorage.removeItem(storageKey(sessionId));
+    totals.current = {};
+  };
+
+  return { secondsSpent, clear };
+}
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { monitoringService } from "@/services/monitoringService";
+
+// getDisplayMedia options Chromium understands that the DOM types don't have
+// yet: offer whole screens, and no switching to a tab mid-share
+type ScreenShareOptions = DisplayMediaStreamOptions & {
+  monitorTypeSurfaces?: "include" | "exclude";
+  selfBrowserSurface?: "include" | "exclude";
+  surfaceSwitching?: "include" | "exclude";
+};
+
+const SCREEN_SHARE_OPTIONS: ScreenShareOptions = {
+  video: { displaySurface: "monitor" },
+  audio: false,
+  monitorTypeSurfaces: "include",
+  selfBrowserSurface: "exclude",
+  surfaceSwitching: "exclude",
+};
+
+// The candidate's entire screen, recorded through the monitoring service like
+// the camera. share() asks for it and rejects a window or a browser tab,
+// throwing an error to show the candidate. onStopped runs when the candidate
+// stops sharing, e.g. from the browser's sharing bar.
+export function useScreenShare(onStopped: () => void) {
+  const [sharing, setSharing] = useState(false);
+  const stopHandler = useRef(onStopped);
+  stopHandler.current = onStopped;
+  // Kept here, to stop on unmount, when monitoring is off and the service
+  // doesn't take the stream
+  const ownStream = useRef<MediaStream | null>(null);
+
+  const share = useCallback(async () => {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getDisplayMedia(SCREEN_SHARE_OPTIONS);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "NotAllowedError") {
+        throw new Error("Please allow screen sharing and choose your entire screen.");
+      }
+      throw error;
+    }
+    const [track] = stream.getVideoTracks();
+    if (track?.getSettings().displaySurface !== "monitor") {
+      stream.getTracks().forEach((t) => t.stop());
+      throw new Error("Share your entire screen, not a window or a browser tab.");
+    }
+
+    // Not fired when the stream is stopped by us
+    track.addEventListener("ended", () => {
+      setSharing(false);
+      stopHandler.current();
+    });
+
+    ownStream.current?.getTracks().forEach((t) => t.stop());
+    ownStream.current = monitoringService.sendStream(stream, "screen") ? null : stream;
+    setSharing(true);
+  }, []);
+
+  useEffect(
+    () => () => {
+      ownStream.current?.getTracks().forEach((t) => t.stop());
+    },
+    [],
+  );
+
+  return { sharing, share };
+}
@@ -9,7 +9,180 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      admin_users: {
+        Row: {
+          created_at: string
+          role: Database["public"]["Enums"]["admin_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          role: Database["public"]["Enums"]["admin_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: Database["public"]["Enums"]["admin_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
       batches: {
+        Row: {
+          created_at: string
+          description: string | null
+          grading_scheme_id: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          grading_scheme_id?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          grading_scheme_id?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batches_grading_scheme_id_fkey"
+            columns: ["grading_scheme_id"]
+            isOneToOne: false
+            referencedRelation: "grading_schemes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      candidate_access_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          expires_at: string | null
+          id: string
+          session_id: string | null
+          student_id: string
+          test_id: string
+          used_at: string | null
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          session_id?: string | null
+          student_id: string
+          test_id: string
+          used_at?: string | null
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          session_id?: string | null
+          student_id?: string
+          test_id?: string
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidate_access_codes_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "test_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_access_codes_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "candidate_access_codes_test_id_fkey"
+            columns: ["test_id"]
+            isOneToOne: false
+            referencedRelation: "tests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grading_schemes: {
+        Row: {
+          bands: Json
+          created_at: string
+          id: string
+          name: string
+          pass_mark: number
+          updated_at: string
+        }
+        Insert: {
+          bands?: Json
+          created_at?: string
+          id?: string
+          name: string
+          pass_mark?: number
+          updated_at?: string
+        }
+        Update: {
+          bands?: Json
+          created_at?: string
+          id?: string
+          name?: string
+          pass_mark?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      proctor_actions: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          message: string | null
+          minutes: number | null
+          performed_by: string | null
+          session_id: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          message?: string | null
+          minutes?: number | null
+          performed_by?: string | null
+          session_id: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          message?: string | null
+          minutes?: number | null
+          performed_by?: string | null
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proctor_actions_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "test_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_banks: {
         Row: {
           created_at: string
           description: string | null
@@ -35,39 +208,55 @@ export type Database = {
       }
       questions: {
         Row: {
+          bank_id: string | null
           batch_id: string | null
-          correct_answer: string
+          correct_answer: Json
           created_at: string
+          difficulty: Database["public"]["Enums"]["question_difficulty"] | null
           id: string
-          option_a: string
-          option_b: string
-          option_c: string
-          option_d: string
+          options: Json
           question_text: string
+          question_type: Database["public"]["Enums"]["question_type"]
+          search_vector: unknown
+          tags: string[]
+          updated_at: string
         }
         Insert: {
+          bank_id?: string | null
           batch_id?: string | null
-          correct_answer: string
+          correct_answer: Json
           created_at?: string
+          difficulty?: Database["public"]["Enums"]["question_difficulty"] | null
           id?: string
-          option_a: string
-          option_b: string
-          option_c: string
-          option_d: string
+          options?: Json
           question_text: string
+          question_type?: Database["public"]["Enums"]["question_type"]
+          search_vector?: never
+          tags?: string[]
+          updated_at?: string
         }
         Update: {
+          bank_id?: string | null
           batch_id?: string | null
-          correct_answer?: string
+          correct_answer?: Json
           created_at?: string
+          difficulty?: Database["public"]["Enums"]["question_difficulty"] | null
           id?: string
-          option_a?: string
-          option_b?: string
-          option_c?: string
-          option_d?: string
+          options?: Json
           question_text?: string
+          question_type?: Database["public"]["Enums"]["question_type"]
+          search_vector?: never
+          tags?: string[]
+          updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "questions_bank_id_fkey"
+            columns: ["bank_id"]
+            isOneToOne: false
+            referencedRelation: "question_banks"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "questions_batch_id_fkey"
             columns: ["batch_id"]
@@ -77,6 +266,205 @@ export type Database = {
           },
         ]
       }
+      regrade_changes: {
+        Row: {
+          created_at: string
+          id: string
+          new_max_score: number
+          new_passed: boolean
+          new_raw_score: number
+          new_total_score: number
+          notified_at: string | null
+          old_max_score: number | null
+          old_passed: boolean
+          old_raw_score: number | null
+          old_total_score: number | null
+          run_id: string
+          session_id: string
+          student_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          new_max_score: number
+          new_passed: boolean
+          new_raw_score: number
+          new_total_score: number
+          notified_at?: string | null
+          old_max_score?: number | null
+          old_passed: boolean
+          old_raw_score?: number | null
+          old_total_score?: number | null
+          run_id: string
+          session_id: string
+          student_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          new_max_score?: number
+          new_passed?: boolean
+          new_raw_score?: number
+          new_total_score?: number
+          notified_at?: string | null
+          old_max_score?: number | null
+          old_passed?: boolean
+          old_raw_score?: number | null
+          old_total_score?: number | null
+          run_id?: string
+          session_id?: string
+          student_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "regrade_changes_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "regrade_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "regrade_changes_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "test_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "regrade_changes_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      regrade_runs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          id: string
+          notify_candidates: boolean
+          reason: string
+          requested_by: string | null
+          sessions_regraded: number
+          status: string
+          test_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          notify_candidates?: boolean
+          reason: string
+          requested_by?: string | null
+          sessions_regraded?: number
+          status?: string
+          test_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          notify_candidates?: boolean
+          reason?: string
+          requested_by?: string | null
+          sessions_regraded?: number
+          status?: string
+          test_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "regrade_runs_test_id_fkey"
+            columns: ["test_id"]
+            isOneToOne: false
+            referencedRelation: "tests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_recordings: {
+        Row: {
+          bytes: number
+          chunks: number
+          id: string
+          kind: string
+          last_chunk_at: string | null
+          mime_type: string
+          path: string
+          session_id: string
+          started_at: string
+        }
+        Insert: {
+          bytes?: number
+          chunks?: number
+          id?: string
+          kind: string
+          last_chunk_at?: string | null
+          mime_type: string
+          path: string
+          session_id: string
+          started_at?: string
+        }
+        Update: {
+          bytes?: number
+          chunks?: number
+          id?: string
+          kind?: string
+          last_chunk_at?: string | null
+          mime_type?: string
+          path?: string
+          session_id?: string
+          started_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_recordings_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "test_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_violations: {
+        Row: {
+          detail: string | null
+          id: string
+          kind: string
+          occurred_at: string
+          recorded_at: string
+          session_id: string
+        }
+        Insert: {
+          detail?: string | null
+          id?: string
+          kind: string
+          occurred_at: string
+          recorded_at?: string
+          session_id: string
+        }
+        Update: {
+          detail?: string | null
+          id?: string
+          kind?: string
+          occurred_at?: string
+          recorded_at?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_violations_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "test_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       students: {
         Row: {
           batch_id: string | null
@@ -85,7 +473,6 @@ export type Database = {
           has_taken_test: boolean | null
           id: string
           name: string
-          password: string
         }
         Insert: {
           batch_id?: string | null
@@ -94,7 +481,6 @@ export type Database = {
           has_taken_test?: boolean | null
           id?: string
           name: string
-          password: string
         }
         Update: {
           batch_id?: string | null
@@ -103,7 +489,6 @@ export type Database = {
           has_taken_test?: boolean | null
           id?: string
           name?: string
-          password?: string
         }
         Relationships: [
           {
@@ -115,31 +500,239 @@ export type Database = {
           },
         ]
       }
+      test_blueprint_rules: {
+        Row: {
+          bank_id: string | null
+          created_at: string
+          difficulty: Database["public"]["Enums"]["question_difficulty"] | null
+          id: string
+          points: number
+          position: number
+          question_count: number
+          section_id: string | null
+          tag: string | null
+          test_id: string
+        }
+        Insert: {
+          bank_id?: string | null
+          created_at?: string
+          difficulty?: Database["public"]["Enums"]["question_difficulty"] | null
+          id?: string
+          points?: number
+          position?: number
+          question_count: number
+          section_id?: string | null
+          tag?: string | null
+          test_id: string
+        }
+        Update: {
+          bank_id?: string | null
+          created_at?: string
+          difficulty?: Database["public"]["Enums"]["question_difficulty"] | null
+          id?: string
+          points?: number
+          position?: number
+          question_count?: number
+          section_id?: string | null
+          tag?: string | null
+          test_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_blueprint_rules_bank_id_fkey"
+            columns: ["bank_id"]
+            isOneToOne: false
+            referencedRelation: "question_banks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_blueprint_rules_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "test_sections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_blueprint_rules_test_id_fkey"
+            columns: ["test_id"]
+            isOneToOne: false
+            referencedRelation: "tests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_questions: {
+        Row: {
+          created_at: string
+          id: string
+          points: number
+          position: number
+          question_id: string
+          section_id: string | null
+          test_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          points?: number
+          position?: number
+          question_id: string
+          section_id?: string | null
+          test_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          points?: number
+          position?: number
+          question_id?: string
+          section_id?: string | null
+          test_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_questions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_questions_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "test_sections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "test_questions_test_id_fkey"
+            columns: ["test_id"]
+            isOneToOne: false
+            referencedRelation: "tests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      test_sections: {
+        Row: {
+          created_at: string
+          duration_minutes: number | null
+          id: string
+          position: number
+          question_count: number | null
+          test_id: string
+          title: string
+        }
+        Insert: {
+          created_at?: string
+          duration_minutes?: number | null
+          id?: string
+          position?: number
+          question_count?: number | null
+          test_id: string
+          title: string
+        }
+        Update: {
+          created_at?: string
+          duration_minutes?: number | null
+          id?: string
+          position?: number
+          question_count?: number | null
+          test_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_sections_test_id_fkey"
+            columns: ["test_id"]
+            isOneToOne: false
+            referencedRelation: "tests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       test_sessions: {
         Row: {
+          auto_submitted: boolean
           completed_at: string | null
+          extra_seconds: number
+          graded_at: string | null
           id: string
+          max_score: number | null
+          option_orders: Json | null
+          pause_reason: string | null
+          paused_at: string | null
+          question_order: string[] | null
+          question_points: Json | null
+          question_seconds: Json | null
+          raw_score: number | null
+          section_index: number
+          section_layout: Json | null
+          section_scores: Json | null
+          section_started_at: string | null
           started_at: string | null
           student_id: string | null
+          terminated_at: string | null
+          terminated_by: string | null
+          termination_reason: string | null
           test_id: string | null
+          timed_out: boolean
           total_questions: number | null
           total_score: number | null
         }
         Insert: {
+          auto_submitted?: boolean
           completed_at?: string | null
+          extra_seconds?: number
+          graded_at?: string | null
           id?: string
+          max_score?: number | null
+          option_orders?: Json | null
+          pause_reason?: string | null
+          paused_at?: string | null
+          question_order?: string[] | null
+          question_points?: Json | null
+          question_seconds?: Json | null
+          raw_score?: number | null
+          section_index?: number
+          section_layout?: Json | null
+          section_scores?: Json | null
+          section_started_at?: string | null
           started_at?: string | null
           student_id?: string | null
+          terminated_at?: string | null
+          terminated_by?: string | null
+          termination_reason?: string | null
           test_id?: string | null
+          timed_out?: boolean
           total_questions?: number | null
           total_score?: number | null
         }
         Update: {
+          auto_submitted?: boolean
           completed_at?: string | null
+          extra_seconds?: number
+          graded_at?: string | null
           id?: string
+          max_score?: number | null
+          option_orders?: Json | null
+          pause_reason?: string | null
+          paused_at?: string | null
+          question_order?: string[] | null
+          question_points?: Json | null
+          question_seconds?: Json | null
+          raw_score?: number | null
+          section_index?: number
+          section_layout?: Json | null
+          section_scores?: Json | null
+          section_started_at?: string | null
           started_at?: string | null
           student_id?: string | null
+          terminated_at?: string | null
+          terminated_by?: string | null
+          termination_reason?: string | null
           test_id?: string | null
+          timed_out?: boolean
           total_questions?: number | null
           total_score?: number | null
         }
@@ -163,24 +756,36 @@ export type Database = {
       test_submissions: {
         Row: {
           id: string
+          is_correct: boolean | null
           question_id: string | null
-          selected_answer: string | null
+          response: Json | null
+          saved_at: string
+          score: number | null
+          session_id: string | null
           student_id: string | null
           submitted_at: string | null
           test_id: string | null
         }
         Insert: {
           id?: string
+          is_correct?: boolean | null
           question_id?: string | null
-          selected_answer?: string | null
+          response?: Json | null
+          saved_at?: string
+          score?: number | null
+          session_id?: string | null
           student_id?: string | null
           submitted_at?: string | null
           test_id?: string | null
         }
         Update: {
           id?: string
+          is_correct?: boolean | null
           question_id?: string | null
-          selected_answer?: string | null
+          response?: Json | null
+          saved_at?: string
+          score?: number | null
+          session_id?: string | null
           student_id?: string | null
           submitted_at?: string | null
           test_id?: string | null
@@ -193,6 +798,13 @@ export type Database = {
             referencedRelation: "questions"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "test_submissions_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "test_sessions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "test_submissions_student_id_fkey"
             columns: ["student_id"]
@@ -215,30 +827,60 @@ export type Database = {
           created_at: string
           duration_minutes: number
           end_time: string | null
+          grace_period_seconds: number
+          grading_scheme_id: string | null
           id: string
           is_active: boolean | null
+          partial_credit: boolean
+          security_policy: Json
+          shuffle_options: boolean
+          shuffle_questions: boolean
           start_time: string | null
           title: string
+          violation_submit_threshold: number | null
+          violation_warn_threshold: number | null
+          voided_question_ids: string[]
+          wrong_answer_penalty: number
         }
         Insert: {
           batch_id?: string | null
           created_at?: string
           duration_minutes?: number
           end_time?: string | null
+          grace_period_seconds?: number
+          grading_scheme_id?: string | null
           id?: string
           is_active?: boolean | null
+          partial_credit?: boolean
+          security_policy?: Json
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
           start_time?: string | null
           title: string
+          violation_submit_threshold?: number | null
+          violation_warn_threshold?: number | null
+          voided_question_ids?: string[]
+          wrong_answer_penalty?: number
         }
         Update: {
           batch_id?: string | null
           created_at?: string
           duration_minutes?: number
           end_time?: string | null
+          grace_period_seconds?: number
+          grading_scheme_id?: string | null
           id?: string
           is_active?: boolean | null
+          partial_credit?: boolean
+          security_policy?: Json
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
           start_time?: string | null
           title?: string
+          violation_submit_threshold?: number | null
+          violation_warn_threshold?: number | null
+          voided_question_ids?: string[]
+          wrong_answer_penalty?: number
         }
         Relationships: [
           {
@@ -248,6 +890,13 @@ export type Database = {
             referencedRelation: "batches"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tests_grading_scheme_id_fkey"
+            columns: ["grading_scheme_id"]
+            isOneToOne: false
+            referencedRelation: "grading_schemes"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -255,10 +904,37 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      apply_session_regrade: {
+        Args: { session_id: string; scores: Json; change: Json }
+        Returns: undefined
+      }
+      batch_questions: {
+        Args: { batch: string }
+        Returns: Database["public"]["Tables"]["questions"]["Row"][]
+      }
+      has_admin_role: {
+        Args: { roles: Database["public"]["Enums"]["admin_role"][] }
+        Returns: boolean
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      issue_access_codes: {
+        Args: { test: string; expires: string | null; codes: Json }
+        Returns: string[]
+      }
     }
     Enums: {
-      [_ in never]: never
+      admin_role: "owner" | "test_author" | "proctor" | "grader"
+      question_difficulty: "easy" | "medium" | "hard"
+      question_type:
+        | "single_choice"
+        | "multiple_select"
+        | "true_false"
+        | "numeric"
+        | "short_text"
+        | "ordering"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -373,6 +1049,17 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      admin_role: ["owner", "test_author", "proctor", "grader"],
+      question_difficulty: ["easy", "medium", "hard"],
+      question_type: [
+        "single_choice",
+        "multiple_select",
+        "true_false",
+        "numeric",
+        "short_text",
+        "ordering",
+      ],
+    },
   },
 } as const
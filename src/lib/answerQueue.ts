@@ -0,0 +1,78 @@
+// Offline queue for autosaved answers. Every change is written to IndexedDB
+// before it is sent, so it survives a closed tab or a dropped connection,
+// and is removed once the server has it.
+import type { QuestionResponse } from "@/lib/questionTypes";
+
+const DB_NAME = "exam-autosave";
+const DB_VERSION = 1;
+const STORE = "pendingAnswers";
+
+export interface PendingAnswer {
+  sessionId: string;
+  questionId: string;
+  // null clears the saved answer
+  response: QuestionResponse | null;
+  // Changes on every edit, so a flush never drops a newer one
+  version: number;
+}
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: ["sessionId", "questionId"] });
+      store.createIndex("sessionId", "sessionId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs work against the store in one transaction and resolves once it commits
+const withStore = async <T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => () => T) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const result = work(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(result());
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const enqueueAnswer = (answer: PendingAnswer) =>
+  withStore("readwrite", (store) => {
+    store.put(answer);
+    return () => undefined;
+  });
+
+export const getPendingAnswers = (sessionId: string) =>
+  withStore("readonly", (store) => {
+    const request = store.index("sessionId").getAll(sessionId);
+    return () => request.result as PendingAnswer[];
+  });
+
+// Drops flushed answers, keeping any that were edited again in the meantime
+export const removePendingAnswers = (answers: PendingAnswer[]) =>
+  withStore("readwrite", (store) => {
+    for (const answer of answers) {
+      const key = [answer.sessionId, answer.questionId];
+      const request = store.get(key);
+      request.onsuccess = () => {
+        if ((request.result as PendingAnswer | undefined)?.version === answer.version) {
+          store.delete(key);
+        }
+      };
+    }
+    return () => undefined;
+  });
+
+export const clearPendingAnswers = (sessionId: string) =>
+  withStore("readwrite", (store) => {
+    const request = store.index("sessionId").getAllKeys(sessionId);
+    request.onsuccess = () => request.result.forEach((key) => store.delete(key));
+    return () => undefined;
+  });
@@ -11,11 +11,11 @@ const PUBLIC_KEY = 'TAhXwxu554TVdK-Xg';
 // Add delay between requests to avoid rate limiting
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-interface Student {
+interface CandidateInvite {
   id: string;
   name: string;
   email: string;
-  password: string;
+  access_code: string;
 }
 
 interface EmailResult {
@@ -23,7 +23,7 @@ interface EmailResult {
   error?: string;
 }
 
-export const sendTestEmails = async (students: any[], testLink: string) => {
+export const sendTestEmails = async (students: CandidateInvite[], testLink: string) => {
   const failedEmails: string[] = [];
   const successEmails: string[] = [];
 
@@ -47,7 +47,7 @@ export const sendTestEmails = async (students: any[], testLink: string) => {
         TEMPLATE_ID,
         {
           email: student.email.trim(),
-          otp: student.password,
+          otp: student.access_code,
           company_name: "Quiz Wizard",
           test_link: testLink
         }
@@ -69,4 +69,63 @@ export const sendTestEmails = async (students: any[], testLink: string) => {
     failedEmails,
     successEmails,
   };
-};
\ No newline at end of file
+};
+
+// Template for result changes, set up in EmailJS next to the invite one. It
+// takes email, name, test_title, result, score and company_name.
+const RESULT_UPDATE_TEMPLATE_ID = 'template_result_update';
+
+export interface ResultUpdate {
+  name: string;
+  email: string;
+  test_title: string;
+  passed: boolean;
+  // Percentage after the regrade
+  percentage: number;
+}
+
+// Tells candidates that a regrade changed whether they passed
+export const sendResultUpdateEmails = async (updates: ResultUpdate[]) => {
+  const failedEmails: string[] = [];
+  const successEmails: string[] = [];
+
+  for (const update of updates) {
+    try {
+      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      if (!emailRegex.test(update.email)) {
+        console.error(`Invalid email format: ${update.email}`);
+        failedEmails.push(update.email);
+        continue;
+      }
+
+      emailjs.init(PUBLIC_KEY);
+
+      await emailjs.send(
+        SERVICE_ID,
+        RESULT_UPDATE_TEMPLATE_ID,
+        {
+          email: update.email.trim(),
+          name: update.name,
+          test_title: update.test_title,
+          result: update.passed ? "Passed" : "Not passed",
+          score: `${update.percentage}%`,
+          company_name: "Quiz Wizard",
+        }
+      );
+
+      successEmails.push(update.email);
+      await delay(500);
+    } catch (error) {
+      console.error(`Failed to send result update to ${update.email}:`, error);
+      failedEmails.push(update.email);
+    }
+  }
+
+  return {
+    success: failedEmails.length === 0,
+    successCount: successEmails.length,
+    failedCount: failedEmails.length,
+    failedEmails,
+    successEmails,
+  };
+};
@@ -0,0 +1,195 @@
+// Candidate-facing exam calls. Anything that touches the answer key or the
+// score goes through an edge function; the browser only sends answers.
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { CandidateQuestion, QuestionResponse } from "@/lib/questionTypes";
+import type { IntegrityOutcome, Violation } from "@/lib/integrity";
+import type { SecurityPolicy } from "@/lib/securityPolicy";
+
+const CANDIDATE_SESSION_KEY = "candidateSession";
+const CANDIDATE_TOKEN_HEADER = "x-candidate-token";
+
+export interface CandidateSession {
+  token: string;
+  sessionId: string;
+  studentName: string;
+  testId: string;
+  expiresAt: string;
+}
+
+export interface ExamSection {
+  title: string;
+  duration_minutes: number | null;
+  question_count: number;
+}
+
+// The session's paper, already in its shuffled order. Option ids are the
+// presented labels, which is also what submitTest expects back.
+export interface ExamPaper {
+  test: {
+    title: string;
+    duration_minutes: number;
+    // Setup steps and restrictions for the exam page
+    security_policy: SecurityPolicy;
+  };
+  questions: CandidateQuestion[];
+  // Answers autosaved so far, for resuming an interrupted attempt
+  answers: Record<string, QuestionResponse>;
+  // Server timestamps; count down from deadline - server_time, never from
+  // the local clock. On a sectioned paper the deadline is the current
+  // section's.
+  deadline: string;
+  server_time: string;
+  // Empty for an unsectioned test. Only the current section's questions
+  // and answers are served; earlier sections are closed for good.
+  sections: ExamSection[];
+  current_section: number | null;
+  // The session is paused; answers are not accepted until it is resumed
+  paused: boolean;
+  // Who paused it. A proctor's pause stops the clock; a screen_share pause,
+  // from the candidate stopping their screen share, leaves it running.
+  pause_reason: "proctor" | "screen_share" | null;
+  // A longer-lived token, once added time or a pause has outlasted the
+  // current one
+  renewed_token: { token: string; expires_at: string } | null;
+}
+
+export interface ViolationReport {
+  // Violations recorded for the session so far
+  total: number;
+  outcome: IntegrityOutcome;
+  warn_threshold: number | null;
+  submit_threshold: number | null;
+}
+
+export interface SubmitTestResult {
+  completed_at: string;
+  timed_out: boolean;
+}
+
+// Status the edge functions answer with once the session's time has run out
+const TIME_EXPIRED_STATUS = 410;
+// Status for requests made while the session is paused
+const SESSION_PAUSED_STATUS = 423;
+
+// Carries the edge function's status so callers can tell a closed session
+// from a network failure
+export class ExamServiceError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+  }
+}
+
+// The server closed the session because its deadline passed
+export const isTimeExpired = (error: unknown) =>
+  error instanceof ExamServiceError && error.status === TIME_EXPIRED_STATUS;
+
+// The session is paused
+export const isSessionPaused = (error: unknown) =>
+  error instanceof ExamServiceError && error.status === SESSION_PAUSED_STATUS;
+
+export const saveCandidateSession = (session: CandidateSession) => {
+  sessionStorage.setItem(CANDIDATE_SESSION_KEY, JSON.stringify(session));
+};
+
+// Returns the stored session, optionally only if it belongs to the given test
+export const getCandidateSession = (testId?: string): CandidateSession | null => {
+  const stored = sessionStorage.getItem(CANDIDATE_SESSION_KEY);
+  if (!stored) return null;
+
+  const session = JSON.parse(stored) as CandidateSession;
+  if (testId && session.testId !== testId) return null;
+  if (new Date(session.expiresAt) < new Date()) return null;
+  return session;
+};
+
+export const clearCandidateSession = () => {
+  sessionStorage.removeItem(CANDIDATE_SESSION_KEY);
+};
+
+// The session's latest token: the stored one once exam-paper has renewed it
+export const candidateToken = (session: CandidateSession) => {
+  const stored = getCandidateSession(session.testId);
+  return stored?.sessionId === session.sessionId ? stored.token : session.token;
+};
+
+// Invokes an edge function and surfaces its error message and status instead
+// of the generic "non-2xx status code" one
+const invokeFunction = async <T>(name: string, body: unknown, token?: string) => {
+  const { data, error } = await supabase.functions.invoke<T>(name, {
+    body,
+    headers: token ? { [CANDIDATE_TOKEN_HEADER]: token } : undefined,
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      throw new ExamServiceError(details?.error || error.message, error.context.status);
+    }
+    throw error;
+  }
+  return data as T;
+};
+
+export const candidateLogin = async (testId: string, email: string, accessCode: string) => {
+  const session = await invokeFunction<Omit<CandidateSession, "testId">>("candidate-login", {
+    testId,
+    email,
+    accessCode,
+  });
+
+  const candidateSession = { ...session, testId };
+  saveCandidateSession(candidateSession);
+  return candidateSession;
+};
+
+export const fetchExamPaper = async (session: CandidateSession) => {
+  const paper = await invokeFunction<ExamPaper>("exam-paper", {}, candidateToken(session));
+  if (paper.renewed_token) {
+    saveCandidateSession({
+      ...session,
+      token: paper.renewed_token.token,
+      expiresAt: paper.renewed_token.expires_at,
+    });
+  }
+  return paper;
+};
+
+// Upserts answers as the candidate works; null clears a saved answer
+export const saveAnswers = async (session: CandidateSession, answers: Record<string, QuestionResponse | null>) =>
+  invokeFunction<{ saved_at: string }>("save-answer", { answers }, candidateToken(session));
+
+// Closes the current section with its answers and moves on to the next.
+// questionSeconds are the running totals of time spent per question.
+export const finishSection = async (
+  session: CandidateSession,
+  section: number,
+  answers: Record<string, QuestionResponse | null>,
+  questionSeconds: Record<string, number>,
+) =>
+  invokeFunction<{ section_index: number }>(
+    "next-section",
+    { section, answers, question_seconds: questionSeconds },
+    candidateToken(session),
+  );
+
+export const submitTest = async (
+  session: CandidateSession,
+  answers: Record<string, QuestionResponse | null>,
+  questionSeconds: Record<string, number>,
+) =>
+  invokeFunction<SubmitTestResult>(
+    "submit-test",
+    { answers, question_seconds: questionSeconds },
+    candidateToken(session),
+  );
+
+// Records integrity violations caught on the exam page
+export const reportViolations = async (session: CandidateSession, violations: Violation[]) =>
+  invokeFunction<ViolationReport>("record-violations", { violations }, candidateToken(session));
+
+// Reports the candidate's screen share stopping or starting again. The
+// server pauses the session when it stops and resumes a pause it caused
+// when it starts.
+export const reportScreenShare = async (session: CandidateSession, sharing: boolean) =>
+  invokeFunction<{ paused: boolean }>("screen-share", { sharing }, candidateToken(session));
@@ -0,0 +1,32 @@
+// Loading grading schemes; the rules for applying them are in
+// gradingSchemes.ts
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_GRADING_SCHEME, GradingScheme, toGradingScheme } from "@/lib/gradingSchemes";
+
+// Every saved scheme, for the pickers on tests and batches
+export const fetchGradingSchemes = async (): Promise<GradingScheme[]> => {
+  const { data, error } = await supabase
+    .from("grading_schemes")
+    .select("id, name, pass_mark, bands")
+    .order("name");
+
+  if (error) throw error;
+  return (data || []).map(toGradingScheme);
+};
+
+// The scheme the test's results are graded with
+export const fetchTestGradingScheme = async (testId: string): Promise<GradingScheme> => {
+  const { data, error } = await supabase
+    .from("tests")
+    .select(`
+      grading_scheme:grading_schemes(id, name, pass_mark, bands),
+      batch:batches(grading_scheme:grading_schemes(id, name, pass_mark, bands))
+    `)
+    .eq("id", testId)
+    .single();
+
+  if (error) throw error;
+
+  const row = data.grading_scheme ?? data.batch?.grading_scheme;
+  return row ? toGradingScheme(row) : DEFAULT_GRADING_SCHEME;
+};
@@ -0,0 +1,86 @@
+// Grading schemes: the pass mark and grade bands results are reported with.
+// A test uses its own scheme, else its batch's, else DEFAULT_GRADING_SCHEME.
+// This module has no imports so the regrade edge function can share it; the
+// queries are in gradingSchemeService.ts.
+
+export type GradeTone = "green" | "blue" | "yellow" | "orange" | "red";
+
+// Type alias rather than an interface so bands stay assignable to the
+// generated Json type
+export type GradeBand = {
+  label: string;
+  // Lowest percentage that earns this grade
+  min_percentage: number;
+  tone: GradeTone;
+};
+
+export interface GradingScheme {
+  // Null for the built-in scheme
+  id: string | null;
+  name: string;
+  // Percentage needed to pass
+  pass_mark: number;
+  bands: GradeBand[];
+}
+
+export const GRADE_TONES: GradeTone[] = ["green", "blue", "yellow", "orange", "red"];
+
+export const GRADE_TONE_CLASSES: Record<GradeTone, string> = {
+  green: "bg-green-100 text-green-800",
+  blue: "bg-blue-100 text-blue-800",
+  yellow: "bg-yellow-100 text-yellow-800",
+  orange: "bg-orange-100 text-orange-800",
+  red: "bg-red-100 text-red-800",
+};
+
+// What results used before schemes were configurable
+export const DEFAULT_GRADING_SCHEME: GradingScheme = {
+  id: null,
+  name: "Standard",
+  pass_mark: 60,
+  bands: [
+    { label: "A+", min_percentage: 90, tone: "green" },
+    { label: "A", min_percentage: 80, tone: "blue" },
+    { label: "B", min_percentage: 70, tone: "yellow" },
+    { label: "C", min_percentage: 60, tone: "orange" },
+    { label: "F", min_percentage: 0, tone: "red" },
+  ],
+};
+
+// Highest threshold first, the order grades are looked up in
+export const sortBands = (bands: GradeBand[]) =>
+  [...bands].sort((a, b) => b.min_percentage - a.min_percentage);
+
+// The lowest band also catches anything below its threshold
+export const gradeFor = (scheme: GradingScheme, percentage: number): GradeBand => {
+  const bands = sortBands(scheme.bands);
+  return (
+    bands.find((band) => percentage >= band.min_percentage) ??
+    bands[bands.length - 1] ?? { label: "—", min_percentage: 0, tone: "red" }
+  );
+};
+
+export const isPassing = (scheme: Pick<GradingScheme, "pass_mark">, percentage: number) =>
+  percentage >= scheme.pass_mark;
+
+export const toGradingScheme = (row: { id: string; name: string; pass_mark: number; bands: unknown }): GradingScheme => ({
+  id: row.id,
+  name: row.name,
+  pass_mark: Number(row.pass_mark),
+  bands: sortBands((row.bands as GradeBand[]) ?? []),
+});
+
+// Returns a description of the first problem with the scheme, or null when
+// it can be saved
+export const validateGradingScheme = (scheme: Omit<GradingScheme, "id">): string | null => {
+  if (!scheme.name.trim()) return "Give the scheme a name";
+  if (!(scheme.pass_mark >= 0 && scheme.pass_mark <= 100)) return "The pass mark must be between 0 and 100";
+  if (scheme.bands.length === 0) return "Add at least one grade";
+  if (scheme.bands.some((band) => !band.label.trim())) return "Every grade needs a label";
+  if (scheme.bands.some((band) => !(band.min_percentage >= 0 && band.min_percentage <= 100))) {
+    return "Grade thresholds must be between 0 and 100";
+  }
+  const thresholds = new Set(scheme.bands.map((band) => band.min_percentage));
+  if (thresholds.size !== scheme.bands.length) return "Two grades can't start at the same percentage";
+  return null;
+};
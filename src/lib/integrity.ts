@@ -0,0 +1,60 @@
+// Integrity violations recorded while a candidate takes a test, and the
+// per-test thresholds that act on them. Import-free so the record-violations
+// edge function applies the same rules.
+
+// Mirrors the check on session_violations.kind
+export type ViolationKind =
+  | "tab_hidden"
+  | "window_blur"
+  | "fullscreen_exit"
+  | "copy"
+  | "paste"
+  | "right_click"
+  | "devtools"
+  | "multiple_monitors"
+  | "screen_share_stopped";
+
+export const VIOLATION_KINDS: ViolationKind[] = [
+  "tab_hidden",
+  "window_blur",
+  "fullscreen_exit",
+  "copy",
+  "paste",
+  "right_click",
+  "devtools",
+  "multiple_monitors",
+  "screen_share_stopped",
+];
+
+export const VIOLATION_LABELS: Record<ViolationKind, string> = {
+  tab_hidden: "Switched tab",
+  window_blur: "Left the window",
+  fullscreen_exit: "Left fullscreen",
+  copy: "Copy attempt",
+  paste: "Paste attempt",
+  right_click: "Right-click",
+  devtools: "Developer tools",
+  multiple_monitors: "Multiple monitors",
+  screen_share_stopped: "Stopped screen sharing",
+};
+
+export interface Violation {
+  kind: ViolationKind;
+  // ISO timestamp from the candidate's browser
+  occurred_at: string;
+  detail?: string;
+}
+
+export interface ViolationThresholds {
+  violation_warn_threshold: number | null;
+  violation_submit_threshold: number | null;
+}
+
+// What the exam page does once the session has this many violations
+export type IntegrityOutcome = "none" | "warn" | "submit";
+
+export const integrityOutcome = (total: number, thresholds: ViolationThresholds): IntegrityOutcome => {
+  if (thresholds.violation_submit_threshold && total >= thresholds.violation_submit_threshold) return "submit";
+  if (thresholds.violation_warn_threshold && total >= thresholds.violation_warn_threshold) return "warn";
+  return "none";
+};
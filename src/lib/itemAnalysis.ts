@@ -0,0 +1,193 @@
+// Item analysis: how each question of a test performed across the graded
+// sessions, to find questions that are ambiguous, mis-keyed or carry
+// distractors nobody picks. Built from test_submissions and the sessions'
+// papers; fetching is left to the caller.
+import { QuestionOption, QuestionType, TRUE_FALSE_OPTIONS } from "@/lib/questionTypes";
+
+// Fewest sessions for the quartile comparison to say anything
+export const MIN_SESSIONS_FOR_DISCRIMINATION = 8;
+
+export interface AnalyzedSession {
+  id: string;
+  total_score: number;
+  max_score: number;
+  // Questions the candidate was served; null for sessions created before
+  // papers were recorded
+  question_order: string[] | null;
+  // Seconds spent per question id, as recorded by submit-test
+  question_seconds: unknown;
+}
+
+export interface AnalyzedSubmission {
+  session_id: string;
+  question_id: string;
+  response: unknown;
+  is_correct: boolean | null;
+}
+
+export interface AnalyzedQuestion {
+  id: string;
+  question_text: string;
+  question_type: QuestionType;
+  options: unknown;
+  correct_answer: unknown;
+}
+
+export interface OptionChoice {
+  option: QuestionOption;
+  is_key: boolean;
+  // Sessions that chose the option, out of those served the question
+  count: number;
+  percentage: number;
+}
+
+export type ItemFlag =
+  | "too_hard"
+  | "too_easy"
+  | "negative_discrimination"
+  | "low_discrimination"
+  | "distractor_beats_key"
+  | "unused_distractor";
+
+export interface ItemStats {
+  question: AnalyzedQuestion;
+  // Sessions that were served the question
+  served: number;
+  answered: number;
+  // Difficulty index: percentage of served candidates who answered fully
+  // correctly
+  difficulty: number;
+  // Share correct in the top quartile minus the bottom quartile, -1 to 1;
+  // null with too few sessions
+  discrimination: number | null;
+  // Choice questions only
+  choices: OptionChoice[] | null;
+  // Mean over the sessions that recorded time on the question
+  average_seconds: number | null;
+  flags: ItemFlag[];
+}
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  too_hard: "Very hard",
+  too_easy: "Very easy",
+  negative_discrimination: "Weaker candidates do better; check the key",
+  low_discrimination: "Doesn't separate strong and weak candidates",
+  distractor_beats_key: "A distractor is chosen more than the key",
+  unused_distractor: "Unused distractor",
+};
+
+const choiceOptions = (question: AnalyzedQuestion) => {
+  if (question.question_type === "true_false") return TRUE_FALSE_OPTIONS;
+  if (question.question_type === "single_choice" || question.question_type === "multiple_select") {
+    return (question.options as QuestionOption[]) ?? [];
+  }
+  return null;
+};
+
+const keyOptionIds = (question: AnalyzedQuestion) => {
+  const key = question.correct_answer;
+  return new Set((Array.isArray(key) ? key : [key]).map(String));
+};
+
+const chosenOptionIds = (response: unknown) =>
+  response === null || response === undefined ? [] : (Array.isArray(response) ? response : [response]).map(String);
+
+const average = (values: number[]) =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const flagsFor = (stats: Omit<ItemStats, "flags">): ItemFlag[] => {
+  const flags: ItemFlag[] = [];
+  if (stats.served === 0) return flags;
+
+  if (stats.difficulty < 20) flags.push("too_hard");
+  if (stats.difficulty > 95) flags.push("too_easy");
+  if (stats.discrimination !== null && stats.discrimination < 0) flags.push("negative_discrimination");
+  else if (stats.discrimination !== null && stats.discrimination < 0.2) flags.push("low_discrimination");
+
+  if (stats.choices) {
+    const keyCount = Math.max(0, ...stats.choices.filter((choice) => choice.is_key).map((choice) => choice.count));
+    const distractors = stats.choices.filter((choice) => !choice.is_key);
+    if (distractors.some((choice) => choice.count > keyCount)) flags.push("distractor_beats_key");
+    if (stats.question.question_type !== "true_false" && distractors.some((choice) => choice.count === 0)) {
+      flags.push("unused_distractor");
+    }
+  }
+  return flags;
+};
+
+// Statistics per question, in the order the questions are given
+export const analyzeItems = (
+  questions: AnalyzedQuestion[],
+  sessions: AnalyzedSession[],
+  submissions: AnalyzedSubmission[],
+): ItemStats[] => {
+  const bySession = new Map<string, Map<string, AnalyzedSubmission>>();
+  for (const submission of submissions) {
+    const answers = bySession.get(submission.session_id) ?? new Map<string, AnalyzedSubmission>();
+    answers.set(submission.question_id, submission);
+    bySession.set(submission.session_id, answers);
+  }
+
+  // Quartiles by overall percentage
+  const ranked = [...sessions].sort(
+    (a, b) => a.total_score / (a.max_score || 1) - b.total_score / (b.max_score || 1),
+  );
+  const quartileSize = Math.floor(ranked.length / 4);
+  const bottom = ranked.slice(0, quartileSize);
+  const top = ranked.slice(ranked.length - quartileSize);
+
+  const wasServed = (session: AnalyzedSession, questionId: string) =>
+    session.question_order ? session.question_order.includes(questionId) : !!bySession.get(session.id)?.has(questionId);
+  const isCorrect = (session: AnalyzedSession, questionId: string) =>
+    bySession.get(session.id)?.get(questionId)?.is_correct === true;
+  const shareCorrect = (group: AnalyzedSession[], questionId: string) => {
+    const served = group.filter((session) => wasServed(session, questionId));
+    return served.length ? served.filter((session) => isCorrect(session, questionId)).length / served.length : null;
+  };
+
+  return questions.map((question) => {
+    const served = sessions.filter((session) => wasServed(session, question.id));
+    const responses = served
+      .map((session) => bySession.get(session.id)?.get(question.id))
+      .filter((submission): submission is AnalyzedSubmission => !!submission);
+    const correct = responses.filter((submission) => submission.is_correct === true).length;
+
+    const topShare = shareCorrect(top, question.id);
+    const bottomShare = shareCorrect(bottom, question.id);
+    const discrimination =
+      sessions.length >= MIN_SESSIONS_FOR_DISCRIMINATION && topShare !== null && bottomShare !== null
+        ? topShare - bottomShare
+        : null;
+
+    const options = choiceOptions(question);
+    let choices: OptionChoice[] | null = null;
+    if (options) {
+      const keyIds = keyOptionIds(question);
+      const counts = new Map<string, number>();
+      for (const submission of responses) {
+        for (const id of chosenOptionIds(submission.response)) counts.set(id, (counts.get(id) ?? 0) + 1);
+      }
+      choices = options.map((option) => ({
+        option,
+        is_key: keyIds.has(option.id),
+        count: counts.get(option.id) ?? 0,
+        percentage: served.length ? ((counts.get(option.id) ?? 0) / served.length) * 100 : 0,
+      }));
+    }
+
+    const seconds = served
+      .map((session) => (session.question_seconds as Record<string, number> | null)?.[question.id])
+      .filter((value): value is number => typeof value === "number" && value > 0);
+
+    const stats = {
+      question,
+      served: served.length,
+      answered: responses.length,
+      difficulty: served.length ? (correct / served.length) * 100 : 0,
+      discrimination,
+      choices,
+      average_seconds: average(seconds),
+    };
+    return { ...stats, flags: flagsFor(stats) };
+  });
+};
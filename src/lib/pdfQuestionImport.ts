@@ -0,0 +1,212 @@
+// Question-paper import from text-based PDFs. Lines of text are pulled out
+// with pdf.js, then parsed into numbered questions with lettered options. The
+// correct answer comes from, in order of preference: an answer-key section,
+// an "Answer: B" line under the question, asterisk marking or bold text.
+import { QuestionDraft, optionId } from "@/lib/questionTypes";
+
+export interface PdfLine {
+  text: string;
+  // Every visible character on the line is set in a bold face
+  bold: boolean;
+}
+
+export interface ParsedQuestion {
+  // Number printed on the paper
+  number: number;
+  draft: QuestionDraft;
+  // Problems the author should review; the draft is still editable
+  warnings: string[];
+}
+
+const QUESTION_START = /^\s*(?:Q(?:uestion)?\.?\s*)?(\d{1,3})\s*[.):]\s*(.*)$/i;
+// "A) text", "(b) text", "C. text"
+const OPTION_START = /^\s*\(?([A-Ja-j])[.)]\s+(.*)$/;
+// Further options on the same line, e.g. "A) 4    B) 5"; uppercase only so
+// ordinary words are not split
+const INLINE_OPTION = /\s{2,}\(?([A-J])[.)]\s+/;
+const ANSWER_LINE = /^\s*(?:correct\s+answer|answer|ans)\s*[:.-]\s*\(?([A-J])\)?\s*\.?\s*$/i;
+const KEY_HEADING = /^\s*(?:answer\s*key|answers|key)\s*:?\s*$/i;
+const KEY_ENTRY = /(\d{1,3})\s*[.):-]?\s*\(?([A-J])\)?(?=[\s,;]|$)/gi;
+const ASTERISK = /^\*\s*|\s*\*$/;
+
+const BOLD_FONT = /bold|black|heavy|semibold/i;
+
+// Group pdf.js text items into lines, top to bottom, left to right
+export const extractPdfLines = async (file: File): Promise<PdfLine[]> => {
+  // pdf.js is large, so only load it when a PDF is actually imported
+  const pdfjs = await import("pdfjs-dist");
+  const { default: workerSrc } = await import("pdfjs-dist/build/pdf.worker.min.mjs?url");
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const lines: PdfLine[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      // Loading the operator list resolves the fonts, which tells us which
+      // runs of text are bold
+      await page.getOperatorList();
+      const content = await page.getTextContent();
+
+      const isBold = (fontName: string) => {
+        try {
+          const font = page.commonObjs.get(fontName) as { bold?: boolean; name?: string } | null;
+          return !!font && (!!font.bold || BOLD_FONT.test(font.name ?? ""));
+        } catch {
+          return BOLD_FONT.test(content.styles[fontName]?.fontFamily ?? "");
+        }
+      };
+
+      const rows = new Map<number, { x: number; text: string; bold: boolean }[]>();
+      for (const item of content.items) {
+        if (!("str" in item) || !item.str) continue;
+        // Items within two units vertically share a line
+        const y = Math.round(item.transform[5] / 2) * 2;
+        const row = rows.get(y) ?? [];
+        row.push({ x: item.transform[4], text: item.str, bold: isBold(item.fontName) });
+        rows.set(y, row);
+      }
+
+      [...rows.entries()]
+        .sort(([a], [b]) => b - a)
+        .forEach(([, items]) => {
+          items.sort((a, b) => a.x - b.x);
+          const text = items.map((item) => item.text).join("").replace(/\s+$/, "");
+          if (!text.trim()) return;
+          const visible = items.filter((item) => item.text.trim());
+          lines.push({ text, bold: visible.length > 0 && visible.every((item) => item.bold) });
+        });
+
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return lines;
+};
+
+interface Builder {
+  number: number;
+  text: string[];
+  options: { letter: string; text: string; asterisk: boolean; bold: boolean }[];
+  answerLine: string | null;
+}
+
+const splitOptions = (letter: string, rest: string, bold: boolean) => {
+  const options: Builder["options"] = [];
+  let current = { letter: letter.toUpperCase(), text: rest };
+
+  for (;;) {
+    const match = INLINE_OPTION.exec(current.text);
+    if (!match) break;
+    options.push({ ...current, text: current.text.slice(0, match.index), asterisk: false, bold });
+    current = { letter: match[1], text: current.text.slice(match.index + match[0].length) };
+  }
+  options.push({ ...current, asterisk: false, bold });
+
+  return options.map((option) => {
+    const trimmed = option.text.trim();
+    const asterisk = ASTERISK.test(trimmed);
+    return { ...option, text: trimmed.replace(/^\*\s*|\s*\*$/g, "").trim(), asterisk };
+  });
+};
+
+const toParsedQuestion = (builder: Builder, key: Map<number, string>): ParsedQuestion => {
+  const warnings: string[] = [];
+  const options = builder.options.map((option, index) => ({ ...option, id: optionId(index) }));
+
+  // Papers are usually lettered A, B, C...; map printed letters to ids
+  const idForLetter = (letter: string) => options.find((option) => option.letter === letter)?.id;
+
+  let correct: string[] = [];
+  const keyed = key.get(builder.number) ?? builder.answerLine;
+  if (keyed) {
+    const id = idForLetter(keyed.toUpperCase());
+    if (id) {
+      correct = [id];
+    } else {
+      warnings.push(`Answer "${keyed}" does not match any option`);
+    }
+  } else if (options.some((option) => option.asterisk)) {
+    correct = options.filter((option) => option.asterisk).map((option) => option.id);
+  } else if (options.some((option) => option.bold) && !options.every((option) => option.bold)) {
+    correct = options.filter((option) => option.bold).map((option) => option.id);
+  }
+
+  if (options.length === 0) warnings.push("No options found");
+  if (options.some((option, index) => option.letter !== optionId(index))) {
+    warnings.push("Options are not lettered in sequence");
+  }
+  if (correct.length === 0) warnings.push("No correct answer marked");
+
+  return {
+    number: builder.number,
+    warnings,
+    draft: {
+      question_type: correct.length > 1 ? "multiple_select" : "single_choice",
+      question_text: builder.text.join(" ").replace(/\s+/g, " ").trim(),
+      options: options.map((option) => ({ id: option.id, text: option.text })),
+      correct_answer: correct.length > 1 ? correct : (correct[0] ?? ""),
+    },
+  };
+};
+
+export const parseQuestionPaper = (lines: PdfLine[]): ParsedQuestion[] => {
+  const builders: Builder[] = [];
+  const key = new Map<number, string>();
+  let current: Builder | null = null;
+  let inKey = false;
+
+  for (const line of lines) {
+    const text = line.text.trim();
+    if (!text) continue;
+
+    if (KEY_HEADING.test(text)) {
+      inKey = true;
+      current = null;
+      continue;
+    }
+
+    if (inKey) {
+      for (const match of text.matchAll(KEY_ENTRY)) {
+        key.set(Number(match[1]), match[2].toUpperCase());
+      }
+      continue;
+    }
+
+    const answer = ANSWER_LINE.exec(text);
+    if (answer && current) {
+      current.answerLine = answer[1].toUpperCase();
+      continue;
+    }
+
+    // A numbered line only starts a new question once the current one has
+    // options, so numbered lists inside a question stay part of its text
+    const question = QUESTION_START.exec(text);
+    if (question && (!current || current.options.length > 0)) {
+      current = { number: Number(question[1]), text: [question[2]], options: [], answerLine: null };
+      builders.push(current);
+      continue;
+    }
+
+    if (!current) continue;
+
+    const option = OPTION_START.exec(text);
+    if (option) {
+      current.options.push(...splitOptions(option[1], option[2], line.bold));
+      continue;
+    }
+
+    // Continuation of the question text or of the last option
+    const lastOption = current.options[current.options.length - 1];
+    if (lastOption) {
+      lastOption.text = `${lastOption.text} ${text}`.trim();
+    } else {
+      current.text.push(text);
+    }
+  }
+
+  return builders.map((builder) => toParsedQuestion(builder, key));
+};
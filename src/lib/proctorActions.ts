@@ -0,0 +1,59 @@
+// What a proctor can do to a live session. The proctor-session edge function
+// applies the action to the session; the proctoring server then relays it to
+// the candidate's exam page so it takes effect at once.
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { proctorService } from "@/services/proctorService";
+
+export type ProctorAction = "warn" | "pause" | "resume" | "add_time" | "terminate";
+
+export const PROCTOR_ACTION_LABELS: Record<ProctorAction, string> = {
+  warn: "Warning",
+  pause: "Paused",
+  resume: "Resumed",
+  add_time: "Time added",
+  terminate: "Terminated",
+};
+
+export interface ProctorActionOptions {
+  // The warning for warn, the reason for terminate
+  message?: string;
+  // Minutes to give with add_time
+  minutes?: number;
+}
+
+const relayPayload = (sessionId: string, action: ProctorAction, { message, minutes }: ProctorActionOptions) => {
+  switch (action) {
+    case "warn":
+      return { session_id: sessionId, message };
+    case "add_time":
+      return { session_id: sessionId, minutes };
+    case "terminate":
+      return { session_id: sessionId, reason: message };
+    default:
+      return { session_id: sessionId };
+  }
+};
+
+// Applies the action and tells the candidate. Resolves to the number of the
+// candidate's open exam pages that were told; pauses, added time and
+// terminations still apply on the server when that is 0.
+export const performProctorAction = async (
+  sessionId: string,
+  action: ProctorAction,
+  options: ProctorActionOptions = {},
+) => {
+  const { error } = await supabase.functions.invoke("proctor-session", {
+    body: { session_id: sessionId, action, ...options },
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      throw new Error(details?.error || error.message);
+    }
+    throw error;
+  }
+
+  return proctorService.relay(action, relayPayload(sessionId, action, options));
+};
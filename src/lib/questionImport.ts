@@ -0,0 +1,215 @@
+// Spreadsheet import for questions: CSV (RFC 4180) and XLSX files are read
+// into rows, columns are matched by header name, and every row is validated
+// before anything is written.
+import { readSheet } from "read-excel-file/browser";
+import { QuestionDraft, optionId, validateQuestion } from "@/lib/questionTypes";
+
+export type ImportColumn = "question_text" | "option_a" | "option_b" | "option_c" | "option_d" | "correct_answer";
+
+export interface ImportRow {
+  // Row number as shown in the spreadsheet, header included
+  rowNumber: number;
+  draft: QuestionDraft;
+  errors: string[];
+}
+
+export interface ImportResult {
+  rows: ImportRow[];
+  // Set when the header row cannot be mapped; rows is empty then
+  headerError: string | null;
+}
+
+export const IMPORT_COLUMN_LABELS: Record<ImportColumn, string> = {
+  question_text: "Question",
+  option_a: "Option A",
+  option_b: "Option B",
+  option_c: "Option C",
+  option_d: "Option D",
+  correct_answer: "Correct Answer",
+};
+
+// Accepted header spellings, compared after normalizeHeader
+const HEADER_ALIASES: Record<ImportColumn, string[]> = {
+  question_text: ["question", "question text", "questiontext", "text"],
+  option_a: ["option a", "optiona", "a", "option 1", "choice a"],
+  option_b: ["option b", "optionb", "b", "option 2", "choice b"],
+  option_c: ["option c", "optionc", "c", "option 3", "choice c"],
+  option_d: ["option d", "optiond", "d", "option 4", "choice d"],
+  correct_answer: ["correct answer", "correctanswer", "answer", "correct", "key"],
+};
+
+const ANSWER_LETTERS = ["A", "B", "C", "D"];
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+// Questions count as duplicates regardless of case and spacing
+export const normalizeQuestionText = (text: string) =>
+  text.trim().replace(/\s+/g, " ").toLowerCase();
+
+// RFC 4180: fields may be quoted, quoted fields may contain commas, line
+// breaks and doubled quotes. Accepts LF as well as CRLF line endings.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endField = () => {
+    row.push(field);
+    field = "";
+  };
+  const endRow = () => {
+    endField();
+    rows.push(row);
+    row = [];
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      endField();
+    } else if (char === "\r" && text[i + 1] === "\n") {
+      endRow();
+      i++;
+    } else if (char === "\n" || char === "\r") {
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error("The file ends inside a quoted field");
+  }
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+// Read the first sheet of an .xlsx file, or a .csv file, as rows of text
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+
+  if (extension === "csv") {
+    return parseCsv(await file.text());
+  }
+  if (extension === "xlsx") {
+    const data = await readSheet(file);
+    return data.map((cells) =>
+      cells.map((cell) => {
+        if (cell === null || cell === undefined) return "";
+        if (cell instanceof Date) return cell.toISOString();
+        return String(cell);
+      })
+    );
+  }
+
+  throw new Error("Unsupported file type. Upload a .csv or .xlsx file.");
+};
+
+const mapHeader = (header: string[]) => {
+  const mapping: Partial<Record<ImportColumn, number>> = {};
+  header.forEach((cell, index) => {
+    const normalized = normalizeHeader(cell);
+    const column = (Object.keys(HEADER_ALIASES) as ImportColumn[]).find((key) =>
+      HEADER_ALIASES[key].includes(normalized)
+    );
+    if (column && mapping[column] === undefined) {
+      mapping[column] = index;
+    }
+  });
+
+  const missing = (Object.keys(HEADER_ALIASES) as ImportColumn[]).filter((column) => mapping[column] === undefined);
+  return { mapping: mapping as Record<ImportColumn, number>, missing };
+};
+
+// Build a validated preview. existingQuestions holds the normalized text of
+// questions already in the target bank.
+export const buildImportRows = (data: string[][], existingQuestions: Set<string>): ImportResult => {
+  const [header, ...body] = data;
+  if (!header) {
+    return { rows: [], headerError: "The file is empty" };
+  }
+
+  const { mapping, missing } = mapHeader(header);
+  if (missing.length > 0) {
+    return {
+      rows: [],
+      headerError: `Missing column(s): ${missing.map((column) => IMPORT_COLUMN_LABELS[column]).join(", ")}`,
+    };
+  }
+
+  const seen = new Map<string, number>();
+  const rows: ImportRow[] = [];
+
+  body.forEach((cells, index) => {
+    // Skip blank lines, including trailing ones some editors add
+    if (cells.every((cell) => !cell.trim())) return;
+
+    const rowNumber = index + 2;
+    const cell = (column: ImportColumn) => (cells[mapping[column]] ?? "").trim();
+    const errors: string[] = [];
+
+    const questionText = cell("question_text");
+    const options = ["option_a", "option_b", "option_c", "option_d"].map((column, optionIndex) => ({
+      id: optionId(optionIndex),
+      text: cell(column as ImportColumn),
+    }));
+    const answer = cell("correct_answer").toUpperCase();
+
+    if (!questionText) errors.push("Question text is missing");
+    options.forEach((option) => {
+      if (!option.text) errors.push(`Option ${option.id} is missing`);
+    });
+    if (!ANSWER_LETTERS.includes(answer)) {
+      errors.push(`Correct answer "${cell("correct_answer")}" must be A, B, C or D`);
+    }
+
+    const key = normalizeQuestionText(questionText);
+    if (questionText && seen.has(key)) {
+      errors.push(`Duplicate of row ${seen.get(key)}`);
+    } else if (questionText && existingQuestions.has(key)) {
+      errors.push("Already in this question bank");
+    }
+    if (questionText && !seen.has(key)) {
+      seen.set(key, rowNumber);
+    }
+
+    const draft: QuestionDraft = {
+      question_type: "single_choice",
+      question_text: questionText,
+      options,
+      correct_answer: answer,
+    };
+
+    // Anything the field checks above did not already explain
+    const problem = errors.length === 0 ? validateQuestion(draft) : null;
+    if (problem) errors.push(problem);
+
+    rows.push({ rowNumber, draft, errors });
+  });
+
+  if (rows.length === 0) {
+    return { rows, headerError: "No questions found below the header row" };
+  }
+
+  return { rows, headerError: null };
+};
@@ -0,0 +1,320 @@
+// Typed question model. The answer key (questions.correct_answer) and the
+// candidate response (test_submissions.response) are jsonb whose shape
+// depends on the question type. This module has no imports so the grading
+// edge function can share it.
+
+export type QuestionType =
+  | "single_choice"
+  | "multiple_select"
+  | "true_false"
+  | "numeric"
+  | "short_text"
+  | "ordering";
+
+export interface QuestionOption {
+  id: string;
+  text: string;
+}
+
+// Type aliases rather than interfaces so keys stay assignable to the
+// generated Json type
+export type NumericAnswerKey = {
+  value: number;
+  // Largest accepted absolute difference from value
+  tolerance: number;
+};
+
+export type ShortTextAnswerKey = {
+  accepted: string[];
+  case_sensitive: boolean;
+};
+
+export interface AnswerKeys {
+  single_choice: string;
+  multiple_select: string[];
+  true_false: boolean;
+  numeric: NumericAnswerKey;
+  short_text: ShortTextAnswerKey;
+  // Option ids in the correct order
+  ordering: string[];
+}
+
+export interface Responses {
+  single_choice: string;
+  multiple_select: string[];
+  true_false: boolean;
+  numeric: number;
+  short_text: string;
+  ordering: string[];
+}
+
+export type AnswerKey = AnswerKeys[QuestionType];
+export type QuestionResponse = Responses[QuestionType];
+
+// What a candidate sees: everything except the answer key
+export interface CandidateQuestion {
+  id: string;
+  question_type: QuestionType;
+  question_text: string;
+  options: QuestionOption[];
+}
+
+export interface QuestionDraft extends Omit<CandidateQuestion, "id"> {
+  correct_answer: AnswerKey;
+}
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single_choice: "Single choice",
+  multiple_select: "Multiple select",
+  true_false: "True / False",
+  numeric: "Numeric",
+  short_text: "Short text",
+  ordering: "Ordering",
+};
+
+export const QUESTION_TYPES = Object.keys(QUESTION_TYPE_LABELS) as QuestionType[];
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 10;
+
+// Types whose options are shown to the candidate
+export const hasOptions = (type: QuestionType) =>
+  type === "single_choice" || type === "multiple_select" || type === "ordering";
+
+export const TRUE_FALSE_OPTIONS: QuestionOption[] = [
+  { id: "true", text: "True" },
+  { id: "false", text: "False" },
+];
+
+// Option ids are letters in authoring order: A, B, C, ...
+export const optionId = (index: number) => String.fromCharCode(65 + index);
+
+export const emptyAnswerKey = (type: QuestionType): AnswerKey => {
+  switch (type) {
+    case "single_choice":
+      return "A";
+    case "multiple_select":
+      return [];
+    case "true_false":
+      return true;
+    case "numeric":
+      return { value: 0, tolerance: 0 };
+    case "short_text":
+      return { accepted: [], case_sensitive: false };
+    case "ordering":
+      return [];
+  }
+};
+
+export const emptyDraft = (type: QuestionType = "single_choice"): QuestionDraft => ({
+  question_type: type,
+  question_text: "",
+  options: hasOptions(type)
+    ? Array.from({ length: type === "single_choice" ? 4 : 3 }, (_, index) => ({ id: optionId(index), text: "" }))
+    : [],
+  correct_answer: emptyAnswerKey(type),
+});
+
+// Ids follow position, so re-letter the remaining options and carry the
+// answer key across
+export const removeOption = (draft: QuestionDraft, index: number): QuestionDraft => {
+  const remaining = draft.options.filter((_, i) => i !== index);
+  const renamed = new Map(remaining.map((option, i) => [option.id, optionId(i)]));
+  const options = remaining.map((option, i) => ({ ...option, id: optionId(i) }));
+
+  let correct_answer = draft.correct_answer;
+  if (draft.question_type === "single_choice") {
+    correct_answer = renamed.get(correct_answer as string) ?? "";
+  } else if (draft.question_type === "multiple_select") {
+    correct_answer = (correct_answer as string[]).filter((id) => renamed.has(id)).map((id) => renamed.get(id));
+  }
+
+  return { ...draft, options, correct_answer };
+};
+
+// The answer key in a line of text, e.g. for reviewing keys after a test
+export const describeAnswerKey = (type: QuestionType, key: unknown): string => {
+  switch (type) {
+    case "single_choice":
+      return String(key ?? "");
+    case "multiple_select":
+      return ((key as string[]) ?? []).join(", ");
+    case "ordering":
+      return ((key as string[]) ?? []).join(" → ");
+    case "true_false":
+      return key ? "True" : "False";
+    case "numeric": {
+      const { value, tolerance } = key as NumericAnswerKey;
+      return tolerance ? `${value} ± ${tolerance}` : String(value);
+    }
+    case "short_text":
+      return ((key as ShortTextAnswerKey).accepted ?? []).join(" / ");
+  }
+};
+
+// Blank, empty-list and non-finite responses count as unanswered
+export const isAnswered = (response: unknown) => {
+  if (response === null || response === undefined) return false;
+  if (typeof response === "string") return response.trim() !== "";
+  if (typeof response === "number") return Number.isFinite(response);
+  if (Array.isArray(response)) return response.length > 0;
+  return true;
+};
+
+// The response after the candidate picks the option at index, e.g. with a
+// number key: selects it for single-answer types and toggles it for multiple
+// select. Other types have no options to pick and are left as they are.
+export const pickOption = (
+  question: CandidateQuestion,
+  response: QuestionResponse | undefined,
+  index: number,
+): QuestionResponse | undefined => {
+  const option = question.options[index];
+  if (!option) return response;
+
+  switch (question.question_type) {
+    case "single_choice":
+      return option.id;
+    case "true_false":
+      return option.id === "true";
+    case "multiple_select": {
+      const selected = Array.isArray(response) ? response : [];
+      const next = selected.includes(option.id)
+        ? selected.filter((id) => id !== option.id)
+        : [...selected, option.id];
+      return next.length ? next : undefined;
+    }
+    default:
+      return response;
+  }
+};
+
+// Returns a description of the first problem with the draft, or null when it
+// can be saved
+export const validateQuestion = (draft: QuestionDraft): string | null => {
+  if (!draft.question_text.trim()) return "Question text is required";
+
+  const ids = new Set(draft.options.map((option) => option.id));
+  const key = draft.correct_answer;
+
+  if (hasOptions(draft.question_type)) {
+    if (draft.options.length < MIN_OPTIONS || draft.options.length > MAX_OPTIONS) {
+      return `Between ${MIN_OPTIONS} and ${MAX_OPTIONS} options are required`;
+    }
+    if (draft.options.some((option) => !option.text.trim())) return "Options cannot be blank";
+  }
+
+  switch (draft.question_type) {
+    case "single_choice":
+      return typeof key === "string" && ids.has(key) ? null : "Select the correct option";
+    case "multiple_select":
+      return Array.isArray(key) && key.length > 0 && key.every((id) => ids.has(id))
+        ? null
+        : "Select at least one correct option";
+    case "true_false":
+      return typeof key === "boolean" ? null : "Select True or False";
+    case "numeric": {
+      const numeric = key as NumericAnswerKey;
+      if (!Number.isFinite(numeric?.value)) return "Enter the correct value";
+      return Number.isFinite(numeric.tolerance) && numeric.tolerance >= 0
+        ? null
+        : "Tolerance must be zero or more";
+    }
+    case "short_text": {
+      const text = key as ShortTextAnswerKey;
+      return text?.accepted?.some((answer) => answer.trim()) ? null : "Enter at least one accepted answer";
+    }
+    case "ordering":
+      // The key is the authored option order, filled in by toQuestionRow
+      return null;
+  }
+};
+
+// Shape a questions row (options/correct_answer as Json) for the candidate
+export const toCandidateQuestion = (row: {
+  id: string;
+  question_type: QuestionType;
+  question_text: string;
+  options: unknown;
+}): CandidateQuestion => ({
+  id: row.id,
+  question_type: row.question_type,
+  question_text: row.question_text,
+  options: row.question_type === "true_false" ? TRUE_FALSE_OPTIONS : ((row.options as QuestionOption[]) ?? []),
+});
+
+const shuffle = <T>(items: T[]) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Normalize a validated draft into the questions columns. Ordering questions
+// are authored in the correct order, so their options are stored shuffled to
+// keep the paper from giving the answer away.
+export const toQuestionRow = (draft: QuestionDraft) => {
+  const options = hasOptions(draft.question_type)
+    ? draft.options.map((option) => ({ id: option.id, text: option.text.trim() }))
+    : [];
+
+  switch (draft.question_type) {
+    case "ordering":
+      return {
+        question_type: draft.question_type,
+        question_text: draft.question_text.trim(),
+        options: shuffle(options),
+        correct_answer: options.map((option) => option.id),
+      };
+    case "short_text": {
+      const key = draft.correct_answer as ShortTextAnswerKey;
+      return {
+        question_type: draft.question_type,
+        question_text: draft.question_text.trim(),
+        options,
+        correct_answer: {
+          accepted: key.accepted.map((answer) => answer.trim()).filter(Boolean),
+          case_sensitive: key.case_sensitive,
+        },
+      };
+    }
+    default:
+      return {
+        question_type: draft.question_type,
+        question_text: draft.question_text.trim(),
+        options,
+        correct_answer: draft.correct_answer,
+      };
+  }
+};
+
+// Inverse of toQuestionRow, for editing a saved question. Ordering options
+// are put back into the correct order, which is how they are authored.
+export const fromQuestionRow = (row: {
+  question_type: QuestionType;
+  question_text: string;
+  options: unknown;
+  correct_answer: unknown;
+}): QuestionDraft => {
+  const options = ((row.options as QuestionOption[]) ?? []).map((option) => ({ ...option }));
+
+  if (row.question_type === "ordering") {
+    const order = (row.correct_answer as string[]) ?? [];
+    const byId = new Map(options.map((option) => [option.id, option]));
+    return {
+      question_type: row.question_type,
+      question_text: row.question_text,
+      options: order.filter((id) => byId.has(id)).map((id) => byId.get(id)),
+      correct_answer: order,
+    };
+  }
+
+  return {
+    question_type: row.question_type,
+    question_text: row.question_text,
+    options,
+    correct_answer: row.correct_answer as AnswerKey,
+  };
+};
@@ -0,0 +1,76 @@
+// Regrading a test after its answer keys were corrected or questions voided,
+// and telling candidates whose pass/fail outcome changed
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { sendResultUpdateEmails } from "@/lib/emailService";
+
+export interface RegradeResult {
+  run_id: string;
+  sessions_regraded: number;
+  // Sessions whose score changed
+  changed: number;
+  // Of those, the ones that went from pass to fail or back
+  outcomes_changed: number;
+}
+
+// Runs the regrade-test edge function, which recomputes every graded session
+// of the test and records the changes
+export const regradeTest = async (testId: string, reason: string, notify: boolean) => {
+  const { data, error } = await supabase.functions.invoke<RegradeResult>("regrade-test", {
+    body: { test_id: testId, reason, notify },
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      throw new Error(details?.error || error.message);
+    }
+    throw error;
+  }
+  return data as RegradeResult;
+};
+
+// Emails the candidates of a run whose outcome changed and who haven't been
+// told yet, and records who was
+export const notifyOutcomeChanges = async (runId: string) => {
+  const { data: changes, error } = await supabase
+    .from("regrade_changes")
+    .select(`
+      id,
+      old_passed,
+      new_passed,
+      new_total_score,
+      new_max_score,
+      student:students(name, email),
+      run:regrade_runs(test:tests(title))
+    `)
+    .eq("run_id", runId)
+    .is("notified_at", null);
+
+  if (error) throw error;
+
+  const pending = (changes || []).filter((change) => change.old_passed !== change.new_passed && change.student);
+  const result = await sendResultUpdateEmails(
+    pending.map((change) => ({
+      name: change.student.name,
+      email: change.student.email,
+      test_title: change.run?.test?.title ?? "",
+      passed: change.new_passed,
+      percentage: change.new_max_score > 0 ? Math.round((change.new_total_score / change.new_max_score) * 100) : 0,
+    })),
+  );
+
+  const notified = pending
+    .filter((change) => result.successEmails.includes(change.student.email))
+    .map((change) => change.id);
+  if (notified.length) {
+    const { error: updateError } = await supabase
+      .from("regrade_changes")
+      .update({ notified_at: new Date().toISOString() })
+      .in("id", notified);
+
+    if (updateError) throw updateError;
+  }
+
+  return result;
+};
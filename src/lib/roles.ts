@@ -0,0 +1,32 @@
+// Admin roles and what each one may do. The RLS policies in
+// supabase/migrations mirror this table; keep the two in sync.
+import type { Database } from "@/integrations/supabase/types";
+
+export type AdminRole = Database["public"]["Enums"]["admin_role"];
+
+export type AdminPermission =
+  | "manage_batches"
+  | "manage_questions"
+  | "manage_students"
+  | "manage_tests"
+  | "view_results"
+  | "monitor_sessions";
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: "Owner",
+  test_author: "Test Author",
+  proctor: "Proctor",
+  grader: "Grader",
+};
+
+const PERMISSIONS: Record<AdminPermission, AdminRole[]> = {
+  manage_batches: ["owner", "test_author"],
+  manage_questions: ["owner", "test_author"],
+  manage_students: ["owner", "test_author"],
+  manage_tests: ["owner", "test_author"],
+  view_results: ["owner", "test_author", "grader"],
+  monitor_sessions: ["owner", "proctor"],
+};
+
+export const hasPermission = (role: AdminRole | null, permission: AdminPermission) =>
+  !!role && PERMISSIONS[permission].includes(role);
@@ -1,8 +1,72 @@
-// Security functions
-export const encryptPassword = (password: string) => {
-    // Implementation using Web Crypto API or library
-  };
-  
-  export const initMonitoring = () => {
-    // Initialize screen monitoring and camera access
-  };
\ No newline at end of file
+// Access-code hashing and verification. Uses only the Web Crypto API so the
+// same module runs in the browser (issuing codes) and in edge functions
+// (verifying them).
+
+const ACCESS_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const ACCESS_CODE_LENGTH = 8;
+const PBKDF2_ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+export const normalizeAccessCode = (code: string) =>
+  code.replace(/[\s-]/g, "").toUpperCase();
+
+// Generate a random code without look-alike characters (0/O, 1/I)
+export const generateAccessCode = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(ACCESS_CODE_LENGTH));
+  return Array.from(bytes, (byte) => ACCESS_CODE_ALPHABET[byte % ACCESS_CODE_ALPHABET.length]).join("");
+};
+
+const derive = async (code: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(normalizeAccessCode(code)),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    HASH_BITS
+  );
+  return new Uint8Array(bits);
+};
+
+// Returns "pbkdf2_sha256$<iterations>$<salt>$<hash>"
+export const hashAccessCode = async (code: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(code, salt, PBKDF2_ITERATIONS);
+  return ["pbkdf2_sha256", PBKDF2_ITERATIONS, toBase64(salt), toBase64(hash)].join("$");
+};
+
+// Constant-time comparison so response timing doesn't leak how much matched
+export const timingSafeEqual = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+};
+
+export const verifyAccessCode = async (code: string, storedHash: string) => {
+  const [algorithm, iterations, salt, hash] = storedHash.split("$");
+  if (algorithm !== "pbkdf2_sha256" || !iterations || !salt || !hash) {
+    return false;
+  }
+
+  const candidate = await derive(code, fromBase64(salt), Number(iterations));
+  return timingSafeEqual(candidate, fromBase64(hash));
+};
+
+export const initMonitoring = () => {
+  // Initialize screen monitoring and camera access
+};
@@ -0,0 +1,57 @@
+// A test's security policy: which proctoring setup steps the candidate must
+// complete and which restrictions apply while they answer. Stored per test
+// in tests.security_policy. Import-free so the exam-paper edge function
+// serves the same policy the exam page enforces.
+
+// Type alias rather than an interface so it stays assignable to the
+// generated Json type
+export type SecurityPolicy = {
+  // Camera (and microphone) recorded for the whole test
+  require_camera: boolean;
+  // The candidate's entire screen shared and recorded
+  screen_monitoring: boolean;
+  // Taken in fullscreen; leaving it counts as a violation
+  require_fullscreen: boolean;
+  // The context menu is blocked; attempts count as violations
+  disable_right_click: boolean;
+  // Copy, cut and paste are blocked; attempts count as violations
+  disable_copy_paste: boolean;
+};
+
+export type SecurityRule = keyof SecurityPolicy;
+
+export const SECURITY_RULES: SecurityRule[] = [
+  "require_camera",
+  "screen_monitoring",
+  "require_fullscreen",
+  "disable_right_click",
+  "disable_copy_paste",
+];
+
+export const SECURITY_RULE_LABELS: Record<SecurityRule, string> = {
+  require_camera: "Camera",
+  screen_monitoring: "Screen monitoring",
+  require_fullscreen: "Fullscreen",
+  disable_right_click: "No right-click",
+  disable_copy_paste: "No copy/paste",
+};
+
+// Everything on, matching the column default
+export const DEFAULT_SECURITY_POLICY: SecurityPolicy = {
+  require_camera: true,
+  screen_monitoring: true,
+  require_fullscreen: true,
+  disable_right_click: true,
+  disable_copy_paste: true,
+};
+
+// Reads a stored policy, falling back to the default for anything missing or
+// not a boolean, so policies saved before a rule existed keep it on
+export const parseSecurityPolicy = (value: unknown): SecurityPolicy => {
+  const stored = value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+  const policy = { ...DEFAULT_SECURITY_POLICY };
+  for (const rule of SECURITY_RULES) {
+    if (typeof stored[rule] === "boolean") policy[rule] = stored[rule] as boolean;
+  }
+  return policy;
+};
@@ -0,0 +1,36 @@
+// Session deadlines and the time proctors and pauses add to them. Import-free
+// so the edge functions and the proctor dashboard count the same clock.
+
+interface TimedTest {
+  duration_minutes: number;
+  end_time: string | null;
+}
+
+interface ProctoredSession {
+  // Time added by proctors, plus earlier pauses
+  extra_seconds: number;
+  paused_at: string | null;
+  pause_reason: string | null;
+}
+
+// How long the running pause has stopped the clock at `now`, in
+// milliseconds. A pause from the candidate stopping their screen share
+// blocks answering but leaves the clock running, so stopping the share
+// buys no time.
+export const pausedFor = (session: Pick<ProctoredSession, "paused_at" | "pause_reason">, now = new Date()) =>
+  session.paused_at && session.pause_reason !== "screen_share"
+    ? Math.max(now.getTime() - new Date(session.paused_at).getTime(), 0)
+    : 0;
+
+// Extra time the session is owed at `now`, in milliseconds: what proctors
+// added and the running pause
+export const timeAllowance = (session: ProctoredSession, now = new Date()) =>
+  session.extra_seconds * 1000 + pausedFor(session, now);
+
+// The session's own time limit, cut short if the test window closes first.
+// The allowance, in milliseconds, pushes back both.
+export const sessionDeadline = (startedAt: string, test: TimedTest, allowance = 0) => {
+  const byDuration = new Date(startedAt).getTime() + test.duration_minutes * 60 * 1000;
+  const windowEnd = test.end_time ? new Date(test.end_time).getTime() : Infinity;
+  return new Date(Math.min(byDuration, windowEnd) + allowance);
+};
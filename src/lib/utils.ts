@@ -14,8 +14,3 @@ export const generateTestLink = (testId: string) => {
   // Ensure the link points to the login page
   return `${BASE_URL}/test/${testId}`;
 };
-
-export const generatePassword = () => {
-  // Generate a random 6-digit password
-  return Math.floor(100000 + Math.random() * 900000).toString();
-};
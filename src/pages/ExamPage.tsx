@@ -1,229 +1,525 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useExamSession } from '@/hooks/use-exam-session';
+import { useIntegrityMonitor } from '@/hooks/use-integrity-monitor';
+import { useScreenShare } from '@/hooks/use-screen-share';
+import { clearCandidateSession, reportScreenShare } from '@/lib/examService';
+import { isAnswered, pickOption } from '@/lib/questionTypes';
+import { DEFAULT_SECURITY_POLICY } from '@/lib/securityPolicy';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Check, ChevronLeft, ChevronRight, Flag, Loader2, Lock, Maximize, MonitorUp, PauseCircle, WifiOff } from 'lucide-react';
 import ExamSecuritySetup from '../components/ExamSecuritySetup';
 import ExamTimer from '../components/ExamTimer';
+import QuestionRenderer from '@/components/QuestionRenderer';
+import AutosaveIndicator from '@/components/AutosaveIndicator';
+import QuestionPalette from '@/components/QuestionPalette';
+import SubmitSummaryDialog from '@/components/SubmitSummaryDialog';
+import TimeExpired from '@/components/TimeExpired';
 import { monitoringService } from '../services/monitoringService';
 
+// The candidate's exam: proctoring setup, then the paper one question at a
+// time with the server-driven timer, autosave and submission. A palette
+// tracks which questions are answered, visited or flagged for review.
+// Sectioned tests are taken one section at a time, with no way back. The
+// test's security policy decides the setup steps and the restrictions.
 const ExamPage = () => {
   const { id: testId } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const exam = useExamSession(testId);
   const [isSetupComplete, setIsSetupComplete] = useState(false);
-  const [isExamStarted, setIsExamStarted] = useState(false);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [visited, setVisited] = useState<Set<string>>(new Set());
+  const [flagged, setFlagged] = useState<Set<string>>(new Set());
+  const [reviewOpen, setReviewOpen] = useState(false);
   const [warnings, setWarnings] = useState<string[]>([]);
-  const [testInfo, setTestInfo] = useState<{
-    title: string;
-    duration_minutes: number;
-  } | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
+  const policy = exam.test?.security_policy ?? DEFAULT_SECURITY_POLICY;
 
   useEffect(() => {
-    if (testId) {
-      // Check if user is logged in
-      const studentId = sessionStorage.getItem("studentId");
-      const storedTestId = sessionStorage.getItem("testId");
-      
-      if (!studentId || storedTestId !== testId) {
-        toast({
-          title: "Error",
-          description: "Please login to take the test",
-          variant: "destructive",
-        });
-        navigate(`/test/${testId}`);
-        return;
-      }
-      
-      fetchTestInfo();
+    if (exam.phase === 'signed_out') {
+      toast({
+        title: "Error",
+        description: "Please login to take the test",
+        variant: "destructive",
+      });
+      navigate(`/test/${testId}`, { replace: true });
+    }
+
+    if (exam.phase === 'submitted') {
+      navigate(`/test/${testId}/complete`, { replace: true });
     }
-  }, [testId, navigate]);
+  }, [exam.phase, testId, navigate]);
 
-  const fetchTestInfo = async () => {
-    if (!testId) return;
+  const { session, reload } = exam;
+  useEffect(() => {
+    if (!session) return;
+    monitoringService.connect(session);
 
-    try {
-      const { data: test, error } = await supabase
-        .from("tests")
-        .select(`
-          id,
-          title,
-          duration_minutes,
-          is_active,
-          start_time,
-          end_time
-        `)
-        .eq("id", testId)
-        .single();
-
-      if (error) throw error;
-
-      if (!test || !test.is_active) {
+    const offWarning = monitoringService.onWarning((warning) => {
+      setWarnings((prev) => [...prev, warning]);
+    });
+
+    const offTerminated = monitoringService.onExamTerminated((reason) => {
+      clearCandidateSession();
+      alert(reason ? `Exam has been terminated by the administrator: ${reason}` : 'Exam has been terminated by the administrator.');
+      navigate(`/test/${testId}`, { replace: true });
+    });
+
+    // The server has the new clock; fetch it with the paper
+    const offPause = monitoringService.onPauseChange(() => {
+      reload();
+    });
+
+    const offTimeAdded = monitoringService.onTimeAdded((minutes) => {
+      reload();
+      toast({
+        title: "More time",
+        description: `A proctor gave you ${minutes} more minute${minutes === 1 ? '' : 's'}.`,
+      });
+    });
+
+    return () => {
+      offWarning();
+      offTerminated();
+      offPause();
+      offTimeAdded();
+      monitoringService.disconnect();
+    };
+  }, [session, reload, navigate, testId]);
+
+  // Violations count while the candidate is answering; the test's thresholds
+  // decide when they are warned and when the test is submitted for them
+  const autoSubmitted = useRef(false);
+  const { record: recordViolation } = useIntegrityMonitor(
+    isSetupComplete && exam.phase === 'in_progress' && !exam.paused ? exam.session : null,
+    policy,
+    (report) => {
+      if (report.outcome === 'submit' && !autoSubmitted.current) {
+        autoSubmitted.current = true;
         toast({
-          title: "Error",
-          description: "This test is not available",
+          title: "Test submitted",
+          description: `Your test was submitted after ${report.total} integrity violations.`,
           variant: "destructive",
         });
-        navigate("/");
-        return;
+        // Already submitted on the server; this sends the answers not yet saved
+        exam.submit().catch((error) => console.error('Error submitting test:', error));
+      } else if (report.outcome === 'warn') {
+        setWarnings((prev) => [
+          ...prev,
+          `${report.total} integrity violations have been recorded, such as leaving the exam window.` +
+            (report.submit_threshold ? ` At ${report.submit_threshold} your test is submitted automatically.` : ''),
+        ]);
       }
+    },
+  );
 
-      setTestInfo({
-        title: test.title,
-        duration_minutes: test.duration_minutes,
-      });
+  // Stopping the screen share is a violation and pauses the test on the
+  // server until the candidate shares their screen again
+  const reportSharing = async (sharing: boolean) => {
+    if (!session) return;
+    try {
+      const { paused } = await reportScreenShare(session, sharing);
+      if (paused !== exam.paused) reload();
     } catch (error) {
-      console.error("Error fetching test info:", error);
+      console.error('Error reporting screen share:', error);
+    }
+  };
+
+  const screenShare = useScreenShare(() => {
+    if (!isSetupComplete) return;
+    recordViolation('screen_share_stopped');
+    reportSharing(false);
+  });
+
+  const shareScreen = async () => {
+    await screenShare.share();
+    reportSharing(true);
+  };
+
+  const shareScreenAgain = () => {
+    shareScreen().catch((error) => {
+      console.error('Error sharing screen:', error);
       toast({
-        title: "Error",
-        description: "Failed to fetch test information",
+        title: "Screen Sharing Error",
+        description: error instanceof Error ? error.message : "Failed to share your screen.",
         variant: "destructive",
       });
-      navigate("/");
-    }
+    });
   };
 
+  // A share stopped while a proctor had the test paused pauses it again once
+  // they resume it
+  const sharingLost = isSetupComplete && policy.screen_monitoring && !screenShare.sharing;
   useEffect(() => {
-    // Connect to monitoring service
-    monitoringService.connect();
+    if (sharingLost && exam.phase === 'in_progress' && !exam.paused) reportSharing(false);
+  }, [sharingLost, exam.phase, exam.paused]);
 
-    // Set up warning handler
-    monitoringService.onWarning((warning) => {
-      setWarnings((prev) => [...prev, warning]);
-    });
+  useEffect(() => {
+    const handleFullscreenChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
 
-    // Set up exam termination handler
-    monitoringService.onExamTerminated(() => {
-      setIsExamStarted(false);
-      alert('Exam has been terminated by the administrator.');
-      navigate('/');
+  const returnToFullscreen = () => {
+    document.documentElement.requestFullscreen().catch((error) => {
+      console.error('Error entering fullscreen:', error);
+      toast({
+        title: "Fullscreen Error",
+        description: "Please try entering fullscreen mode manually.",
+        variant: "destructive",
+      });
     });
+  };
 
-    return () => {
-      monitoringService.disconnect();
-    };
-  }, [navigate]);
+  const currentQuestion = exam.questions[currentIndex];
+
+  // Each section starts from its first question
+  useEffect(() => {
+    setCurrentIndex(0);
+  }, [exam.currentSection]);
+
+  const { showQuestion } = exam;
+  useEffect(() => {
+    showQuestion(isSetupComplete && currentQuestion ? currentQuestion.id : null);
+  }, [showQuestion, isSetupComplete, currentQuestion]);
+
+  useEffect(() => {
+    if (!currentQuestion) return;
+    setVisited((prev) => (prev.has(currentQuestion.id) ? prev : new Set(prev).add(currentQuestion.id)));
+  }, [currentQuestion]);
 
-  const handleSetupComplete = () => {
-    setIsSetupComplete(true);
-    setIsExamStarted(true);
+  const goTo = (index: number) => {
+    setCurrentIndex(Math.min(Math.max(index, 0), exam.questions.length - 1));
   };
 
-  const handleTimeUp = async () => {
-    setIsExamStarted(false);
-    
-    // Submit the exam
-    try {
-      const studentId = sessionStorage.getItem("studentId");
-      if (!studentId || !testId) return;
-
-      const { error } = await supabase
-        .from("test_sessions")
-        .insert([{
-          test_id: testId,
-          student_id: studentId,
-          started_at: new Date().toISOString(),
-          completed_at: new Date().toISOString(),
-        }]);
-
-      if (error) throw error;
-
-      // Mark student as having taken the test
-      await supabase
-        .from("students")
-        .update({ has_taken_test: true })
-        .eq("id", studentId);
+  const toggleFlag = (questionId: string) => {
+    setFlagged((prev) => {
+      const next = new Set(prev);
+      if (next.has(questionId)) {
+        next.delete(questionId);
+      } else {
+        next.add(questionId);
+      }
+      return next;
+    });
+  };
 
-      toast({
-        title: "Success",
-        description: "Your exam has been submitted successfully",
-      });
+  // Keyboard shortcuts: 1-9 pick an option, arrow keys move between
+  // questions, F flags the current one
+  useEffect(() => {
+    if (exam.phase !== 'in_progress' || exam.paused || !isSetupComplete || reviewOpen || !currentQuestion) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      const target = event.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      if (event.key === 'ArrowRight') {
+        goTo(currentIndex + 1);
+      } else if (event.key === 'ArrowLeft') {
+        goTo(currentIndex - 1);
+      } else if (event.key === 'f' || event.key === 'F') {
+        toggleFlag(currentQuestion.id);
+      } else if (/^[1-9]$/.test(event.key) && exam.secondsLeft !== 0) {
+        const response = exam.answers[currentQuestion.id];
+        const next = pickOption(currentQuestion, response, Number(event.key) - 1);
+        if (next !== response) exam.setAnswer(currentQuestion.id, next);
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
 
-      navigate('/');
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [exam.phase, exam.paused, exam.answers, exam.secondsLeft, isSetupComplete, reviewOpen, currentQuestion, currentIndex]);
+
+  const handleSubmit = async () => {
+    try {
+      await (exam.onLastSection ? exam.submit() : exam.finishSection());
     } catch (error) {
       console.error("Error submitting exam:", error);
       toast({
         title: "Error",
-        description: "Failed to submit exam. Please contact support.",
+        description: error instanceof Error ? error.message : "Failed to submit exam. Please contact support.",
         variant: "destructive",
       });
     }
   };
 
-  if (!testInfo) {
+  if (exam.phase === 'expired') {
+    return <TimeExpired title={exam.test?.title} />;
+  }
+
+  if (exam.phase === 'failed') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Unable to load the test</CardTitle>
+            <CardDescription>{exam.error}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button className="w-full" onClick={() => window.location.reload()}>
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (exam.phase !== 'in_progress' || !exam.test) {
     return (
       <div className="min-h-screen flex items-center justify-center">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+        <Loader2 className="h-8 w-8 animate-spin" />
       </div>
     );
   }
 
   if (!isSetupComplete) {
-    return <ExamSecuritySetup onSetupComplete={handleSetupComplete} />;
+    return (
+      <ExamSecuritySetup
+        policy={policy}
+        screenShared={screenShare.sharing}
+        onShareScreen={shareScreen}
+        onSetupComplete={() => setIsSetupComplete(true)}
+      />
+    );
   }
 
+  const question = currentQuestion;
+  const screenShareLost = policy.screen_monitoring && !screenShare.sharing;
+  // Kept off the page, not just covered, while the test can't be answered
+  const paperHidden = exam.paused || screenShareLost;
+  const isLastQuestion = currentIndex === exam.questions.length - 1;
+  const unansweredIndexes = exam.questions
+    .map(({ id }, index) => (isAnswered(exam.answers[id]) ? -1 : index))
+    .filter((index) => index >= 0);
+  const flaggedIndexes = exam.questions
+    .map(({ id }, index) => (flagged.has(id) ? index : -1))
+    .filter((index) => index >= 0);
+
   return (
     <div className="min-h-screen bg-gray-100">
-      {isExamStarted && (
-        <>
-          <ExamTimer duration={testInfo.duration_minutes} onTimeUp={handleTimeUp} />
-          
-          {/* Display warnings if any */}
-          {warnings.length > 0 && (
-            <div className="fixed top-20 right-4 bg-yellow-100 border-l-4 border-yellow-500 p-4">
-              <div className="flex">
-                <div className="flex-shrink-0">
-                  <svg className="h-5 w-5 text-yellow-500" viewBox="0 0 20 20" fill="currentColor">
-                    <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
-                  </svg>
-                </div>
-                <div className="ml-3">
-                  <p className="text-sm text-yellow-700">
-                    {warnings[warnings.length - 1]}
-                  </p>
-                </div>
-              </div>
+      <ExamTimer
+        timeLeft={exam.secondsLeft}
+        label={exam.sections.length ? 'Section Time Remaining' : undefined}
+      />
+
+      {screenShareLost && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/80 p-4">
+          <Card className="max-w-md text-center">
+            <CardHeader>
+              <MonitorUp className="h-12 w-12 mx-auto text-blue-600" />
+              <CardTitle>Screen sharing stopped</CardTitle>
+              <CardDescription>
+                Your test is paused and this has been recorded as a violation. Share your entire screen again to
+                continue; your clock keeps running and your answers are kept.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full" onClick={shareScreenAgain}>
+                Share Screen
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {exam.paused && !screenShareLost && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/80 p-4">
+          <Card className="max-w-md text-center">
+            <CardHeader>
+              <PauseCircle className="h-12 w-12 mx-auto text-blue-600" />
+              <CardTitle>Your test is paused</CardTitle>
+              <CardDescription>
+                A proctor has paused your test. Your clock is stopped and your answers are kept. Stay on this page;
+                the test continues when the proctor resumes it.
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        </div>
+      )}
+
+      {policy.require_fullscreen && !isFullscreen && !exam.paused && !screenShareLost && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/80 p-4">
+          <Card className="max-w-md text-center">
+            <CardHeader>
+              <Maximize className="h-12 w-12 mx-auto text-blue-600" />
+              <CardTitle>Return to fullscreen</CardTitle>
+              <CardDescription>
+                This test must be taken in fullscreen. Leaving it has been recorded as a violation.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full" onClick={returnToFullscreen}>
+                Enter Fullscreen
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Display warnings if any */}
+      {warnings.length > 0 && (
+        <div className="fixed top-20 right-4 bg-yellow-100 border-l-4 border-yellow-500 p-4">
+          <div className="flex">
+            <div className="flex-shrink-0">
+              <svg className="h-5 w-5 text-yellow-500" viewBox="0 0 20 20" fill="currentColor">
+                <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+              </svg>
             </div>
-          )}
-
-          {/* Exam Content */}
-          <div className="container mx-auto px-4 py-8">
-            <div className="bg-white rounded-lg shadow-lg p-6">
-              <h1 className="text-2xl font-bold mb-6">{testInfo.title}</h1>
-              
-              {/* Add your exam questions and content here */}
-              <div className="space-y-6">
-                {/* Example question */}
-                <div className="border-b pb-4">
-                  <h2 className="text-lg font-semibold mb-2">Question 1</h2>
-                  <p className="text-gray-700 mb-4">
-                    What is the capital of France?
-                  </p>
-                  <div className="space-y-2">
-                    <label className="flex items-center">
-                      <input type="radio" name="q1" className="mr-2" />
-                      London
-                    </label>
-                    <label className="flex items-center">
-                      <input type="radio" name="q1" className="mr-2" />
-                      Paris
-                    </label>
-                    <label className="flex items-center">
-                      <input type="radio" name="q1" className="mr-2" />
-                      Berlin
-                    </label>
-                    <label className="flex items-center">
-                      <input type="radio" name="q1" className="mr-2" />
-                      Madrid
-                    </label>
-                  </div>
-                </div>
-              </div>
+            <div className="ml-3">
+              <p className="text-sm text-yellow-700">
+                {warnings[warnings.length - 1]}
+              </p>
             </div>
           </div>
-        </>
+        </div>
+      )}
+
+      {!paperHidden && (
+        <div className="container mx-auto px-4 py-8 grid gap-6 md:grid-cols-[1fr_16rem] items-start">
+          <Card>
+            <CardHeader>
+              <CardTitle>{exam.test.title}</CardTitle>
+              {exam.currentSection !== null && (
+                <p className="text-sm font-medium">
+                  Section {exam.currentSection + 1} of {exam.sections.length}: {exam.sections[exam.currentSection].title}
+                </p>
+              )}
+              <div className="flex items-center justify-between gap-4">
+                <CardDescription>
+                  Question {currentIndex + 1} of {exam.questions.length}
+                </CardDescription>
+                <AutosaveIndicator status={exam.saveStatus} />
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {exam.waitingForConnection && (
+                <Alert variant="destructive">
+                  <WifiOff className="h-4 w-4" />
+                  <AlertTitle>Time is up, but you are offline</AlertTitle>
+                  <AlertDescription>
+                    Your answers will be {exam.onLastSection ? 'submitted' : 'sent'} as soon as your connection
+                    returns. Keep this page open.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex items-start justify-between gap-4">
+                <h2 className="text-lg font-medium">{question.question_text}</h2>
+                <Button
+                  variant={flagged.has(question.id) ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => toggleFlag(question.id)}
+                >
+                  <Flag className="h-4 w-4 mr-2" />
+                  {flagged.has(question.id) ? 'Flagged' : 'Flag for review'}
+                </Button>
+              </div>
+              <QuestionRenderer
+                question={question}
+                response={exam.answers[question.id]}
+                onChange={(value) => exam.setAnswer(question.id, value)}
+                disabled={exam.secondsLeft === 0}
+              />
+
+              <div className="flex justify-between pt-4 border-t">
+                <Button
+                  variant="outline"
+                  disabled={currentIndex === 0}
+                  onClick={() => goTo(currentIndex - 1)}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-2" />
+                  Previous
+                </Button>
+                {isLastQuestion ? (
+                  <Button onClick={() => setReviewOpen(true)} disabled={exam.submitting || exam.waitingForConnection}>
+                    {exam.onLastSection ? 'Review & Submit' : 'Finish Section'}
+                  </Button>
+                ) : (
+                  <Button onClick={() => goTo(currentIndex + 1)}>
+                    Next
+                    <ChevronRight className="h-4 w-4 ml-2" />
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">
+                Shortcuts: 1-9 choose an option, ← → move between questions, F flags for review.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">
+                {exam.currentSection !== null ? exam.sections[exam.currentSection].title : 'Questions'}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <QuestionPalette
+                questions={exam.questions}
+                answers={exam.answers}
+                visited={visited}
+                flagged={flagged}
+                currentIndex={currentIndex}
+                onSelect={goTo}
+              />
+              <Button
+                className="w-full"
+                onClick={() => setReviewOpen(true)}
+                disabled={exam.submitting || exam.waitingForConnection}
+              >
+                {exam.onLastSection ? 'Review & Submit' : 'Finish Section'}
+              </Button>
+
+              {exam.sections.length > 0 && (
+                <ol className="space-y-1 border-t pt-4 text-sm">
+                  {exam.sections.map((section, index) => (
+                    <li
+                      key={index}
+                      className={`flex items-center gap-2 ${index === exam.currentSection ? 'font-medium' : 'text-gray-500'}`}
+                    >
+                      {index < exam.currentSection ? (
+                        <Check className="h-4 w-4" />
+                      ) : index > exam.currentSection ? (
+                        <Lock className="h-4 w-4" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4" />
+                      )}
+                      <span className="flex-1">{section.title}</span>
+                      {section.duration_minutes && <span className="text-xs">{section.duration_minutes} min</span>}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        </div>
       )}
+
+      <SubmitSummaryDialog
+        open={reviewOpen && !paperHidden}
+        onOpenChange={setReviewOpen}
+        questionCount={exam.questions.length}
+        unanswered={unansweredIndexes}
+        flagged={flaggedIndexes}
+        submitting={exam.submitting}
+        closing={exam.onLastSection ? 'test' : 'section'}
+        onReview={(index) => {
+          setReviewOpen(false);
+          goTo(index);
+        }}
+        onConfirm={handleSubmit}
+      />
     </div>
   );
 };
 
-export default ExamPage; 
\ No newline at end of file
+export default ExamPage;
@@ -1,109 +1,240 @@
 
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Users, FileText, Timer, Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Users, FileText, Timer, Mail, LogOut, Monitor, Library, Search, Award } from "lucide-react";
+import { useAdminAuth } from "@/hooks/use-admin-auth";
+import { AdminPermission, ROLE_LABELS } from "@/lib/roles";
 import BatchManagement from "@/components/admin/BatchManagement";
 import QuestionUpload from "@/components/admin/QuestionUpload";
+import QuestionBankManagement from "@/components/admin/QuestionBankManagement";
+import QuestionBrowser from "@/components/admin/QuestionBrowser";
 import StudentManagement from "@/components/admin/StudentManagement";
+import GradingSchemeManagement from "@/components/admin/GradingSchemeManagement";
 import TestManagement from "@/components/admin/TestManagement";
 import TestResults from "@/components/admin/TestResults";
 
+const TAB_PERMISSIONS: Record<string, AdminPermission> = {
+  batches: "manage_batches",
+  questions: "manage_questions",
+  banks: "manage_questions",
+  browse: "manage_questions",
+  students: "manage_students",
+  tests: "manage_tests",
+  grading: "manage_tests",
+  results: "view_results",
+};
+
 const Index = () => {
-  const [activeTab, setActiveTab] = useState("batches");
+  const { session, role, can, signOut } = useAdminAuth();
+  const visibleTabs = Object.keys(TAB_PERMISSIONS).filter((tab) => can(TAB_PERMISSIONS[tab]));
+  const [activeTab, setActiveTab] = useState(visibleTabs[0] ?? "");
 
   return (
     <div className="min-h-screen bg-gray-50 p-6">
       <div className="max-w-7xl mx-auto">
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">HR Quiz Admin Portal</h1>
-          <p className="text-gray-600 mt-2">Manage batches, questions, students, and tests</p>
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">HR Quiz Admin Portal</h1>
+            <p className="text-gray-600 mt-2">Manage batches, questions, students, and tests</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="text-right">
+              <p className="text-sm text-gray-700">{session?.user.email}</p>
+              {role && <Badge variant="secondary">{ROLE_LABELS[role]}</Badge>}
+            </div>
+            {can("monitor_sessions") && (
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/hr-dashboard">
+                  <Monitor className="h-4 w-4 mr-2" />
+                  Live Monitoring
+                </Link>
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => signOut()}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign Out
+            </Button>
+          </div>
         </div>
 
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5">
-            <TabsTrigger value="batches" className="flex items-center gap-2">
-              <Users className="h-4 w-4" />
-              Batches
-            </TabsTrigger>
-            <TabsTrigger value="questions" className="flex items-center gap-2">
-              <FileText className="h-4 w-4" />
-              Questions
-            </TabsTrigger>
-            <TabsTrigger value="students" className="flex items-center gap-2">
-              <Mail className="h-4 w-4" />
-              Students
-            </TabsTrigger>
-            <TabsTrigger value="tests" className="flex items-center gap-2">
-              <Timer className="h-4 w-4" />
-              Tests
-            </TabsTrigger>
-            <TabsTrigger value="results" className="flex items-center gap-2">
-              <FileText className="h-4 w-4" />
-              Results
-            </TabsTrigger>
-          </TabsList>
+        {visibleTabs.length === 0 && (
+          <Card>
+            <CardContent className="pt-6 text-gray-600">
+              Your role has no admin tabs. Use Live Monitoring to watch active sessions.
+            </CardContent>
+          </Card>
+        )}
+
+        {visibleTabs.length > 0 && (
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+            <TabsList className="flex w-full">
+              {can("manage_batches") && (
+                <TabsTrigger value="batches" className="flex-1 flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  Batches
+                </TabsTrigger>
+              )}
+              {can("manage_questions") && (
+                <TabsTrigger value="questions" className="flex-1 flex items-center gap-2">
+                  <FileText className="h-4 w-4" />
+                  Questions
+                </TabsTrigger>
+              )}
+              {can("manage_questions") && (
+                <TabsTrigger value="banks" className="flex-1 flex items-center gap-2">
+                  <Library className="h-4 w-4" />
+                  Question Banks
+                </TabsTrigger>
+              )}
+              {can("manage_questions") && (
+                <TabsTrigger value="browse" className="flex-1 flex items-center gap-2">
+                  <Search className="h-4 w-4" />
+                  Browse
+                </TabsTrigger>
+              )}
+              {can("manage_students") && (
+                <TabsTrigger value="students" className="flex-1 flex items-center gap-2">
+                  <Mail className="h-4 w-4" />
+                  Students
+                </TabsTrigger>
+              )}
+              {can("manage_tests") && (
+                <TabsTrigger value="tests" className="flex-1 flex items-center gap-2">
+                  <Timer className="h-4 w-4" />
+                  Tests
+                </TabsTrigger>
+              )}
+              {can("manage_tests") && (
+                <TabsTrigger value="grading" className="flex-1 flex items-center gap-2">
+                  <Award className="h-4 w-4" />
+                  Grading
+                </TabsTrigger>
+              )}
+              {can("view_results") && (
+                <TabsTrigger value="results" className="flex-1 flex items-center gap-2">
+                  <FileText className="h-4 w-4" />
+                  Results
+                </TabsTrigger>
+              )}
+            </TabsList>
+
+            {can("manage_batches") && (
+              <TabsContent value="batches">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Batch Management</CardTitle>
+                    <CardDescription>Create and manage student batches</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <BatchManagement />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            )}
+
+            {can("manage_questions") && (
+              <TabsContent value="questions">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Question Upload</CardTitle>
+                    <CardDescription>Upload questions via PDF, Excel, or manual entry</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <QuestionUpload />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            )}
+
+            {can("manage_questions") && (
+              <TabsContent value="banks">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Question Banks</CardTitle>
+                    <CardDescription>Organize questions into reusable banks for composing tests</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <QuestionBankManagement />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            )}
 
-          <TabsContent value="batches">
-            <Card>
-              <CardHeader>
-                <CardTitle>Batch Management</CardTitle>
-                <CardDescription>Create and manage student batches</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <BatchManagement />
-              </CardContent>
-            </Card>
-          </TabsContent>
+            {can("manage_questions") && (
+              <TabsContent value="browse">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Question Browser</CardTitle>
+                    <CardDescription>Search, edit and delete questions across all banks</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <QuestionBrowser />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            )}
 
-          <TabsContent value="questions">
-            <Card>
-              <CardHeader>
-                <CardTitle>Question Upload</CardTitle>
-                <CardDescription>Upload questions via PDF, Excel, or manual entry</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <QuestionUpload />
-              </CardContent>
-            </Card>
-          </TabsContent>
+            {can("manage_students") && (
+              <TabsContent value="students">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Student Management</CardTitle>
+                    <CardDescription>Upload student email lists and manage registrations</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <StudentManagement />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            )}
 
-          <TabsContent value="students">
-            <Card>
-              <CardHeader>
-                <CardTitle>Student Management</CardTitle>
-                <CardDescription>Upload student email lists and manage registrations</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <StudentManagement />
-              </CardContent>
-            </Card>
-          </TabsContent>
+            {can("manage_tests") && (
+              <TabsContent value="tests">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Test Management</CardTitle>
+                    <CardDescription>Create tests, set duration, and manage test sessions</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <TestManagement />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            )}
 
-          <TabsContent value="tests">
-            <Card>
-              <CardHeader>
-                <CardTitle>Test Management</CardTitle>
-                <CardDescription>Create tests, set duration, and manage test sessions</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <TestManagement />
-              </CardContent>
-            </Card>
-          </TabsContent>
+            {can("manage_tests") && (
+              <TabsContent value="grading">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Grading Schemes</CardTitle>
+                    <CardDescription>Set pass marks and grade bands for tests and batches</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <GradingSchemeManagement />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            )}
 
-          <TabsContent value="results">
-            <Card>
-              <CardHeader>
-                <CardTitle>Test Results</CardTitle>
-                <CardDescription>View test submissions and student performance</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <TestResults />
-              </CardContent>
-            </Card>
-          </TabsContent>
-        </Tabs>
+            {can("view_results") && (
+              <TabsContent value="results">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Test Results</CardTitle>
+                    <CardDescription>View test submissions and student performance</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <TestResults />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            )}
+          </Tabs>
+        )}
       </div>
     </div>
   );
@@ -1,49 +0,0 @@
-import { useEffect } from "react";
-import { useRouter } from "next/router";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Button } from "@/components/ui/button";
-import { CheckCircle } from "lucide-react";
-
-const TestComplete = () => {
-  const router = useRouter();
-
-  useEffect(() => {
-    // Redirect to home after 10 seconds
-    const timer = setTimeout(() => {
-      router.push("/");
-    }, 10000);
-
-    return () => clearTimeout(timer);
-  }, [router]);
-
-  return (
-    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
-      <Card className="w-full max-w-md">
-        <CardHeader>
-          <div className="flex justify-center mb-4">
-            <CheckCircle className="h-16 w-16 text-green-500" />
-          </div>
-          <CardTitle className="text-center">Test Submitted Successfully!</CardTitle>
-          <CardDescription className="text-center">
-            Thank you for completing the test. Your responses have been recorded.
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            <p className="text-center text-gray-600">
-              You will be redirected to the home page in 10 seconds.
-            </p>
-            <Button
-              className="w-full"
-              onClick={() => router.push("/")}
-            >
-              Return to Home
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
-    </div>
-  );
-};
-
-export default TestComplete; 
\ No newline at end of file
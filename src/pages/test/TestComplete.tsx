@@ -0,0 +1,23 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle } from "lucide-react";
+
+const TestComplete = () => (
+  <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <div className="flex justify-center mb-4">
+          <CheckCircle className="h-16 w-16 text-green-500" />
+        </div>
+        <CardTitle className="text-center">Test Submitted Successfully!</CardTitle>
+        <CardDescription className="text-center">
+          Thank you for completing the test. Your responses have been recorded.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <p className="text-center text-gray-600">You can now close this window.</p>
+      </CardContent>
+    </Card>
+  </div>
+);
+
+export default TestComplete;
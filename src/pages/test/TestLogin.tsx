@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { candidateLogin, getCandidateSession } from "@/lib/examService";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -21,18 +22,25 @@ const TestLogin = () => {
   const [loading, setLoading] = useState(false);
   const [testInfo, setTestInfo] = useState<{
     title: string;
-    batch_name: string;
+    batch_name: string | null;
     start_time: string;
     end_time: string;
     duration_minutes: number;
   } | null>(null);
+  // Why the test can't be taken from this link right now
+  const [unavailable, setUnavailable] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     email: "",
-    password: "",
+    accessCode: "",
   });
 
   useEffect(() => {
     if (testId) {
+      // Reopening the link mid-attempt goes straight back to the exam
+      if (getCandidateSession(testId)) {
+        navigate(`/exam/${testId}`, { replace: true });
+        return;
+      }
       fetchTestInfo();
     }
   }, [testId]);
@@ -58,22 +66,12 @@ const TestLogin = () => {
       if (error) throw error;
 
       if (!test) {
-        toast({
-          title: "Error",
-          description: "Test not found",
-          variant: "destructive",
-        });
-        navigate("/");
+        setUnavailable("Test not found");
         return;
       }
 
       if (!test.is_active) {
-        toast({
-          title: "Error",
-          description: "This test is not active",
-          variant: "destructive",
-        });
-        navigate("/");
+        setUnavailable("This test is not active");
         return;
       }
 
@@ -82,40 +80,25 @@ const TestLogin = () => {
       const endTime = new Date(test.end_time);
 
       if (now < startTime) {
-        toast({
-          title: "Error",
-          description: "Test has not started yet",
-          variant: "destructive",
-        });
-        navigate("/");
+        setUnavailable("Test has not started yet");
         return;
       }
 
       if (now > endTime) {
-        toast({
-          title: "Error",
-          description: "Test has ended",
-          variant: "destructive",
-        });
-        navigate("/");
+        setUnavailable("Test has ended");
         return;
       }
 
       setTestInfo({
         title: test.title,
-        batch_name: test.batch.name,
+        batch_name: test.batch?.name ?? null,
         start_time: new Date(test.start_time).toLocaleString(),
         end_time: new Date(test.end_time).toLocaleString(),
         duration_minutes: test.duration_minutes,
       });
     } catch (error) {
       console.error("Error fetching test info:", error);
-      toast({
-        title: "Error",
-        description: "Failed to fetch test information",
-        variant: "destructive",
-      });
-      navigate("/");
+      setUnavailable("Failed to fetch test information");
     }
   };
 
@@ -125,37 +108,7 @@ const TestLogin = () => {
 
     setLoading(true);
     try {
-      const { data: student, error } = await supabase
-        .from("students")
-        .select("id, name, has_taken_test")
-        .eq("email", formData.email)
-        .eq("password", formData.password)
-        .single();
-
-      if (error) throw error;
-
-      if (!student) {
-        toast({
-          title: "Error",
-          description: "Invalid email or password",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      if (student.has_taken_test) {
-        toast({
-          title: "Error",
-          description: "You have already taken this test",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // Store student info in session
-      sessionStorage.setItem("studentId", student.id);
-      sessionStorage.setItem("studentName", student.name);
-      sessionStorage.setItem("testId", testId);
+      await candidateLogin(testId, formData.email, formData.accessCode);
 
       // Redirect to exam page with security setup
       navigate(`/exam/${testId}`);
@@ -163,7 +116,7 @@ const TestLogin = () => {
       console.error("Error during login:", error);
       toast({
         title: "Error",
-        description: "Failed to login. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to login. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -171,6 +124,19 @@ const TestLogin = () => {
     }
   };
 
+  if (unavailable) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="text-center">Test unavailable</CardTitle>
+            <CardDescription className="text-center">{unavailable}</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
   if (!testInfo) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -186,9 +152,11 @@ const TestLogin = () => {
           <CardTitle className="text-2xl font-bold text-center">
             {testInfo.title}
           </CardTitle>
-          <CardDescription className="text-center">
-            Batch: {testInfo.batch_name}
-          </CardDescription>
+          {testInfo.batch_name && (
+            <CardDescription className="text-center">
+              Batch: {testInfo.batch_name}
+            </CardDescription>
+          )}
           <div className="text-sm text-gray-500 text-center mt-2">
             <p>Start Time: {testInfo.start_time}</p>
             <p>End Time: {testInfo.end_time}</p>
@@ -211,14 +179,15 @@ const TestLogin = () => {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
+              <Label htmlFor="accessCode">Access Code</Label>
               <Input
-                id="password"
+                id="accessCode"
                 type="password"
-                placeholder="Enter your password"
-                value={formData.password}
+                autoComplete="one-time-code"
+                placeholder="Enter the access code from your invitation"
+                value={formData.accessCode}
                 onChange={(e) =>
-                  setFormData({ ...formData, password: e.target.value })
+                  setFormData({ ...formData, accessCode: e.target.value })
                 }
                 required
               />
@@ -233,6 +202,9 @@ const TestLogin = () => {
               ) : null}
               Login to Start Test
             </Button>
+            <p className="text-xs text-gray-500 text-center">
+              Interrupted? Log in again with the same access code to resume where you left off.
+            </p>
           </form>
         </CardContent>
       </Card>
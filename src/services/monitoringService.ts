@@ -1,96 +1,165 @@
 import { io, Socket } from 'socket.io-client';
+import { CandidateSession, candidateToken } from '@/lib/examService';
 
-// Define the WebSocket URL
-const WEBSOCKET_URL = 'ws://localhost:3001';
+// The proctoring server in server/proctoring. Monitoring is off when unset.
+export const PROCTORING_URL = import.meta.env.VITE_PROCTORING_URL;
+
+// Length of each recording chunk sent to the server
+const CHUNK_MS = 1000;
+
+// How often, and how large, camera stills are sent for the proctors' live grid
+const THUMBNAIL_INTERVAL_MS = 3000;
+const THUMBNAIL_WIDTH = 240;
+
+export type StreamKind = 'camera' | 'screen' | 'audio';
 
 interface MonitoringService {
-  connect: () => void;
+  connect: (session: CandidateSession) => void;
   disconnect: () => void;
-  sendStream: (stream: MediaStream, type: 'camera' | 'screen' | 'audio') => void;
-  onWarning: (callback: (warning: string) => void) => void;
-  onExamTerminated: (callback: () => void) => void;
+  sendStream: (stream: MediaStream, kind: StreamKind) => boolean;
+  onWarning: (callback: (warning: string) => void) => () => void;
+  onExamTerminated: (callback: (reason: string | null) => void) => () => void;
+  onPauseChange: (callback: (paused: boolean) => void) => () => void;
+  onTimeAdded: (callback: (minutes: number) => void) => () => void;
 }
 
+interface ActiveRecording {
+  recorder: MediaRecorder;
+  stream: MediaStream;
+  // Stops the camera stills, for camera recordings
+  stopThumbnails?: () => void;
+}
+
+const MIME_TYPES: Record<StreamKind, string[]> = {
+  camera: ['video/webm;codecs=vp8,opus', 'video/webm'],
+  screen: ['video/webm;codecs=vp8', 'video/webm'],
+  audio: ['audio/webm;codecs=opus', 'audio/webm'],
+};
+
+const pickMimeType = (kind: StreamKind) =>
+  MIME_TYPES[kind].find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+
+// Sends a small JPEG of the camera every few seconds. Returns a function that
+// stops it.
+const startThumbnails = (socket: Socket, stream: MediaStream) => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.srcObject = stream;
+  video.play().catch(() => undefined);
+  const canvas = document.createElement('canvas');
+
+  const timer = window.setInterval(() => {
+    if (!video.videoWidth || !socket.connected) return;
+    canvas.width = THUMBNAIL_WIDTH;
+    canvas.height = Math.round((video.videoHeight / video.videoWidth) * THUMBNAIL_WIDTH);
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(async (blob) => {
+      if (blob) socket.volatile.emit('thumbnail', await blob.arrayBuffer());
+    }, 'image/jpeg', 0.6);
+  }, THUMBNAIL_INTERVAL_MS);
+
+  return () => {
+    window.clearInterval(timer);
+    video.srcObject = null;
+  };
+};
+
+// Streams the candidate's camera, screen and audio to the proctoring server,
+// which stores them as recordings of the test session and shows camera
+// stills to proctors, and relays the proctor's warnings, pauses, added time
+// and termination back to the exam page.
 class MonitoringServiceImpl implements MonitoringService {
   private socket: Socket | null = null;
-  private streamHandlers: Map<string, MediaStream> = new Map();
+  private recordings: Map<string, ActiveRecording> = new Map();
   private warningHandlers: ((warning: string) => void)[] = [];
-  private examTerminatedHandlers: (() => void)[] = [];
-
-  connect() {
-    if (!this.socket) {
-      this.socket = io(WEBSOCKET_URL);
-      
-      this.socket.on('warning', (warning: string) => {
-        this.warningHandlers.forEach(handler => handler(warning));
-      });
-
-      this.socket.on('exam_terminated', () => {
-        this.examTerminatedHandlers.forEach(handler => handler());
-      });
+  private examTerminatedHandlers: ((reason: string | null) => void)[] = [];
+  private pauseHandlers: ((paused: boolean) => void)[] = [];
+  private timeAddedHandlers: ((minutes: number) => void)[] = [];
+
+  connect(session: CandidateSession) {
+    if (this.socket) return;
+    if (!PROCTORING_URL) {
+      console.warn('VITE_PROCTORING_URL is not set; the session will not be monitored.');
+      return;
     }
-  }
 
-  disconnect() {
-    if (this.socket) {
-      this.socket.disconnect();
-      this.socket = null;
-    }
-  }
-
-  sendStream(stream: MediaStream, type: 'camera' | 'screen' | 'audio') {
-    if (!this.socket) return;
-
-    // Store the stream handler
-    this.streamHandlers.set(type, stream);
+    // Authenticated with the session's candidate token, read again on every
+    // reconnect in case it was renewed
+    this.socket = io(`${PROCTORING_URL}/candidate`, {
+      auth: (callback) => callback({ token: candidateToken(session) }),
+    });
 
-    // Create a MediaRecorder for the stream
-    const recorder = new MediaRecorder(stream, {
-      mimeType: type === 'audio' ? 'audio/webm' : 'video/webm',
+    this.socket.on('connect_error', (error) => {
+      console.error('Error connecting to the proctoring server:', error.message);
     });
 
-    recorder.ondataavailable = (event) => {
-      if (event.data.size > 0 && this.socket) {
-        this.socket.emit('stream-data', {
-          type,
-          data: event.data,
-        });
-      }
-    };
+    this.socket.on('warning', (warning: string) => {
+      this.warningHandlers.forEach(handler => handler(warning));
+    });
 
-    // Start recording and send data every second
-    recorder.start(1000);
-  }
+    this.socket.on('exam_terminated', (event?: { reason?: string | null }) => {
+      this.examTerminatedHandlers.forEach(handler => handler(event?.reason ?? null));
+    });
 
-  startMonitoring(stream: MediaStream) {
-    if (!this.socket) {
-      throw new Error('Socket not connected. Call connect() first.');
-    }
+    this.socket.on('exam_paused', () => {
+      this.pauseHandlers.forEach(handler => handler(true));
+    });
 
-    // Create a MediaRecorder to capture the stream
-    const mediaRecorder = new MediaRecorder(stream, {
-      mimeType: 'video/webm;codecs=vp8,opus'
+    this.socket.on('exam_resumed', () => {
+      this.pauseHandlers.forEach(handler => handler(false));
     });
 
-    // Send video chunks to the server
-    mediaRecorder.ondataavailable = (event) => {
-      if (event.data.size > 0 && this.socket) {
-        this.socket.emit('video_chunk', event.data);
-      }
-    };
+    this.socket.on('time_added', (event: { minutes: number }) => {
+      this.timeAddedHandlers.forEach(handler => handler(event.minutes));
+    });
+  }
 
-    // Start recording
-    mediaRecorder.start(1000); // Send chunks every second
+  // Stops the recordings along with their streams, which the service owns
+  // once they are handed to sendStream
+  disconnect() {
+    this.recordings.forEach(({ recorder, stream, stopThumbnails }) => {
+      stopThumbnails?.();
+      if (recorder.state !== 'inactive') recorder.stop();
+      stream.getTracks().forEach(track => track.stop());
+    });
+    this.recordings.clear();
 
-    // Store the mediaRecorder for cleanup
-    (this as any).mediaRecorder = mediaRecorder;
+    if (this.socket) {
+      this.socket.emit('recording_end');
+      this.socket.disconnect();
+      this.socket = null;
+    }
   }
 
-  stopMonitoring() {
-    if ((this as any).mediaRecorder) {
-      (this as any).mediaRecorder.stop();
-      (this as any).mediaRecorder = null;
-    }
+  // Records the stream in short chunks and sends them to the server. Returns
+  // false, leaving the stream to the caller, when monitoring is off.
+  sendStream(stream: MediaStream, kind: StreamKind) {
+    if (!this.socket) return false;
+
+    const socket = this.socket;
+    const recording = `${kind}-${Date.now()}`;
+    const mimeType = pickMimeType(kind);
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    let sequence = 0;
+
+    recorder.ondataavailable = async (event) => {
+      if (event.data.size === 0) return;
+      socket.emit('recording_chunk', {
+        recording,
+        kind,
+        mime_type: recorder.mimeType || mimeType,
+        sequence: sequence++,
+        data: await event.data.arrayBuffer(),
+      });
+    };
+
+    this.recordings.set(recording, {
+      recorder,
+      stream,
+      stopThumbnails: kind === 'camera' ? startThumbnails(socket, stream) : undefined,
+    });
+    recorder.start(CHUNK_MS);
+    return true;
   }
 
   onWarning(handler: (warning: string) => void) {
@@ -100,12 +169,26 @@ class MonitoringServiceImpl implements MonitoringService {
     };
   }
 
-  onExamTerminated(handler: () => void) {
+  onExamTerminated(handler: (reason: string | null) => void) {
     this.examTerminatedHandlers.push(handler);
     return () => {
       this.examTerminatedHandlers = this.examTerminatedHandlers.filter(h => h !== handler);
     };
   }
+
+  onPauseChange(handler: (paused: boolean) => void) {
+    this.pauseHandlers.push(handler);
+    return () => {
+      this.pauseHandlers = this.pauseHandlers.filter(h => h !== handler);
+    };
+  }
+
+  onTimeAdded(handler: (minutes: number) => void) {
+    this.timeAddedHandlers.push(handler);
+    return () => {
+      this.timeAddedHandlers = this.timeAddedHandlers.filter(h => h !== handler);
+    };
+  }
 }
 
-export const monitoringService = new MonitoringServiceImpl(); 
\ No newline at end of file
+export const monitoringService = new MonitoringServiceImpl();
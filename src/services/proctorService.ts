@@ -0,0 +1,106 @@
+import { io, Socket } from 'socket.io-client';
+import { supabase } from '@/integrations/supabase/client';
+import { PROCTORING_URL } from './monitoringService';
+
+// How long to wait for the proctoring server to confirm a relayed action
+const RELAY_TIMEOUT_MS = 5000;
+
+export interface OnlineSessions {
+  session_ids: string[];
+  // Latest camera still per session, JPEG bytes
+  thumbnails: Record<string, ArrayBuffer>;
+}
+
+export interface SessionThumbnail {
+  session_id: string;
+  image: ArrayBuffer;
+}
+
+export interface SessionPresence {
+  session_id: string;
+  online: boolean;
+}
+
+// The proctor's side of the proctoring server: which candidates are
+// connected, their camera stills, and relaying actions to their exam page
+class ProctorServiceImpl {
+  private socket: Socket | null = null;
+  private onlineHandlers: ((online: OnlineSessions) => void)[] = [];
+  private presenceHandlers: ((presence: SessionPresence) => void)[] = [];
+  private thumbnailHandlers: ((thumbnail: SessionThumbnail) => void)[] = [];
+
+  // Returns false when no proctoring server is configured
+  connect() {
+    if (this.socket) return true;
+    if (!PROCTORING_URL) return false;
+
+    // Authenticated with the admin's current access token on every (re)connect
+    this.socket = io(`${PROCTORING_URL}/proctor`, {
+      auth: (callback) => {
+        supabase.auth.getSession().then(({ data }) => callback({ token: data.session?.access_token }));
+      },
+    });
+
+    this.socket.on('connect_error', (error) => {
+      console.error('Error connecting to the proctoring server:', error.message);
+    });
+
+    this.socket.on('online', (online: OnlineSessions) => {
+      this.onlineHandlers.forEach(handler => handler(online));
+    });
+
+    this.socket.on('presence', (presence: SessionPresence) => {
+      this.presenceHandlers.forEach(handler => handler(presence));
+    });
+
+    this.socket.on('thumbnail', (thumbnail: SessionThumbnail) => {
+      this.thumbnailHandlers.forEach(handler => handler(thumbnail));
+    });
+
+    return true;
+  }
+
+  disconnect() {
+    if (this.socket) {
+      this.socket.disconnect();
+      this.socket = null;
+    }
+  }
+
+  // Sends an action to the candidate's open exam pages. Resolves to how many
+  // received it: 0 when the candidate, or the server, is offline.
+  async relay(event: string, payload: Record<string, unknown>) {
+    if (!this.socket?.connected) return 0;
+
+    try {
+      const { delivered } = await this.socket.timeout(RELAY_TIMEOUT_MS).emitWithAck(event, payload);
+      return delivered as number;
+    } catch (error) {
+      console.error('Error relaying proctor action:', error);
+      return 0;
+    }
+  }
+
+  onOnline(handler: (online: OnlineSessions) => void) {
+    this.onlineHandlers.push(handler);
+    return () => {
+      this.onlineHandlers = this.onlineHandlers.filter(h => h !== handler);
+    };
+  }
+
+  onPresence(handler: (presence: SessionPresence) => void) {
+    this.presenceHandlers.push(handler);
+    return () => {
+      this.presenceHandlers = this.presenceHandlers.filter(h => h !== handler);
+    };
+  }
+
+  onThumbnail(handler: (thumbnail: SessionThumbnail) => void) {
+    this.thumbnailHandlers.push(handler);
+    return () => {
+      this.thumbnailHandlers = this.thumbnailHandlers.filter(h => h !== handler);
+    };
+  }
+}
+
+export const proctorService = new ProctorServiceImpl();
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the proctoring server in server/proctoring, e.g. http://localhost:3001
+  readonly VITE_PROCTORING_URL?: string;
+}
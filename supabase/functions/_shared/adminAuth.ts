@@ -0,0 +1,30 @@
+import { createAdminClient } from "./supabaseAdmin.ts";
+import { HttpError } from "./http.ts";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+// Mirrors the admin_role enum; see src/lib/roles.ts for what each may do
+export type AdminRole = "owner" | "test_author" | "proctor" | "grader";
+
+// Verifies the signed-in admin's access token sent by supabase-js and checks
+// their role against the ones allowed
+export const requireAdmin = async (req: Request, supabase: AdminClient, roles: AdminRole[]) => {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  const { data: userData } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+  const user = userData?.user;
+  if (!user) {
+    throw new HttpError(401, "Sign in as an admin to do this");
+  }
+
+  const { data: admin, error } = await supabase
+    .from("admin_users")
+    .select("role")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!admin || !roles.includes(admin.role as AdminRole)) {
+    throw new HttpError(403, "Your admin role doesn't allow this");
+  }
+  return { userId: user.id, role: admin.role as AdminRole };
+};
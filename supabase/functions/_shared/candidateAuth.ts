@@ -0,0 +1,30 @@
+import { HttpError } from "./http.ts";
+import { CandidateClaims, signCandidateToken, verifyCandidateToken } from "./candidateToken.ts";
+
+export const CANDIDATE_TOKEN_HEADER = "x-candidate-token";
+
+const tokenSecret = () => {
+  const secret = Deno.env.get("CANDIDATE_TOKEN_SECRET");
+  if (!secret) throw new Error("CANDIDATE_TOKEN_SECRET is not configured");
+  return secret;
+};
+
+// Extra validity on top of the session deadline, for reloads and slow submits
+const TOKEN_GRACE_SECONDS = 60 * 60;
+
+// When a token for a session with the given deadline expires, in seconds
+// since epoch
+export const candidateTokenExpiry = (deadline: Date) => Math.floor(deadline.getTime() / 1000) + TOKEN_GRACE_SECONDS;
+
+export const issueCandidateToken = (claims: CandidateClaims) =>
+  signCandidateToken(claims, tokenSecret());
+
+// Reads and verifies the candidate token sent with the request
+export const requireCandidate = async (req: Request) => {
+  const token = req.headers.get(CANDIDATE_TOKEN_HEADER);
+  const claims = token ? await verifyCandidateToken(token, tokenSecret()) : null;
+  if (!claims) {
+    throw new HttpError(401, "Your exam session is invalid or has expired");
+  }
+  return claims;
+};
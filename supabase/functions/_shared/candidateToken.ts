@@ -0,0 +1,58 @@
+// Signed candidate session tokens: base64url(claims).base64url(HMAC-SHA256).
+// Pure Web Crypto so it can be shared with any other server runtime.
+
+export interface CandidateClaims {
+  // test_sessions.id
+  sid: string;
+  // students.id
+  stu: string;
+  // tests.id the token is bound to
+  tid: string;
+  // expiry, seconds since epoch
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, "+").replace(/_/g, "/")), (char) => char.charCodeAt(0));
+
+const importKey = (secret: string) =>
+  crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+
+export const signCandidateToken = async (claims: CandidateClaims, secret: string) => {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign("HMAC", await importKey(secret), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+// Returns the claims, or null when the token is malformed, forged or expired
+export const verifyCandidateToken = async (token: string, secret: string) => {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await importKey(secret),
+      fromBase64Url(signature),
+      encoder.encode(payload),
+    );
+    if (!valid) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as CandidateClaims;
+    if (!claims.sid || !claims.tid || claims.exp * 1000 < Date.now()) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+};
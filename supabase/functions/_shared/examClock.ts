@@ -0,0 +1,62 @@
+// Exam deadlines, always computed against the server clock. The deadline
+// module is shared with the proctor dashboard, which shows the time left.
+export { pausedFor, sessionDeadline, timeAllowance } from "../../../src/lib/sessionClock.ts";
+
+interface TimedTest {
+  duration_minutes: number;
+  end_time: string | null;
+  grace_period_seconds: number;
+}
+
+// Answers are accepted until the grace period after the deadline runs out
+export const acceptsAnswers = (deadline: Date, test: TimedTest, now = new Date()) =>
+  now.getTime() <= deadline.getTime() + test.grace_period_seconds * 1000;
+
+export const TIME_EXPIRED = "Your time ran out before your answers reached the server";
+
+// Status and message for requests made while the session is paused
+export const SESSION_PAUSED_STATUS = 423;
+export const SESSION_PAUSED = "Your test is paused";
+
+interface TimedSection {
+  duration_minutes: number | null;
+}
+
+export interface SectionClock {
+  index: number;
+  startedAt: Date;
+  // When the section closes: its own limit, or the session deadline if that
+  // comes first
+  deadline: Date;
+}
+
+const sectionDeadline = (section: TimedSection, startedAt: Date, sessionDeadline: Date) =>
+  section.duration_minutes
+    ? new Date(Math.min(startedAt.getTime() + section.duration_minutes * 60 * 1000, sessionDeadline.getTime()))
+    : sessionDeadline;
+
+// The section a session is in at `now`. A section whose time ran out (grace
+// included) hands over to the next one, which is taken to have started then,
+// so a candidate who was away resumes in the right section. The last
+// section never hands over; its deadline is the one to enforce.
+export const currentSection = (
+  sections: TimedSection[],
+  index: number,
+  startedAt: Date,
+  sessionDeadlineAt: Date,
+  test: TimedTest,
+  now = new Date(),
+): SectionClock => {
+  let clock = { index, startedAt, deadline: sectionDeadline(sections[index], startedAt, sessionDeadlineAt) };
+
+  while (clock.index < sections.length - 1 && !acceptsAnswers(clock.deadline, test, now)) {
+    const nextStart = new Date(clock.deadline.getTime() + test.grace_period_seconds * 1000);
+    clock = {
+      index: clock.index + 1,
+      startedAt: nextStart,
+      deadline: sectionDeadline(sections[clock.index + 1], nextStart, sessionDeadlineAt),
+    };
+  }
+
+  return clock;
+};
@@ -0,0 +1,181 @@
+import { createAdminClient } from "./supabaseAdmin.ts";
+import { gradeAnswers, scoreSections } from "./grading.ts";
+import { HttpError } from "./http.ts";
+import { OptionOrders, PaperSection, toCanonicalResponse } from "./paper.ts";
+import { loadGradableQuestions, loadTestScoring } from "./sessionPaper.ts";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+interface OpenSession {
+  id: string;
+  test_id: string;
+  student_id: string;
+  question_order: string[] | null;
+  option_orders: unknown;
+  question_points: unknown;
+  section_layout: unknown;
+  // Put back if grading fails; see below
+  paused_at?: string | null;
+  pause_reason?: string | null;
+}
+
+interface FinalizeOptions {
+  // Closed by the server after the deadline rather than submitted in time
+  timedOut?: boolean;
+  // Closed by the server at the test's violation submit threshold
+  autoSubmitted?: boolean;
+  // Ended early by a proctor; graded on what was saved
+  terminated?: { by: string; reason: string | null };
+}
+
+// Grades the claimed session and stores its answers and scores
+const gradeSession = async (
+  supabase: AdminClient,
+  session: OpenSession,
+  responses: Record<string, unknown>,
+  completedAt: string,
+) => {
+  const { rules, voided } = await loadTestScoring(supabase, session.test_id);
+  const questions = await loadGradableQuestions(supabase, session, voided);
+
+  const { data: saved, error: savedError } = await supabase
+    .from("test_submissions")
+    .select("question_id, response")
+    .eq("session_id", session.id);
+
+  if (savedError) throw savedError;
+
+  // Saved responses are already canonical; submitted ones are mapped back to
+  // the canonical option ids
+  const optionOrders = (session.option_orders ?? {}) as OptionOrders;
+  const canonical: Record<string, unknown> = Object.fromEntries(
+    (saved ?? []).map((answer) => [answer.question_id, answer.response]),
+  );
+  for (const question of questions) {
+    if (!(question.id in (responses ?? {}))) continue;
+    canonical[question.id] = toCanonicalResponse(
+      question.question_type,
+      responses[question.id],
+      optionOrders[question.id],
+    );
+  }
+
+  const result = gradeAnswers(questions, canonical, rules);
+  const sections = session.section_layout as PaperSection[] | null;
+  const answered = result.answers.filter((answer) => answer.response !== null);
+
+  const { error: submissionsError } = await supabase
+    .from("test_submissions")
+    .upsert(
+      answered.map((answer) => ({
+        ...answer,
+        session_id: session.id,
+        test_id: session.test_id,
+        student_id: session.student_id,
+        submitted_at: completedAt,
+      })),
+      { onConflict: "session_id,question_id" },
+    );
+
+  if (submissionsError) throw submissionsError;
+
+  // Drop saved answers that were cleared at submission or are no longer on
+  // the paper; all of them when nothing was answered, as PostgREST rejects
+  // an empty in list
+  let cleanup = supabase.from("test_submissions").delete().eq("session_id", session.id);
+  if (answered.length) {
+    cleanup = cleanup.not("question_id", "in", `(${answered.map((answer) => answer.question_id).join(",")})`);
+  }
+  const { error: cleanupError } = await cleanup;
+
+  if (cleanupError) throw cleanupError;
+
+  const { error: updateError } = await supabase
+    .from("test_sessions")
+    .update({
+      graded_at: completedAt,
+      total_score: result.total_score,
+      raw_score: result.raw_score,
+      max_score: result.max_score,
+      total_questions: result.total_questions,
+      section_scores: sections?.length ? scoreSections(sections, questions, result) : null,
+    })
+    .eq("id", session.id);
+
+  if (updateError) throw updateError;
+};
+
+// Grades the session's answers and closes it. Autosaved answers are the
+// starting point; responses sent with the submission (keyed by question id,
+// with option ids as presented by exam-paper, null to clear) override them.
+// The session is claimed first, so a submit racing a timeout only closes it
+// once; if grading then fails the claim is undone, so the session can be
+// submitted again rather than stay closed without a score.
+export const finalizeSession = async (
+  supabase: AdminClient,
+  session: OpenSession,
+  responses: Record<string, unknown>,
+  { timedOut = false, autoSubmitted = false, terminated }: FinalizeOptions = {},
+) => {
+  const completedAt = new Date().toISOString();
+
+  const { data: claimed, error: claimError } = await supabase
+    .from("test_sessions")
+    .update({
+      completed_at: completedAt,
+      timed_out: timedOut,
+      auto_submitted: autoSubmitted,
+      paused_at: null,
+      pause_reason: null,
+      ...(terminated && {
+        terminated_at: completedAt,
+        terminated_by: terminated.by,
+        termination_reason: terminated.reason,
+      }),
+    })
+    .eq("id", session.id)
+    .is("completed_at", null)
+    .select("id");
+
+  if (claimError) throw claimError;
+  if (!claimed?.length) throw new HttpError(409, "Test has already been submitted");
+
+  try {
+    await gradeSession(supabase, session, responses, completedAt);
+  } catch (error) {
+    const { error: releaseError } = await supabase
+      .from("test_sessions")
+      .update({
+        completed_at: null,
+        timed_out: false,
+        auto_submitted: false,
+        paused_at: session.paused_at ?? null,
+        pause_reason: session.pause_reason ?? null,
+        terminated_at: null,
+        terminated_by: null,
+        termination_reason: null,
+      })
+      .eq("id", session.id)
+      .eq("completed_at", completedAt);
+
+    if (releaseError) console.error("Error releasing the session after failed grading:", releaseError);
+    throw error;
+  }
+
+  const { error: studentError } = await supabase
+    .from("students")
+    .update({ has_taken_test: true })
+    .eq("id", session.student_id);
+
+  if (studentError) throw studentError;
+
+  return { completed_at: completedAt, timed_out: timedOut };
+};
+
+// Grades a session the server auto-submitted again with the answers the exam
+// page still held when it was closed, as if they had come with it
+export const gradeHeldAnswers = (
+  supabase: AdminClient,
+  session: OpenSession & { completed_at: string },
+  responses: Record<string, unknown>,
+) => gradeSession(supabase, session, responses, session.completed_at);
@@ -0,0 +1,180 @@
+// Grading rules. Runs server-side only: the answer key never leaves the
+// edge functions.
+import type {
+  AnswerKey,
+  NumericAnswerKey,
+  QuestionType,
+  ShortTextAnswerKey,
+} from "../../../src/lib/questionTypes.ts";
+import { isAnswered } from "../../../src/lib/questionTypes.ts";
+
+export interface GradableQuestion {
+  id: string;
+  question_type: QuestionType;
+  correct_answer: AnswerKey;
+  // Weight from test_questions.points
+  points: number;
+  // Taken out of the test's scoring after it ran: earns nothing and doesn't
+  // count towards the maximum
+  voided?: boolean;
+}
+
+// Per-test scoring settings from the tests table
+export interface ScoringRules {
+  // Fraction of a question's points deducted for a wrong answer
+  wrong_answer_penalty: number;
+  // Multiple select questions earn credit for each correct choice
+  partial_credit: boolean;
+}
+
+export interface GradedAnswer {
+  question_id: string;
+  response: unknown;
+  // Fully correct
+  is_correct: boolean;
+  // Points earned, after partial credit and any penalty
+  score: number;
+}
+
+export interface GradingResult {
+  answers: GradedAnswer[];
+  // Weighted: the sum of the answers' scores, never below zero
+  total_score: number;
+  // Questions answered fully correctly
+  raw_score: number;
+  max_score: number;
+  total_questions: number;
+}
+
+const NO_PENALTIES: ScoringRules = { wrong_answer_penalty: 0, partial_credit: false };
+
+const normalizeChoice = (value: unknown) => String(value).trim().toUpperCase();
+
+const normalizeText = (value: string, caseSensitive: boolean) => {
+  const collapsed = value.trim().replace(/\s+/g, " ");
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+};
+
+const sameSet = (a: string[], b: string[]) => {
+  const left = new Set(a.map(normalizeChoice));
+  const right = new Set(b.map(normalizeChoice));
+  return left.size === right.size && [...left].every((value) => right.has(value));
+};
+
+const sameSequence = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((value, index) => normalizeChoice(value) === normalizeChoice(b[index]));
+
+// Scores are kept to two decimals so fractional penalties add up cleanly
+const roundScore = (value: number) => Math.round(value * 100) / 100;
+
+// Share of a multiple select question's points a response earns: correct
+// choices minus wrong ones over the number of correct choices, never below
+// zero, so selecting everything earns nothing
+const partialCredit = (response: unknown, key: string[]) => {
+  if (!Array.isArray(response) || key.length === 0) return 0;
+
+  const correct = new Set(key.map(normalizeChoice));
+  const chosen = new Set(response.map(normalizeChoice));
+  const hits = [...chosen].filter((choice) => correct.has(choice)).length;
+  return Math.max(0, (hits - (chosen.size - hits)) / correct.size);
+};
+
+const isCorrect = (question: GradableQuestion, response: unknown): boolean => {
+  const key = question.correct_answer;
+
+  switch (question.question_type) {
+    case "single_choice":
+      return typeof response === "string" && normalizeChoice(response) === normalizeChoice(key);
+    case "multiple_select":
+      return Array.isArray(response) && sameSet(response.map(String), key as string[]);
+    case "true_false":
+      return typeof response === "boolean" && response === key;
+    case "numeric": {
+      const { value, tolerance } = key as NumericAnswerKey;
+      const answer = typeof response === "number" ? response : Number(response);
+      return Number.isFinite(answer) && Math.abs(answer - value) <= tolerance;
+    }
+    case "short_text": {
+      const { accepted, case_sensitive } = key as ShortTextAnswerKey;
+      if (typeof response !== "string") return false;
+      const answer = normalizeText(response, case_sensitive);
+      return accepted.some((candidate) => normalizeText(candidate, case_sensitive) === answer);
+    }
+    case "ordering":
+      return Array.isArray(response) && sameSequence(response.map(String), key as string[]);
+    default:
+      return false;
+  }
+};
+
+export const gradeAnswers = (
+  questions: GradableQuestion[],
+  responses: Record<string, unknown>,
+  rules: ScoringRules = NO_PENALTIES,
+): GradingResult => {
+  const answers = questions.map((question) => {
+    const response = responses[question.id];
+    if (!isAnswered(response)) {
+      return { question_id: question.id, response: null, is_correct: false, score: 0 };
+    }
+    // The answer is kept so the question can be reinstated
+    if (question.voided) {
+      return { question_id: question.id, response, is_correct: false, score: 0 };
+    }
+
+    const correct = isCorrect(question, response);
+    const credit = correct
+      ? 1
+      : rules.partial_credit && question.question_type === "multiple_select"
+        ? partialCredit(response, question.correct_answer as string[])
+        : 0;
+
+    // Only an answer that earns nothing is wrong and penalised
+    return {
+      question_id: question.id,
+      response,
+      is_correct: correct,
+      score: roundScore(credit > 0 ? credit * question.points : -rules.wrong_answer_penalty * question.points),
+    };
+  });
+
+  const scored = questions.filter((question) => !question.voided);
+  return {
+    answers,
+    total_score: Math.max(0, roundScore(answers.reduce((total, answer) => total + answer.score, 0))),
+    raw_score: answers.filter((answer) => answer.is_correct).length,
+    max_score: scored.reduce((total, question) => total + question.points, 0),
+    total_questions: scored.length,
+  };
+};
+
+export interface SectionScore {
+  section_id: string;
+  title: string;
+  score: number;
+  max_score: number;
+  total_questions: number;
+}
+
+// Splits a graded paper's score by the sections it was served in
+export const scoreSections = (
+  sections: { id: string; title: string; question_ids: string[] }[],
+  questions: GradableQuestion[],
+  result: GradingResult,
+): SectionScore[] => {
+  const scores = new Map(result.answers.map((answer) => [answer.question_id, answer.score]));
+  const points = new Map(
+    questions.filter((question) => !question.voided).map((question) => [question.id, question.points]),
+  );
+
+  return sections.map((section) => {
+    const graded = section.question_ids.filter((id) => points.has(id));
+    return {
+      section_id: section.id,
+      title: section.title,
+      score: Math.max(0, roundScore(graded.reduce((total, id) => total + (scores.get(id) ?? 0), 0))),
+      max_score: graded.reduce((total, id) => total + points.get(id), 0),
+      total_questions: graded.length,
+    };
+  });
+};
@@ -0,0 +1,35 @@
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-candidate-token",
+};
+
+// Thrown from handlers to return a specific status code to the caller
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Wraps a handler with CORS preflight handling and uniform error responses
+export const serve = (handler: (req: Request) => Promise<Response>) =>
+  Deno.serve(async (req) => {
+    if (req.method === "OPTIONS") {
+      return new Response("ok", { headers: corsHeaders });
+    }
+
+    try {
+      return await handler(req);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return jsonResponse({ error: error.message }, error.status);
+      }
+      console.error("Unhandled error:", error);
+      return jsonResponse({ error: "Internal server error" }, 500);
+    }
+  });
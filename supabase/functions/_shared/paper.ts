@@ -0,0 +1,231 @@
+// Per-session paper layout. The blueprint draw and the question and option
+// order are derived from the session id, so a reload shows the same paper,
+// and are stored on test_sessions so answers can be mapped back to the
+// canonical option ids that questions.correct_answer refers to.
+import type { CandidateQuestion, QuestionType } from "../../../src/lib/questionTypes.ts";
+import { hasOptions, optionId, toCandidateQuestion } from "../../../src/lib/questionTypes.ts";
+
+// Question id -> canonical option ids in the order they are presented
+export type OptionOrders = Record<string, string[]>;
+
+// Question id -> points the question carries on this paper
+export type QuestionPoints = Record<string, number>;
+
+// Question id -> the test section it was added to or drawn for
+export type QuestionSections = Record<string, string | null>;
+
+export interface PaperLayout {
+  question_order: string[];
+  option_orders: OptionOrders;
+}
+
+export interface PaperQuestion {
+  id: string;
+  question_type: QuestionType;
+  question_text: string;
+  options: unknown;
+}
+
+export interface ShuffleSettings {
+  shuffle_questions: boolean;
+  shuffle_options: boolean;
+}
+
+export interface TestSection {
+  id: string;
+  title: string;
+  duration_minutes: number | null;
+  question_count: number | null;
+}
+
+// A section as served to a session, stored in test_sessions.section_layout
+export interface PaperSection {
+  id: string;
+  title: string;
+  duration_minutes: number | null;
+  question_ids: string[];
+}
+
+// FNV-1a, to turn the session id into a 32-bit seed
+const hashSeed = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small, fast and good enough for shuffling a paper
+export const seededRandom = (seed: string) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const seededShuffle = <T>(items: T[], random: () => number) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+export interface BlueprintPool {
+  question_count: number;
+  points: number;
+  section_id: string | null;
+  // Every question matching the rule, in a stable order
+  questions: PaperQuestion[];
+}
+
+// Draw each rule's sample in turn. A question already on the paper is not
+// drawn again, and a pool smaller than its count gives what it has.
+export const drawBlueprint = (
+  sessionId: string,
+  pools: BlueprintPool[],
+  excludeIds: Iterable<string> = [],
+) => {
+  const random = seededRandom(`${sessionId}:draw`);
+  const taken = new Set(excludeIds);
+  const questions: PaperQuestion[] = [];
+  const points: QuestionPoints = {};
+  const sections: QuestionSections = {};
+
+  for (const pool of pools) {
+    const available = pool.questions.filter((question) => !taken.has(question.id));
+    for (const question of seededShuffle(available, random).slice(0, pool.question_count)) {
+      taken.add(question.id);
+      questions.push(question);
+      points[question.id] = pool.points;
+      sections[question.id] = pool.section_id;
+    }
+  }
+
+  return { questions, points, sections };
+};
+
+// Ordering items are always scrambled, since their presented order is part
+// of the question rather than a layout choice. True/false keeps its fixed
+// True, False options.
+export const buildPaperLayout = (
+  sessionId: string,
+  questions: PaperQuestion[],
+  settings: ShuffleSettings,
+): PaperLayout => {
+  const random = seededRandom(sessionId);
+
+  const ordered = settings.shuffle_questions ? seededShuffle(questions, random) : questions;
+  const option_orders: OptionOrders = {};
+
+  for (const question of ordered) {
+    if (!hasOptions(question.question_type)) continue;
+    const ids = toCandidateQuestion(question).options.map((option) => option.id);
+    option_orders[question.id] =
+      settings.shuffle_options || question.question_type === "ordering" ? seededShuffle(ids, random) : ids;
+  }
+
+  return { question_order: ordered.map((question) => question.id), option_orders };
+};
+
+// Lays the paper out section by section, in section order. Questions without
+// a section, or whose section is gone, go to the first one. A section with a
+// question_count serves a sample of that many; shuffling stays within each
+// section. Each section is seeded separately so editing one leaves the
+// layout of the others alone.
+export const buildSectionedLayout = (
+  sessionId: string,
+  questions: PaperQuestion[],
+  questionSections: QuestionSections,
+  sections: TestSection[],
+  settings: ShuffleSettings,
+): PaperLayout & { sections: PaperSection[] } => {
+  const known = new Set(sections.map((section) => section.id));
+  const sectionOf = (question: PaperQuestion) => {
+    const sectionId = questionSections[question.id];
+    return sectionId && known.has(sectionId) ? sectionId : sections[0].id;
+  };
+
+  const layout: PaperLayout & { sections: PaperSection[] } = { question_order: [], option_orders: {}, sections: [] };
+
+  for (const section of sections) {
+    const members = questions.filter((question) => sectionOf(question) === section.id);
+    const sampled = section.question_count
+      ? new Set(
+          seededShuffle(members, seededRandom(`${sessionId}:${section.id}:sample`))
+            .slice(0, section.question_count)
+            .map((question) => question.id),
+        )
+      : null;
+    const served = sampled ? members.filter((question) => sampled.has(question.id)) : members;
+
+    const part = buildPaperLayout(`${sessionId}:${section.id}`, served, settings);
+    layout.question_order.push(...part.question_order);
+    Object.assign(layout.option_orders, part.option_orders);
+    layout.sections.push({
+      id: section.id,
+      title: section.title,
+      duration_minutes: section.duration_minutes,
+      question_ids: part.question_order,
+    });
+  }
+
+  return layout;
+};
+
+// The question as this session sees it. Options are relabelled A, B, C... in
+// presented order so the ids carry nothing about the canonical layout.
+export const presentQuestion = (question: PaperQuestion, optionOrders: OptionOrders): CandidateQuestion => {
+  const candidate = toCandidateQuestion(question);
+  const order = optionOrders[question.id];
+  if (!order) return candidate;
+
+  const byId = new Map(candidate.options.map((option) => [option.id, option]));
+  return {
+    ...candidate,
+    options: order
+      .filter((id) => byId.has(id))
+      .map((id, index) => ({ id: optionId(index), text: byId.get(id).text })),
+  };
+};
+
+// Map a response given in presented option ids back to canonical ids.
+// Unrecognised ids are passed through unchanged and simply grade as wrong.
+export const toCanonicalResponse = (
+  questionType: QuestionType,
+  response: unknown,
+  order: string[] | undefined,
+): unknown => {
+  if (!order || !hasOptions(questionType)) return response;
+
+  const toCanonical = (id: unknown) => {
+    const index = typeof id === "string" && id.length === 1 ? id.toUpperCase().charCodeAt(0) - 65 : -1;
+    return order[index] ?? id;
+  };
+
+  if (questionType === "single_choice") return toCanonical(response);
+  return Array.isArray(response) ? response.map(toCanonical) : response;
+};
+
+// Inverse of toCanonicalResponse, for handing saved answers back to the
+// candidate when they resume
+export const toPresentedResponse = (
+  questionType: QuestionType,
+  response: unknown,
+  order: string[] | undefined,
+): unknown => {
+  if (!order || !hasOptions(questionType)) return response;
+
+  const toPresented = (id: unknown) => {
+    const index = typeof id === "string" ? order.indexOf(id) : -1;
+    return index === -1 ? id : optionId(index);
+  };
+
+  if (questionType === "single_choice") return toPresented(response);
+  return Array.isArray(response) ? response.map(toPresented) : response;
+};
@@ -0,0 +1,30 @@
+import { createAdminClient } from "./supabaseAdmin.ts";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+interface TimedSession {
+  id: string;
+  question_order: string[] | null;
+}
+
+// Stores the candidate's running totals of seconds spent per question. The
+// client keeps the totals across reloads, so each report replaces the last;
+// only questions on the candidate's paper and sane values are kept.
+export const recordQuestionSeconds = async (supabase: AdminClient, session: TimedSession, reported: unknown) => {
+  if (!reported || typeof reported !== "object") return;
+
+  const onPaper = new Set(session.question_order ?? []);
+  const seconds = Object.fromEntries(
+    Object.entries(reported as Record<string, unknown>)
+      .filter(([id, value]) => onPaper.has(id) && typeof value === "number" && Number.isFinite(value) && value >= 0)
+      .map(([id, value]) => [id, Math.round(value as number)]),
+  );
+  if (Object.keys(seconds).length === 0) return;
+
+  const { error } = await supabase
+    .from("test_sessions")
+    .update({ question_seconds: seconds })
+    .eq("id", session.id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,3 @@
+// The access-code hashing module is shared with the admin UI, which hashes
+// codes when it issues them.
+export { normalizeAccessCode, verifyAccessCode } from "../../../src/lib/security.ts";
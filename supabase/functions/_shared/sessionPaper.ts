@@ -0,0 +1,76 @@
+import { createAdminClient } from "./supabaseAdmin.ts";
+import type { GradableQuestion, ScoringRules } from "./grading.ts";
+import type { QuestionPoints } from "./paper.ts";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+interface PaperSession {
+  test_id: string;
+  question_order: string[] | null;
+  question_points: unknown;
+}
+
+// The test's scoring settings and the questions voided from it
+export const loadTestScoring = async (supabase: AdminClient, testId: string) => {
+  const { data: test, error } = await supabase
+    .from("tests")
+    .select("wrong_answer_penalty, partial_credit, voided_question_ids")
+    .eq("id", testId)
+    .single();
+
+  if (error) throw error;
+
+  const rules: ScoringRules = {
+    wrong_answer_penalty: Number(test.wrong_answer_penalty),
+    partial_credit: test.partial_credit,
+  };
+  return { rules, voided: new Set<string>(test.voided_question_ids ?? []) };
+};
+
+// The questions a session is graded on, with their answer keys: the paper
+// it was served, or the whole test for sessions that never loaded one.
+// Questions in voided are marked as such.
+export const loadGradableQuestions = async (
+  supabase: AdminClient,
+  session: PaperSession,
+  voided: Set<string> = new Set(),
+): Promise<GradableQuestion[]> => {
+  const { data: testQuestions, error: questionsError } = await supabase
+    .from("test_questions")
+    .select("points, question:questions(id, question_type, correct_answer)")
+    .eq("test_id", session.test_id)
+    .order("position");
+
+  if (questionsError) throw questionsError;
+
+  const composed = (testQuestions ?? []).filter(({ question }) => question);
+
+  if (!session.question_order) {
+    return composed.map(({ points, question }) => ({
+      ...question,
+      points: Number(points),
+      voided: voided.has(question.id),
+    }));
+  }
+
+  const { data: served, error: servedError } = await supabase
+    .from("questions")
+    .select("id, question_type, correct_answer")
+    .in("id", session.question_order);
+
+  if (servedError) throw servedError;
+
+  // Points were fixed when the paper was served; fall back to the test's
+  // current points for papers served before they were recorded
+  const paperPoints = (session.question_points ?? {}) as QuestionPoints;
+  const testPoints = new Map(composed.map(({ points, question }) => [question.id, Number(points)]));
+  const byId = new Map((served ?? []).map((question) => [question.id, question]));
+
+  return session.question_order
+    .filter((id) => byId.has(id))
+    .map((id) => ({
+      ...byId.get(id),
+      points: paperPoints[id] ?? testPoints.get(id) ?? 1,
+      voided: voided.has(id),
+    }));
+};
@@ -0,0 +1,70 @@
+import { createAdminClient } from "./supabaseAdmin.ts";
+import { HttpError } from "./http.ts";
+import { pausedFor } from "./examClock.ts";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+// Who paused a session: a proctor, or the exam page when the candidate
+// stopped sharing their screen. Mirrors the check on test_sessions.pause_reason.
+export type PauseReason = "proctor" | "screen_share";
+
+export interface LiveSession {
+  id: string;
+  started_at: string;
+  section_layout: unknown;
+  section_started_at: string | null;
+  extra_seconds: number;
+  paused_at: string | null;
+  pause_reason: string | null;
+}
+
+// Moves the clock of the session, and of its current section on a sectioned
+// paper, back by the given seconds. Guarded on the values read, so two
+// proctors acting at once can't lose each other's change.
+export const extendSession = async (
+  supabase: AdminClient,
+  session: LiveSession,
+  seconds: number,
+  changes: { paused_at?: null; pause_reason?: null } = {},
+) => {
+  const sectioned = Array.isArray(session.section_layout) && session.section_layout.length > 0;
+  const sectionStartedAt = session.section_started_at ?? session.started_at;
+
+  let query = supabase
+    .from("test_sessions")
+    .update({
+      ...changes,
+      extra_seconds: session.extra_seconds + seconds,
+      ...(sectioned && {
+        section_started_at: new Date(new Date(sectionStartedAt).getTime() + seconds * 1000).toISOString(),
+      }),
+    })
+    .eq("id", session.id)
+    .eq("extra_seconds", session.extra_seconds)
+    .is("completed_at", null);
+  query = session.paused_at ? query.eq("paused_at", session.paused_at) : query.is("paused_at", null);
+
+  const { data, error } = await query.select("id");
+  if (error) throw error;
+  if (!data?.length) throw new HttpError(409, "The session changed in the meantime; try again");
+};
+
+// Stops the session's answers, and for a proctor's pause its clock, until it
+// is resumed
+export const pauseSession = async (supabase: AdminClient, session: LiveSession, reason: PauseReason) => {
+  const { data, error } = await supabase
+    .from("test_sessions")
+    .update({ paused_at: new Date().toISOString(), pause_reason: reason })
+    .eq("id", session.id)
+    .is("paused_at", null)
+    .is("completed_at", null)
+    .select("id");
+
+  if (error) throw error;
+  if (!data?.length) throw new HttpError(409, "The session changed in the meantime; try again");
+};
+
+// Gives back the time the pause stopped the clock for; none for a screen
+// share pause, see pausedFor
+export const resumeSession = (supabase: AdminClient, session: LiveSession) =>
+  extendSession(supabase, session, Math.ceil(pausedFor(session) / 1000), { paused_at: null, pause_reason: null });
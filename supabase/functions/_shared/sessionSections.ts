@@ -0,0 +1,73 @@
+import { createAdminClient } from "./supabaseAdmin.ts";
+import { SectionClock, currentSection, pausedFor, sessionDeadline, timeAllowance } from "./examClock.ts";
+import type { PaperSection } from "./paper.ts";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+interface SectionedSession {
+  id: string;
+  started_at: string;
+  section_layout: unknown;
+  section_index: number;
+  section_started_at: string | null;
+  extra_seconds: number;
+  paused_at: string | null;
+  pause_reason: string | null;
+}
+
+interface SectionedTest {
+  duration_minutes: number;
+  end_time: string | null;
+  grace_period_seconds: number;
+}
+
+export interface SessionClock {
+  // The deadline to enforce now: the current section's on a sectioned
+  // paper, otherwise the session's
+  deadline: Date;
+  sections: PaperSection[] | null;
+  section: SectionClock | null;
+}
+
+// Where the session stands against the clock. A session whose section ran
+// out of time while the candidate was away is moved on to the section it
+// has reached. A running pause holds back the current section's clock as
+// well as the session's.
+export const resolveSessionClock = async (
+  supabase: AdminClient,
+  session: SectionedSession,
+  test: SectionedTest,
+  now = new Date(),
+): Promise<SessionClock> => {
+  const deadline = sessionDeadline(session.started_at, test, timeAllowance(session, now));
+  const sections = session.section_layout as PaperSection[] | null;
+  if (!sections?.length) return { deadline, sections: null, section: null };
+
+  const section = currentSection(
+    sections,
+    session.section_index,
+    new Date(new Date(session.section_started_at ?? session.started_at).getTime() + pausedFor(session, now)),
+    deadline,
+    test,
+    now,
+  );
+
+  if (section.index !== session.section_index) {
+    // Guarded on the old index so a concurrent request moving the session on
+    // isn't overwritten
+    const { error } = await supabase
+      .from("test_sessions")
+      .update({ section_index: section.index, section_started_at: section.startedAt.toISOString() })
+      .eq("id", session.id)
+      .eq("section_index", session.section_index);
+
+    if (error) throw error;
+  }
+
+  return { deadline: section.deadline, sections, section };
+};
+
+// Questions the candidate may still answer, or null for an unsectioned
+// paper where every question stays open
+export const openQuestionIds = (clock: SessionClock) =>
+  clock.section ? new Set(clock.sections[clock.section.index].question_ids) : null;
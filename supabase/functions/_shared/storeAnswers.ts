@@ -0,0 +1,67 @@
+import { createAdminClient } from "./supabaseAdmin.ts";
+import { OptionOrders, toCanonicalResponse } from "./paper.ts";
+import { isAnswered } from "../../../src/lib/questionTypes.ts";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+interface AnsweringSession {
+  id: string;
+  test_id: string;
+  student_id: string;
+  option_orders: unknown;
+}
+
+// Stores answers ungraded against the canonical option ids; they are graded
+// with the rest of the paper when the session closes. Only the given
+// questions are touched, and an unanswered response clears a saved answer.
+export const storeAnswers = async (
+  supabase: AdminClient,
+  session: AnsweringSession,
+  questionIds: string[],
+  answers: Record<string, unknown>,
+) => {
+  const savedAt = new Date().toISOString();
+  if (questionIds.length === 0) return savedAt;
+
+  const { data: questions, error: questionsError } = await supabase
+    .from("questions")
+    .select("id, question_type")
+    .in("id", questionIds);
+
+  if (questionsError) throw questionsError;
+
+  const optionOrders = (session.option_orders ?? {}) as OptionOrders;
+  const saved = (questions ?? []).filter((question) => isAnswered(answers[question.id]));
+  const cleared = (questions ?? []).filter((question) => !isAnswered(answers[question.id]));
+
+  if (saved.length) {
+    const { error } = await supabase
+      .from("test_submissions")
+      .upsert(
+        saved.map((question) => ({
+          session_id: session.id,
+          test_id: session.test_id,
+          student_id: session.student_id,
+          question_id: question.id,
+          response: toCanonicalResponse(question.question_type, answers[question.id], optionOrders[question.id]),
+          is_correct: null,
+          saved_at: savedAt,
+        })),
+        { onConflict: "session_id,question_id" },
+      );
+
+    if (error) throw error;
+  }
+
+  if (cleared.length) {
+    const { error } = await supabase
+      .from("test_submissions")
+      .delete()
+      .eq("session_id", session.id)
+      .in("question_id", cleared.map((question) => question.id));
+
+    if (error) throw error;
+  }
+
+  return savedAt;
+};
@@ -0,0 +1,10 @@
+import { createClient } from "jsr:@supabase/supabase-js@2";
+
+// Service-role client. Bypasses RLS and column grants, so it must only be
+// used inside edge functions and never handed back to the caller.
+export const createAdminClient = () =>
+  createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    { auth: { persistSession: false } },
+  );
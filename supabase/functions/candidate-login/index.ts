@@ -0,0 +1,160 @@
+import { HttpError, jsonResponse, serve } from "../_shared/http.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { verifyAccessCode } from "../_shared/security.ts";
+import { candidateTokenExpiry, issueCandidateToken } from "../_shared/candidateAuth.ts";
+import { TIME_EXPIRED, acceptsAnswers, sessionDeadline, timeAllowance } from "../_shared/examClock.ts";
+import { finalizeSession } from "../_shared/finalizeSession.ts";
+
+interface CandidateLoginRequest {
+  testId: string;
+  email: string;
+  accessCode: string;
+}
+
+const INVALID_CREDENTIALS = "Invalid email or access code";
+
+serve(async (req) => {
+  const { testId, email, accessCode } = (await req.json()) as CandidateLoginRequest;
+  if (!testId || !email?.trim() || !accessCode?.trim()) {
+    throw new HttpError(400, "Email and access code are required");
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: test, error: testError } = await supabase
+    .from("tests")
+    .select("id, batch_id, is_active, start_time, end_time, duration_minutes, grace_period_seconds")
+    .eq("id", testId)
+    .single();
+
+  if (testError || !test) throw new HttpError(404, "Test not found");
+  if (!test.is_active) throw new HttpError(403, "This test is not active");
+
+  const now = new Date();
+  if (test.start_time && now < new Date(test.start_time)) {
+    throw new HttpError(403, "Test has not started yet");
+  }
+  if (test.end_time && now > new Date(test.end_time)) {
+    throw new HttpError(403, "Test has ended");
+  }
+
+  const { data: student } = await supabase
+    .from("students")
+    .select("id, name")
+    .eq("batch_id", test.batch_id)
+    // Stored lower-cased; see the normalize_student_emails migration
+    .eq("email", email.trim().toLowerCase())
+    .maybeSingle();
+
+  if (!student) throw new HttpError(401, INVALID_CREDENTIALS);
+
+  const { data: code } = await supabase
+    .from("candidate_access_codes")
+    .select("id, code_hash, expires_at, used_at, session_id")
+    .eq("student_id", student.id)
+    .eq("test_id", test.id)
+    .maybeSingle();
+
+  if (!code || !(await verifyAccessCode(accessCode, code.code_hash))) {
+    throw new HttpError(401, INVALID_CREDENTIALS);
+  }
+  if (code.expires_at && now > new Date(code.expires_at)) {
+    throw new HttpError(401, "This access code has expired");
+  }
+
+  let sessionId: string | null = null;
+  let startedAt = now.toISOString();
+  // Time proctors gave the session, and any pause it is in
+  let allowance = 0;
+
+  if (code.used_at) {
+    // A used code only lets the candidate back into their unfinished session
+    const { data: session } = await supabase
+      .from("test_sessions")
+      .select(`
+        id, test_id, student_id, started_at, completed_at, question_order, option_orders, question_points,
+        section_layout, extra_seconds, paused_at, pause_reason
+      `)
+      .eq("id", code.session_id)
+      .maybeSingle();
+
+    if (!session || session.completed_at) {
+      throw new HttpError(409, "You have already taken this test");
+    }
+    allowance = timeAllowance(session, now);
+    if (!acceptsAnswers(sessionDeadline(session.started_at, test, allowance), test)) {
+      await finalizeSession(supabase, session, {}, { timedOut: true });
+      throw new HttpError(410, TIME_EXPIRED);
+    }
+    sessionId = session.id;
+    startedAt = session.started_at;
+  } else {
+    // Claim the code first so two concurrent logins can't both start a session
+    const { data: claimed } = await supabase
+      .from("candidate_access_codes")
+      .update({ used_at: now.toISOString() })
+      .eq("id", code.id)
+      .is("used_at", null)
+      .select("id");
+
+    if (!claimed?.length) throw new HttpError(409, "This access code has already been used");
+
+    const { data: session, error: sessionError } = await supabase
+      .from("test_sessions")
+      .insert({
+        test_id: test.id,
+        student_id: student.id,
+        started_at: startedAt,
+      })
+      .select("id")
+      .single();
+
+    // Gives the code back if the session can't be started, so the candidate
+    // can log in again rather than find it used with no session behind it
+    const releaseCode = async () => {
+      const { error: releaseError } = await supabase
+        .from("candidate_access_codes")
+        .update({ used_at: null })
+        .eq("id", code.id)
+        .is("session_id", null);
+
+      if (releaseError) console.error("Error releasing the access code:", releaseError);
+    };
+
+    if (sessionError) {
+      await releaseCode();
+      throw sessionError;
+    }
+    sessionId = session.id;
+
+    const { error: linkError } = await supabase
+      .from("candidate_access_codes")
+      .update({ session_id: sessionId })
+      .eq("id", code.id);
+
+    if (linkError) {
+      const { error: deleteError } = await supabase.from("test_sessions").delete().eq("id", sessionId);
+      if (deleteError) {
+        console.error("Error removing the unlinked session:", deleteError);
+      } else {
+        await releaseCode();
+      }
+      throw linkError;
+    }
+  }
+
+  const expiresAt = candidateTokenExpiry(sessionDeadline(startedAt, test, allowance));
+  const token = await issueCandidateToken({
+    sid: sessionId,
+    stu: student.id,
+    tid: test.id,
+    exp: expiresAt,
+  });
+
+  return jsonResponse({
+    token,
+    sessionId,
+    studentName: student.name,
+    expiresAt: new Date(expiresAt * 1000).toISOString(),
+  });
+});
@@ -0,0 +1,242 @@
+import { HttpError, jsonResponse, serve } from "../_shared/http.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { candidateTokenExpiry, issueCandidateToken, requireCandidate } from "../_shared/candidateAuth.ts";
+import { TIME_EXPIRED, acceptsAnswers, sessionDeadline, timeAllowance } from "../_shared/examClock.ts";
+import { finalizeSession } from "../_shared/finalizeSession.ts";
+import { parseSecurityPolicy } from "../../../src/lib/securityPolicy.ts";
+import {
+  OptionOrders,
+  PaperLayout,
+  PaperQuestion,
+  PaperSection,
+  QuestionPoints,
+  buildPaperLayout,
+  buildSectionedLayout,
+  drawBlueprint,
+  presentQuestion,
+  toPresentedResponse,
+} from "../_shared/paper.ts";
+import { openQuestionIds, resolveSessionClock } from "../_shared/sessionSections.ts";
+
+// Serves the candidate's paper in their session's question and option order,
+// with any answers saved so far. The paper, including any blueprint draw and
+// its sections, is fixed on the first request and reused for every reload.
+// On a sectioned paper only the current section is served.
+serve(async (req) => {
+  const claims = await requireCandidate(req);
+  const { sid: sessionId, stu: studentId, tid: testId } = claims;
+
+  const supabase = createAdminClient();
+
+  const { data: session, error: sessionError } = await supabase
+    .from("test_sessions")
+    .select(`
+      id, test_id, student_id, started_at, completed_at,
+      question_order, option_orders, question_points,
+      section_layout, section_index, section_started_at,
+      extra_seconds, paused_at, pause_reason
+    `)
+    .eq("id", sessionId)
+    .eq("student_id", studentId)
+    .eq("test_id", testId)
+    .single();
+
+  if (sessionError || !session) {
+    throw new HttpError(404, "Test session not found");
+  }
+  if (session.completed_at) {
+    throw new HttpError(409, "Test has already been submitted");
+  }
+
+  const { data: test, error: testError } = await supabase
+    .from("tests")
+    .select("title, duration_minutes, end_time, grace_period_seconds, shuffle_questions, shuffle_options, security_policy")
+    .eq("id", testId)
+    .single();
+
+  if (testError || !test) throw new HttpError(404, "Test not found");
+
+  let questionOrder = session.question_order;
+  let optionOrders = session.option_orders as OptionOrders | null;
+  let questions: PaperQuestion[];
+
+  if (questionOrder) {
+    const { data, error } = await supabase
+      .from("questions")
+      .select("id, question_type, question_text, options")
+      .in("id", questionOrder);
+
+    if (error) throw error;
+    questions = data ?? [];
+  } else {
+    // First load: compose the paper from the fixed questions plus this
+    // session's blueprint draw
+    const { data: testQuestions, error: questionsError } = await supabase
+      .from("test_questions")
+      .select("points, section_id, question:questions(id, question_type, question_text, options)")
+      .eq("test_id", testId)
+      .order("position");
+
+    if (questionsError) throw questionsError;
+
+    const { data: rules, error: rulesError } = await supabase
+      .from("test_blueprint_rules")
+      .select("bank_id, tag, difficulty, question_count, points, section_id")
+      .eq("test_id", testId)
+      .order("position");
+
+    if (rulesError) throw rulesError;
+
+    const { data: sections, error: sectionsError } = await supabase
+      .from("test_sections")
+      .select("id, title, duration_minutes, question_count")
+      .eq("test_id", testId)
+      .order("position");
+
+    if (sectionsError) throw sectionsError;
+
+    const pools = await Promise.all(
+      (rules ?? []).map(async (rule) => {
+        let query = supabase
+          .from("questions")
+          .select("id, question_type, question_text, options")
+          .order("id");
+
+        if (rule.bank_id) query = query.eq("bank_id", rule.bank_id);
+        if (rule.tag) query = query.contains("tags", [rule.tag]);
+        if (rule.difficulty) query = query.eq("difficulty", rule.difficulty);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return {
+          question_count: rule.question_count,
+          points: Number(rule.points),
+          section_id: rule.section_id,
+          questions: data ?? [],
+        };
+      }),
+    );
+
+    const fixed = (testQuestions ?? []).filter(({ question }) => question);
+    const draw = drawBlueprint(session.id, pools, fixed.map(({ question }) => question.id));
+
+    questions = [...fixed.map(({ question }) => question), ...draw.questions];
+    const questionPoints: QuestionPoints = {
+      ...Object.fromEntries(fixed.map(({ question, points }) => [question.id, Number(points)])),
+      ...draw.points,
+    };
+
+    // The layout is a pure function of the session id and the pools, so
+    // concurrent first loads compute and store the same thing. An empty
+    // paper is not stored, so questions added later still reach the session.
+    let layout: PaperLayout;
+    let sectionLayout: PaperSection[] | null = null;
+    if (sections?.length) {
+      const questionSections = {
+        ...Object.fromEntries(fixed.map(({ question, section_id }) => [question.id, section_id])),
+        ...draw.sections,
+      };
+      const sectioned = buildSectionedLayout(session.id, questions, questionSections, sections, test);
+      layout = sectioned;
+      sectionLayout = sectioned.sections;
+    } else {
+      layout = buildPaperLayout(session.id, questions, test);
+    }
+    questionOrder = layout.question_order;
+    optionOrders = layout.option_orders;
+
+    if (questions.length > 0) {
+      const { error: updateError } = await supabase
+        .from("test_sessions")
+        .update({
+          question_order: questionOrder,
+          option_orders: optionOrders,
+          question_points: questionPoints,
+          section_layout: sectionLayout,
+        })
+        .eq("id", session.id);
+
+      if (updateError) throw updateError;
+
+      // Time and grade the session against the paper just stored
+      Object.assign(session, {
+        question_order: questionOrder,
+        option_orders: optionOrders,
+        question_points: questionPoints,
+        section_layout: sectionLayout,
+      });
+    }
+  }
+
+  // A candidate coming back after the deadline, e.g. after losing their
+  // connection, finds the session already closed
+  const clock = await resolveSessionClock(supabase, session, test);
+  if (!acceptsAnswers(clock.deadline, test)) {
+    await finalizeSession(supabase, session, {}, { timedOut: true });
+    throw new HttpError(410, TIME_EXPIRED);
+  }
+
+  // Sections already finished, and those still ahead, stay out of reach
+  const open = openQuestionIds(clock);
+  const byId = new Map(
+    questions
+      .filter((question) => !open || open.has(question.id))
+      .map((question) => [question.id, question]),
+  );
+
+  // Autosaved answers, so an interrupted attempt resumes where it left off
+  const { data: saved, error: savedError } = await supabase
+    .from("test_submissions")
+    .select("question_id, response")
+    .eq("session_id", session.id);
+
+  if (savedError) throw savedError;
+
+  const answers = Object.fromEntries(
+    (saved ?? [])
+      .filter((answer) => byId.has(answer.question_id))
+      .map((answer) => [
+        answer.question_id,
+        toPresentedResponse(
+          byId.get(answer.question_id).question_type,
+          answer.response,
+          (optionOrders ?? {})[answer.question_id],
+        ),
+      ]),
+  );
+
+  // Time a proctor added, or a long pause, can outlast the candidate's token;
+  // a fresh one is handed out with the paper
+  const tokenExpiry = candidateTokenExpiry(sessionDeadline(session.started_at, test, timeAllowance(session)));
+  const renewedToken =
+    claims.exp < tokenExpiry
+      ? {
+          token: await issueCandidateToken({ ...claims, exp: tokenExpiry }),
+          expires_at: new Date(tokenExpiry * 1000).toISOString(),
+        }
+      : null;
+
+  return jsonResponse({
+    test: {
+      title: test.title,
+      duration_minutes: test.duration_minutes,
+      security_policy: parseSecurityPolicy(test.security_policy),
+    },
+    // The client counts down from these rather than from its own clock
+    deadline: clock.deadline.toISOString(),
+    server_time: new Date().toISOString(),
+    sections: (clock.sections ?? []).map((section) => ({
+      title: section.title,
+      duration_minutes: section.duration_minutes,
+      question_count: section.question_ids.length,
+    })),
+    current_section: clock.section?.index ?? null,
+    questions: questionOrder
+      .filter((id) => byId.has(id))
+      .map((id) => presentQuestion(byId.get(id), optionOrders ?? {})),
+    answers,
+    paused: Boolean(session.paused_at),
+    pause_reason: session.pause_reason,
+    renewed_token: renewedToken,
+  });
+});
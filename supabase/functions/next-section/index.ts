@@ -0,0 +1,100 @@
+import { HttpError, jsonResponse, serve } from "../_shared/http.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { requireCandidate } from "../_shared/candidateAuth.ts";
+import { SESSION_PAUSED, SESSION_PAUSED_STATUS, TIME_EXPIRED, acceptsAnswers } from "../_shared/examClock.ts";
+import { finalizeSession } from "../_shared/finalizeSession.ts";
+import { openQuestionIds, resolveSessionClock } from "../_shared/sessionSections.ts";
+import { recordQuestionSeconds } from "../_shared/questionTimes.ts";
+import { storeAnswers } from "../_shared/storeAnswers.ts";
+
+interface NextSectionRequest {
+  // Index of the section being finished
+  section: number;
+  // The section's answers, as for submit-test
+  answers: Record<string, unknown>;
+  // As for submit-test
+  question_seconds?: Record<string, number>;
+}
+
+// Finishes the candidate's current section and starts the next one. There is
+// no way back: the finished section's answers are final. A request for a
+// section the session has already left, e.g. because its time ran out
+// meanwhile, changes nothing.
+serve(async (req) => {
+  const { sid: sessionId, stu: studentId, tid: testId } = await requireCandidate(req);
+  const { section, answers, question_seconds } = (await req.json()) as NextSectionRequest;
+  if (!Number.isInteger(section)) {
+    throw new HttpError(400, "Section is required");
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: session, error: sessionError } = await supabase
+    .from("test_sessions")
+    .select(`
+      id, test_id, student_id, started_at, completed_at,
+      question_order, option_orders, question_points,
+      section_layout, section_index, section_started_at,
+      extra_seconds, paused_at, pause_reason
+    `)
+    .eq("id", sessionId)
+    .eq("student_id", studentId)
+    .eq("test_id", testId)
+    .single();
+
+  if (sessionError || !session) {
+    throw new HttpError(404, "Test session not found");
+  }
+  if (session.completed_at) {
+    throw new HttpError(409, "Test has already been submitted");
+  }
+  if (session.paused_at) {
+    throw new HttpError(SESSION_PAUSED_STATUS, SESSION_PAUSED);
+  }
+
+  await recordQuestionSeconds(supabase, session, question_seconds);
+
+  const { data: test, error: testError } = await supabase
+    .from("tests")
+    .select("duration_minutes, end_time, grace_period_seconds")
+    .eq("id", testId)
+    .single();
+
+  if (testError || !test) throw new HttpError(404, "Test not found");
+
+  const clock = await resolveSessionClock(supabase, session, test);
+  if (!acceptsAnswers(clock.deadline, test)) {
+    await finalizeSession(supabase, session, {}, { timedOut: true });
+    throw new HttpError(410, TIME_EXPIRED);
+  }
+  if (!clock.section) {
+    throw new HttpError(409, "This test has no sections");
+  }
+  if (section < clock.section.index) {
+    return jsonResponse({ section_index: clock.section.index });
+  }
+  if (section > clock.section.index) {
+    throw new HttpError(409, "Finish the current section first");
+  }
+  if (section === clock.sections.length - 1) {
+    throw new HttpError(409, "Submit the test to finish its last section");
+  }
+
+  const open = openQuestionIds(clock);
+  await storeAnswers(
+    supabase,
+    session,
+    (session.question_order ?? []).filter((id) => id in (answers ?? {}) && open.has(id)),
+    answers ?? {},
+  );
+
+  const { error: updateError } = await supabase
+    .from("test_sessions")
+    .update({ section_index: section + 1, section_started_at: new Date().toISOString() })
+    .eq("id", session.id)
+    .eq("section_index", section);
+
+  if (updateError) throw updateError;
+
+  return jsonResponse({ section_index: section + 1 });
+});
@@ -0,0 +1,79 @@
+import { HttpError, jsonResponse, serve } from "../_shared/http.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { requireAdmin } from "../_shared/adminAuth.ts";
+import { finalizeSession } from "../_shared/finalizeSession.ts";
+import { extendSession, pauseSession, resumeSession } from "../_shared/sessionPause.ts";
+
+type ProctorAction = "warn" | "pause" | "resume" | "add_time" | "terminate";
+
+interface ProctorSessionRequest {
+  session_id: string;
+  action: ProctorAction;
+  // The warning for warn, the reason for terminate
+  message?: string;
+  // Minutes to give with add_time
+  minutes?: number;
+}
+
+const ACTIONS: ProctorAction[] = ["warn", "pause", "resume", "add_time", "terminate"];
+
+// Most time a single add_time may give
+const MAX_ADDED_MINUTES = 240;
+
+// A proctor acting on a live session. Pausing stops the candidate's clock
+// and their answers; resuming gives back the time the pause took. Terminating
+// closes and grades the session on what was saved. Every action is logged in
+// proctor_actions; the dashboard relays it to the candidate through the
+// proctoring server.
+serve(async (req) => {
+  const supabase = createAdminClient();
+  const { userId } = await requireAdmin(req, supabase, ["owner", "proctor"]);
+  const { session_id: sessionId, action, message, minutes } = (await req.json()) as ProctorSessionRequest;
+  if (!sessionId || !ACTIONS.includes(action)) {
+    throw new HttpError(400, "A session and a valid action are required");
+  }
+  if (action === "warn" && !message?.trim()) {
+    throw new HttpError(400, "A warning needs a message");
+  }
+  if (action === "add_time" && !(Number.isInteger(minutes) && minutes > 0 && minutes <= MAX_ADDED_MINUTES)) {
+    throw new HttpError(400, `Add between 1 and ${MAX_ADDED_MINUTES} minutes`);
+  }
+
+  const { data: session, error: sessionError } = await supabase
+    .from("test_sessions")
+    .select(`
+      id, test_id, student_id, started_at, completed_at,
+      question_order, option_orders, question_points,
+      section_layout, section_started_at, extra_seconds, paused_at, pause_reason
+    `)
+    .eq("id", sessionId)
+    .maybeSingle();
+
+  if (sessionError) throw sessionError;
+  if (!session) throw new HttpError(404, "Test session not found");
+  if (session.completed_at) throw new HttpError(409, "This session has already ended");
+
+  if (action === "pause") {
+    if (session.paused_at) throw new HttpError(409, "This session is already paused");
+    await pauseSession(supabase, session, "proctor");
+  } else if (action === "resume") {
+    if (!session.paused_at) throw new HttpError(409, "This session isn't paused");
+    await resumeSession(supabase, session);
+  } else if (action === "add_time") {
+    await extendSession(supabase, session, minutes * 60);
+  } else if (action === "terminate") {
+    await finalizeSession(supabase, session, {}, { terminated: { by: userId, reason: message?.trim() || null } });
+  }
+
+  const { error: logError } = await supabase.from("proctor_actions").insert({
+    session_id: session.id,
+    action,
+    message: message?.trim() || null,
+    minutes: action === "add_time" ? minutes : null,
+    performed_by: userId,
+  });
+
+  if (logError) throw logError;
+
+  return jsonResponse({ session_id: session.id, action });
+});
@@ -0,0 +1,102 @@
+import { HttpError, jsonResponse, serve } from "../_shared/http.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { requireCandidate } from "../_shared/candidateAuth.ts";
+import { finalizeSession } from "../_shared/finalizeSession.ts";
+import { VIOLATION_KINDS, ViolationKind, integrityOutcome } from "../../../src/lib/integrity.ts";
+
+interface RecordViolationsRequest {
+  // Batched by the exam page; see src/lib/integrity.ts Violation
+  violations: unknown[];
+}
+
+// Most violations accepted in one request; the page sends every few seconds
+const MAX_BATCH = 50;
+const MAX_DETAIL_LENGTH = 500;
+
+const isViolationKind = (kind: unknown): kind is ViolationKind => VIOLATION_KINDS.includes(kind as ViolationKind);
+
+// Records integrity violations from the exam page and answers with the
+// session's total and what the test's thresholds make of it. At the submit
+// threshold the session is submitted here, on what was saved; the page then
+// sends the answers it still holds to submit-test. Warning is left to the
+// page.
+serve(async (req) => {
+  const { sid: sessionId, stu: studentId, tid: testId } = await requireCandidate(req);
+  const { violations } = (await req.json()) as RecordViolationsRequest;
+  if (!Array.isArray(violations)) {
+    throw new HttpError(400, "Violations are required");
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: session, error: sessionError } = await supabase
+    .from("test_sessions")
+    .select(`
+      id, test_id, student_id, started_at, completed_at,
+      question_order, option_orders, question_points, section_layout,
+      paused_at, pause_reason
+    `)
+    .eq("id", sessionId)
+    .eq("student_id", studentId)
+    .eq("test_id", testId)
+    .single();
+
+  if (sessionError || !session) {
+    throw new HttpError(404, "Test session not found");
+  }
+  if (session.completed_at) {
+    throw new HttpError(409, "Test has already been submitted");
+  }
+
+  // Browser timestamps are kept within the session so far; anything else is
+  // taken as happening now
+  const now = new Date();
+  const startedAt = new Date(session.started_at);
+  const rows = violations
+    .slice(0, MAX_BATCH)
+    .filter((violation): violation is Record<string, unknown> => !!violation && typeof violation === "object")
+    .filter((violation) => isViolationKind(violation.kind))
+    .map((violation) => {
+      const occurredAt = new Date(String(violation.occurred_at));
+      const valid = !Number.isNaN(occurredAt.getTime()) && occurredAt >= startedAt && occurredAt <= now;
+      return {
+        session_id: session.id,
+        kind: violation.kind as ViolationKind,
+        occurred_at: (valid ? occurredAt : now).toISOString(),
+        detail: typeof violation.detail === "string" ? violation.detail.slice(0, MAX_DETAIL_LENGTH) : null,
+      };
+    });
+
+  if (rows.length) {
+    const { error: insertError } = await supabase.from("session_violations").insert(rows);
+    if (insertError) throw insertError;
+  }
+
+  const { count, error: countError } = await supabase
+    .from("session_violations")
+    .select("id", { count: "exact", head: true })
+    .eq("session_id", session.id);
+
+  if (countError) throw countError;
+
+  const { data: test, error: testError } = await supabase
+    .from("tests")
+    .select("violation_warn_threshold, violation_submit_threshold")
+    .eq("id", testId)
+    .single();
+
+  if (testError || !test) throw new HttpError(404, "Test not found");
+
+  const total = count ?? 0;
+  const outcome = integrityOutcome(total, test);
+  if (outcome === "submit") {
+    await finalizeSession(supabase, session, {}, { autoSubmitted: true });
+  }
+
+  return jsonResponse({
+    total,
+    outcome,
+    warn_threshold: test.violation_warn_threshold,
+    submit_threshold: test.violation_submit_threshold,
+  });
+});
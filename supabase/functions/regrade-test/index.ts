@@ -0,0 +1,222 @@
+import { HttpError, jsonResponse, serve } from "../_shared/http.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { requireAdmin } from "../_shared/adminAuth.ts";
+import { gradeAnswers, scoreSections } from "../_shared/grading.ts";
+import { PaperSection } from "../_shared/paper.ts";
+import { loadGradableQuestions, loadTestScoring } from "../_shared/sessionPaper.ts";
+import { DEFAULT_GRADING_SCHEME, isPassing } from "../../../src/lib/gradingSchemes.ts";
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+interface RegradeTestRequest {
+  test_id: string;
+  // Why the test is regraded, e.g. which key was corrected
+  reason: string;
+  // Candidates whose pass/fail outcome changes are to be told; the admin app
+  // sends the emails and records notified_at
+  notify?: boolean;
+}
+
+interface GradedSession {
+  id: string;
+  test_id: string;
+  student_id: string;
+  question_order: string[] | null;
+  question_points: unknown;
+  section_layout: unknown;
+  total_score: number | null;
+  raw_score: number | null;
+  max_score: number | null;
+  total_questions: number | null;
+}
+
+// A run still running after this long was stopped part way, e.g. by the
+// function's time limit
+const STALE_RUN_MS = 15 * 60 * 1000;
+
+// Postgres error code for a unique constraint violation
+const UNIQUE_VIOLATION = "23505";
+
+// Rounded as on the results page, so pass/fail agrees with what admins see
+const percentage = (score: number, max: number) => (max > 0 ? Math.round((score / max) * 100) : 0);
+
+// Grades the session's stored answers again with the test's current keys,
+// points and voided questions, and stores the per-answer grading. The new
+// scores are returned for the caller to store with the change record.
+const regradeSession = async (
+  supabase: AdminClient,
+  session: GradedSession,
+  scoring: Awaited<ReturnType<typeof loadTestScoring>>,
+) => {
+  const questions = await loadGradableQuestions(supabase, session, scoring.voided);
+
+  const { data: saved, error: savedError } = await supabase
+    .from("test_submissions")
+    .select("question_id, response")
+    .eq("session_id", session.id);
+
+  if (savedError) throw savedError;
+
+  const result = gradeAnswers(
+    questions,
+    Object.fromEntries((saved ?? []).map((answer) => [answer.question_id, answer.response])),
+    scoring.rules,
+  );
+  const answered = result.answers.filter((answer) => answer.response !== null);
+
+  if (answered.length) {
+    const { error: submissionsError } = await supabase
+      .from("test_submissions")
+      .upsert(
+        answered.map((answer) => ({
+          ...answer,
+          session_id: session.id,
+          test_id: session.test_id,
+          student_id: session.student_id,
+        })),
+        { onConflict: "session_id,question_id" },
+      );
+
+    if (submissionsError) throw submissionsError;
+  }
+
+  const sections = session.section_layout as PaperSection[] | null;
+  return {
+    total_score: result.total_score,
+    raw_score: result.raw_score,
+    max_score: result.max_score,
+    total_questions: result.total_questions,
+    section_scores: sections?.length ? scoreSections(sections, questions, result) : null,
+  };
+};
+
+// Regrades every graded session of a test after its answer keys were
+// corrected or questions voided, recording a run and the old and new scores
+// of each session that changed
+serve(async (req) => {
+  const supabase = createAdminClient();
+  const { userId } = await requireAdmin(req, supabase, ["owner", "test_author"]);
+  const { test_id: testId, reason, notify = false } = (await req.json()) as RegradeTestRequest;
+  if (!testId || !reason?.trim()) {
+    throw new HttpError(400, "A test and a reason are required");
+  }
+
+  const { data: test, error: testError } = await supabase
+    .from("tests")
+    .select(`
+      id,
+      grading_scheme:grading_schemes(pass_mark),
+      batch:batches(grading_scheme:grading_schemes(pass_mark))
+    `)
+    .eq("id", testId)
+    .maybeSingle();
+
+  if (testError) throw testError;
+  if (!test) throw new HttpError(404, "Test not found");
+
+  // The test's scheme, else its batch's, as on the results page
+  const passMark =
+    test.grading_scheme?.pass_mark ?? test.batch?.grading_scheme?.pass_mark ?? DEFAULT_GRADING_SCHEME.pass_mark;
+  const scheme = { pass_mark: Number(passMark) };
+
+  // Runs left running by a function stopped part way no longer block this one
+  const { error: staleError } = await supabase
+    .from("regrade_runs")
+    .update({ status: "failed", error: "Stopped before it completed", completed_at: new Date().toISOString() })
+    .eq("test_id", testId)
+    .eq("status", "running")
+    .lt("created_at", new Date(Date.now() - STALE_RUN_MS).toISOString());
+
+  if (staleError) throw staleError;
+
+  // A unique index allows one running run per test
+  const { data: run, error: runError } = await supabase
+    .from("regrade_runs")
+    .insert({ test_id: testId, requested_by: userId, reason: reason.trim(), notify_candidates: notify })
+    .select("id")
+    .single();
+
+  if (runError?.code === UNIQUE_VIOLATION) throw new HttpError(409, "This test is already being regraded");
+  if (runError) throw runError;
+
+  try {
+    const scoring = await loadTestScoring(supabase, testId);
+
+    const { data: sessions, error: sessionsError } = await supabase
+      .from("test_sessions")
+      .select(`
+        id, test_id, student_id, question_order, question_points, section_layout,
+        total_score, raw_score, max_score, total_questions
+      `)
+      .eq("test_id", testId)
+      .not("graded_at", "is", null);
+
+    if (sessionsError) throw sessionsError;
+
+    // Each session's new scores are stored together with its change row, so
+    // a failure part way leaves every rewritten score on record
+    const changes = [];
+    for (const session of sessions ?? []) {
+      const result = await regradeSession(supabase, session, scoring);
+
+      const oldTotal = session.total_score === null ? null : Number(session.total_score);
+      const oldMax = session.max_score === null ? null : Number(session.max_score);
+      const changed =
+        oldTotal !== result.total_score || oldMax !== result.max_score || session.raw_score !== result.raw_score;
+      const change = changed
+        ? {
+            run_id: run.id,
+            session_id: session.id,
+            student_id: session.student_id,
+            old_total_score: oldTotal,
+            new_total_score: result.total_score,
+            old_max_score: oldMax,
+            new_max_score: result.max_score,
+            old_raw_score: session.raw_score,
+            new_raw_score: result.raw_score,
+            old_passed: isPassing(scheme, percentage(oldTotal ?? 0, oldMax ?? session.total_questions ?? 0)),
+            new_passed: isPassing(scheme, percentage(result.total_score, result.max_score)),
+          }
+        : null;
+
+      const { error: applyError } = await supabase.rpc("apply_session_regrade", {
+        session_id: session.id,
+        scores: result,
+        change,
+      });
+
+      if (applyError) throw applyError;
+      if (change) changes.push(change);
+    }
+
+    const { error: completeError } = await supabase
+      .from("regrade_runs")
+      .update({
+        status: "completed",
+        sessions_regraded: sessions?.length ?? 0,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", run.id);
+
+    if (completeError) throw completeError;
+
+    return jsonResponse({
+      run_id: run.id,
+      sessions_regraded: sessions?.length ?? 0,
+      changed: changes.length,
+      outcomes_changed: changes.filter((change) => change.old_passed !== change.new_passed).length,
+    });
+  } catch (error) {
+    const { error: failError } = await supabase
+      .from("regrade_runs")
+      .update({
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", run.id);
+
+    if (failError) console.error("Error marking the regrade run failed:", failError);
+    throw error;
+  }
+});
@@ -0,0 +1,73 @@
+import { HttpError, jsonResponse, serve } from "../_shared/http.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { requireCandidate } from "../_shared/candidateAuth.ts";
+import { SESSION_PAUSED, SESSION_PAUSED_STATUS, TIME_EXPIRED, acceptsAnswers } from "../_shared/examClock.ts";
+import { finalizeSession } from "../_shared/finalizeSession.ts";
+import { openQuestionIds, resolveSessionClock } from "../_shared/sessionSections.ts";
+import { storeAnswers } from "../_shared/storeAnswers.ts";
+
+interface SaveAnswerRequest {
+  // Keyed by question id, with option ids as presented by exam-paper; null
+  // clears a saved answer. Clients batch whatever is queued.
+  answers: Record<string, unknown>;
+}
+
+// Autosave. Answers are stored ungraded against the canonical option ids and
+// graded with the rest of the paper when the session closes.
+serve(async (req) => {
+  const { sid: sessionId, stu: studentId, tid: testId } = await requireCandidate(req);
+  const { answers } = (await req.json()) as SaveAnswerRequest;
+  if (!answers || typeof answers !== "object") {
+    throw new HttpError(400, "Answers are required");
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: session, error: sessionError } = await supabase
+    .from("test_sessions")
+    .select(`
+      id, test_id, student_id, started_at, completed_at,
+      question_order, option_orders, question_points,
+      section_layout, section_index, section_started_at,
+      extra_seconds, paused_at, pause_reason
+    `)
+    .eq("id", sessionId)
+    .eq("student_id", studentId)
+    .eq("test_id", testId)
+    .single();
+
+  if (sessionError || !session) {
+    throw new HttpError(404, "Test session not found");
+  }
+  if (session.completed_at) {
+    throw new HttpError(409, "Test has already been submitted");
+  }
+  if (session.paused_at) {
+    throw new HttpError(SESSION_PAUSED_STATUS, SESSION_PAUSED);
+  }
+  if (!session.question_order) {
+    throw new HttpError(409, "Load the paper before saving answers");
+  }
+
+  const { data: test, error: testError } = await supabase
+    .from("tests")
+    .select("duration_minutes, end_time, grace_period_seconds")
+    .eq("id", testId)
+    .single();
+
+  if (testError || !test) throw new HttpError(404, "Test not found");
+
+  // Close the session with what was saved in time
+  const clock = await resolveSessionClock(supabase, session, test);
+  if (!acceptsAnswers(clock.deadline, test)) {
+    await finalizeSession(supabase, session, {}, { timedOut: true });
+    throw new HttpError(410, TIME_EXPIRED);
+  }
+
+  // Answers for a section the candidate has already left are dropped
+  const open = openQuestionIds(clock);
+  const questionIds = session.question_order.filter((id) => id in answers && (!open || open.has(id)));
+  const savedAt = await storeAnswers(supabase, session, questionIds, answers);
+
+  return jsonResponse({ saved_at: savedAt });
+});
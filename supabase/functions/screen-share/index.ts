@@ -0,0 +1,63 @@
+import { HttpError, jsonResponse, serve } from "../_shared/http.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { requireCandidate } from "../_shared/candidateAuth.ts";
+import { pauseSession, resumeSession } from "../_shared/sessionPause.ts";
+
+interface ScreenShareRequest {
+  // Whether the candidate is sharing their whole screen now
+  sharing: boolean;
+}
+
+// The exam page reports the candidate's screen share stopping and starting
+// again. Stopping pauses the session; sharing again resumes it, but only a
+// pause the screen share caused, never one a proctor made. Both are logged
+// in proctor_actions without a proctor, so the dashboard shows them with the
+// rest. Answers with whether the session is paused now.
+serve(async (req) => {
+  const { sid: sessionId, stu: studentId, tid: testId } = await requireCandidate(req);
+  const { sharing } = (await req.json()) as ScreenShareRequest;
+  if (typeof sharing !== "boolean") {
+    throw new HttpError(400, "Whether the screen is shared is required");
+  }
+
+  const supabase = createAdminClient();
+
+  const { data: session, error: sessionError } = await supabase
+    .from("test_sessions")
+    .select("id, started_at, completed_at, section_layout, section_started_at, extra_seconds, paused_at, pause_reason")
+    .eq("id", sessionId)
+    .eq("student_id", studentId)
+    .eq("test_id", testId)
+    .single();
+
+  if (sessionError || !session) {
+    throw new HttpError(404, "Test session not found");
+  }
+  if (session.completed_at) {
+    throw new HttpError(409, "Test has already been submitted");
+  }
+
+  let paused = Boolean(session.paused_at);
+  let action: "pause" | "resume" | null = null;
+  if (!sharing && !paused) {
+    await pauseSession(supabase, session, "screen_share");
+    action = "pause";
+    paused = true;
+  } else if (sharing && paused && session.pause_reason === "screen_share") {
+    await resumeSession(supabase, session);
+    action = "resume";
+    paused = false;
+  }
+
+  if (action) {
+    const { error: logError } = await supabase.from("proctor_actions").insert({
+      session_id: session.id,
+      action,
+      message: action === "pause" ? "Screen sharing stopped" : "Screen sharing resumed",
+    });
+
+    if (logError) throw logError;
+  }
+
+  return jsonResponse({ paused });
+});
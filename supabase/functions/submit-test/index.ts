@@ -0,0 +1,91 @@
+import { HttpError, jsonResponse, serve } from "../_shared/http.ts";
+import { createAdminClient } from "../_shared/supabaseAdmin.ts";
+import { requireCandidate } from "../_shared/candidateAuth.ts";
+import { SESSION_PAUSED, SESSION_PAUSED_STATUS, TIME_EXPIRED, acceptsAnswers } from "../_shared/examClock.ts";
+import { finalizeSession, gradeHeldAnswers } from "../_shared/finalizeSession.ts";
+import { SessionClock, openQuestionIds, resolveSessionClock } from "../_shared/sessionSections.ts";
+import { recordQuestionSeconds } from "../_shared/questionTimes.ts";
+
+interface SubmitTestRequest {
+  // Keyed by question id; shapes per src/lib/questionTypes.ts Responses, with
+  // option ids as presented by exam-paper
+  answers: Record<string, unknown>;
+  // Seconds spent on each question so far, keyed by question id
+  question_seconds?: Record<string, number>;
+}
+
+serve(async (req) => {
+  const { sid: sessionId, stu: studentId, tid: testId } = await requireCandidate(req);
+  const { answers, question_seconds } = (await req.json()) as SubmitTestRequest;
+
+  const supabase = createAdminClient();
+
+  const { data: session, error: sessionError } = await supabase
+    .from("test_sessions")
+    .select(`
+      id, test_id, student_id, started_at, completed_at,
+      question_order, option_orders, question_points,
+      section_layout, section_index, section_started_at,
+      extra_seconds, paused_at, pause_reason, auto_submitted
+    `)
+    .eq("id", sessionId)
+    .eq("student_id", studentId)
+    .eq("test_id", testId)
+    .single();
+
+  if (sessionError || !session) {
+    throw new HttpError(404, "Test session not found");
+  }
+  if (session.completed_at && !session.auto_submitted) {
+    throw new HttpError(409, "Test has already been submitted");
+  }
+
+  const { data: test, error: testError } = await supabase
+    .from("tests")
+    .select("duration_minutes, end_time, grace_period_seconds")
+    .eq("id", testId)
+    .single();
+
+  if (testError || !test) throw new HttpError(404, "Test not found");
+
+  // Sections the candidate has left keep what was saved while they were open
+  const submitted = (clock: SessionClock) => {
+    const open = openQuestionIds(clock);
+    return Object.fromEntries(Object.entries(answers ?? {}).filter(([id]) => !open || open.has(id)));
+  };
+
+  // Submitted by record-violations at the test's violation threshold; the
+  // answers the page still held then count if they arrive within the grace
+  // period
+  if (session.completed_at) {
+    const completedAt = new Date(session.completed_at);
+    if (acceptsAnswers(completedAt, test)) {
+      const clock = await resolveSessionClock(supabase, session, test, completedAt);
+      await gradeHeldAnswers(supabase, session, submitted(clock));
+    }
+    return jsonResponse({ completed_at: session.completed_at, timed_out: false });
+  }
+
+  // A screen share pause leaves the clock running, so once the last
+  // section's time is up the test closes as if it weren't paused
+  const clock = await resolveSessionClock(supabase, session, test);
+  const timeUp =
+    Date.now() >= clock.deadline.getTime() && (!clock.section || clock.section.index === clock.sections.length - 1);
+  if (session.paused_at && !(session.pause_reason === "screen_share" && timeUp)) {
+    throw new HttpError(SESSION_PAUSED_STATUS, SESSION_PAUSED);
+  }
+
+  // Kept even when the answers come too late; the time was spent either way
+  await recordQuestionSeconds(supabase, session, question_seconds);
+
+  // Answers that arrive after the grace period are discarded and the session
+  // is closed as timed out
+  if (!acceptsAnswers(clock.deadline, test)) {
+    await finalizeSession(supabase, session, {}, { timedOut: true });
+    throw new HttpError(410, TIME_EXPIRED);
+  }
+
+  const result = await finalizeSession(supabase, session, submitted(clock));
+
+  return jsonResponse(result);
+});
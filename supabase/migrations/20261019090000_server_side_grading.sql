@@ -0,0 +1,22 @@
+-- Grading now happens in the submit-test edge function, which runs with the
+-- service role. Candidates only ever talk to the database with the anon key,
+-- so the anon role loses access to the answer key and to the score columns.
+
+alter table public.test_submissions
+  add column if not exists session_id uuid references public.test_sessions(id) on delete cascade,
+  add column if not exists is_correct boolean;
+
+create index if not exists test_submissions_session_id_idx
+  on public.test_submissions (session_id);
+
+alter table public.test_sessions
+  add column if not exists graded_at timestamptz;
+
+-- Questions: everything except correct_answer stays readable.
+revoke select on public.questions from anon;
+grant select (id, batch_id, question_text, option_a, option_b, option_c, option_d, created_at)
+  on public.questions to anon;
+
+-- Scores and submissions are written by the edge function only.
+revoke update on public.test_sessions from anon;
+revoke insert, update on public.test_submissions from anon;
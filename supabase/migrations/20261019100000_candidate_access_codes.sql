@@ -0,0 +1,18 @@
+-- Candidates sign in with a one-time access code issued per test. Only a
+-- PBKDF2 hash of the code is stored; the plaintext is emailed and discarded.
+
+create table if not exists public.candidate_access_codes (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references public.students(id) on delete cascade,
+  test_id uuid not null references public.tests(id) on delete cascade,
+  code_hash text not null,
+  expires_at timestamptz,
+  used_at timestamptz,
+  session_id uuid references public.test_sessions(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (student_id, test_id)
+);
+
+-- Plaintext passwords are gone. Existing candidates get a fresh access code
+-- the next time test links are sent for their batch.
+alter table public.students drop column if exists password;
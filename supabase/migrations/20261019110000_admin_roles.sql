@@ -0,0 +1,111 @@
+-- Admin accounts are Supabase Auth users with a row in admin_users. The role
+-- decides what they can do; the policies below mirror src/lib/roles.ts.
+--
+-- Self sign-up is disabled. To bootstrap the first owner, invite the user
+-- from the Supabase dashboard and then run:
+--   insert into public.admin_users (user_id, role)
+--   select id, 'owner' from auth.users where email = '<owner email>';
+
+create type public.admin_role as enum ('owner', 'test_author', 'proctor', 'grader');
+
+create table if not exists public.admin_users (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  role public.admin_role not null,
+  created_at timestamptz not null default now()
+);
+
+create or replace function public.has_admin_role(variadic roles public.admin_role[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.admin_users
+    where user_id = auth.uid() and role = any (roles)
+  );
+$$;
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.admin_users where user_id = auth.uid());
+$$;
+
+alter table public.admin_users enable row level security;
+alter table public.batches enable row level security;
+alter table public.questions enable row level security;
+alter table public.students enable row level security;
+alter table public.tests enable row level security;
+alter table public.test_sessions enable row level security;
+alter table public.test_submissions enable row level security;
+alter table public.candidate_access_codes enable row level security;
+
+-- admin_users: everyone reads their own role, owners manage the team
+create policy "Admins read their own role" on public.admin_users
+  for select to authenticated using (user_id = auth.uid() or public.has_admin_role('owner'));
+create policy "Owners manage admins" on public.admin_users
+  for all to authenticated using (public.has_admin_role('owner')) with check (public.has_admin_role('owner'));
+
+-- batches, questions, students: authored by owners and test authors
+create policy "Admins read batches" on public.batches
+  for select to authenticated using (public.is_admin());
+create policy "Authors manage batches" on public.batches
+  for all to authenticated
+  using (public.has_admin_role('owner', 'test_author'))
+  with check (public.has_admin_role('owner', 'test_author'));
+
+create policy "Admins read questions" on public.questions
+  for select to authenticated using (public.is_admin());
+create policy "Authors manage questions" on public.questions
+  for all to authenticated
+  using (public.has_admin_role('owner', 'test_author'))
+  with check (public.has_admin_role('owner', 'test_author'));
+-- Dropped again by the revoke_anon_questions migration; the paper is served
+-- by the exam-paper edge function.
+create policy "Candidates read questions" on public.questions
+  for select to anon using (true);
+
+create policy "Admins read students" on public.students
+  for select to authenticated using (public.is_admin());
+create policy "Authors manage students" on public.students
+  for all to authenticated
+  using (public.has_admin_role('owner', 'test_author'))
+  with check (public.has_admin_role('owner', 'test_author'));
+
+create policy "Authors manage access codes" on public.candidate_access_codes
+  for all to authenticated
+  using (public.has_admin_role('owner', 'test_author'))
+  with check (public.has_admin_role('owner', 'test_author'));
+
+-- tests: the candidate login page reads active tests anonymously
+create policy "Admins read tests" on public.tests
+  for select to authenticated using (public.is_admin());
+create policy "Candidates read active tests" on public.tests
+  for select to anon using (is_active);
+create policy "Authors manage tests" on public.tests
+  for all to authenticated
+  using (public.has_admin_role('owner', 'test_author'))
+  with check (public.has_admin_role('owner', 'test_author'));
+
+-- sessions and submissions: written by edge functions, watched by proctors,
+-- cleaned up together with their test. The update policy below is dropped
+-- in 20261020098000_revoke_session_updates.
+create policy "Admins read sessions" on public.test_sessions
+  for select to authenticated using (public.is_admin());
+create policy "Proctors and graders update sessions" on public.test_sessions
+  for update to authenticated
+  using (public.has_admin_role('owner', 'proctor', 'grader'))
+  with check (public.has_admin_role('owner', 'proctor', 'grader'));
+create policy "Authors delete sessions" on public.test_sessions
+  for delete to authenticated using (public.has_admin_role('owner', 'test_author'));
+
+create policy "Admins read submissions" on public.test_submissions
+  for select to authenticated using (public.is_admin());
+create policy "Authors delete submissions" on public.test_submissions
+  for delete to authenticated using (public.has_admin_role('owner', 'test_author'));
@@ -0,0 +1,80 @@
+-- Questions live in standalone banks and are attached to tests through
+-- test_questions, which carries the order and the points for each question.
+-- questions.batch_id is kept for existing data but no longer decides which
+-- questions a test contains.
+
+create table if not exists public.question_banks (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.questions
+  add column if not exists bank_id uuid references public.question_banks(id) on delete set null;
+
+create index if not exists questions_bank_id_idx on public.questions (bank_id);
+
+create table if not exists public.test_questions (
+  id uuid primary key default gen_random_uuid(),
+  test_id uuid not null references public.tests(id) on delete cascade,
+  question_id uuid not null references public.questions(id) on delete cascade,
+  position integer not null default 0,
+  points numeric not null default 1 check (points >= 0),
+  created_at timestamptz not null default now(),
+  unique (test_id, question_id)
+);
+
+create index if not exists test_questions_test_id_idx on public.test_questions (test_id, position);
+
+-- Scores can be fractional now that questions carry points
+alter table public.test_sessions
+  alter column total_score type numeric,
+  add column if not exists max_score numeric;
+
+-- Backfill: one bank per batch that has questions, and every existing test
+-- composed of its batch's full pool, as before.
+alter table public.question_banks add column source_batch_id uuid;
+
+insert into public.question_banks (name, description, source_batch_id)
+select b.name || ' questions', 'Imported from batch ' || b.name, b.id
+from public.batches b
+where exists (select 1 from public.questions q where q.batch_id = b.id);
+
+update public.questions q
+set bank_id = qb.id
+from public.question_banks qb
+where qb.source_batch_id = q.batch_id;
+
+alter table public.question_banks drop column source_batch_id;
+
+insert into public.test_questions (test_id, question_id, position)
+select t.id, q.id, (row_number() over (partition by t.id order by q.created_at, q.id) - 1)::integer
+from public.tests t
+join public.questions q on q.batch_id = t.batch_id
+on conflict (test_id, question_id) do nothing;
+
+-- Access mirrors questions: authors compose; see revoke_anon_questions for
+-- candidates
+alter table public.question_banks enable row level security;
+alter table public.test_questions enable row level security;
+
+grant select (id, batch_id, bank_id, question_text, option_a, option_b, option_c, option_d, created_at)
+  on public.questions to anon;
+
+create policy "Admins read question banks" on public.question_banks
+  for select to authenticated using (public.is_admin());
+create policy "Authors manage question banks" on public.question_banks
+  for all to authenticated
+  using (public.has_admin_role('owner', 'test_author'))
+  with check (public.has_admin_role('owner', 'test_author'));
+
+create policy "Admins read test questions" on public.test_questions
+  for select to authenticated using (public.is_admin());
+create policy "Candidates read test questions" on public.test_questions
+  for select to anon using (true);
+create policy "Authors manage test questions" on public.test_questions
+  for all to authenticated
+  using (public.has_admin_role('owner', 'test_author'))
+  with check (public.has_admin_role('owner', 'test_author'));
@@ -0,0 +1,61 @@
+-- Typed questions. The four fixed option columns become an options array of
+-- { id, text } objects, and correct_answer becomes a jsonb answer key whose
+-- shape depends on question_type (see src/lib/questionTypes.ts):
+--
+--   single_choice    "B"
+--   multiple_select  ["A", "C"]
+--   true_false       true
+--   numeric          { "value": 9.81, "tolerance": 0.01 }
+--   short_text       { "accepted": ["Paris"], "case_sensitive": false }
+--   ordering         ["C", "A", "B"]
+--
+-- Candidate responses are stored in test_submissions.response with the
+-- matching shape.
+
+create type public.question_type as enum (
+  'single_choice',
+  'multiple_select',
+  'true_false',
+  'numeric',
+  'short_text',
+  'ordering'
+);
+
+alter table public.questions
+  add column if not exists question_type public.question_type not null default 'single_choice',
+  add column if not exists options jsonb not null default '[]'::jsonb;
+
+-- Existing questions are all four-option single choice
+update public.questions
+set options = jsonb_build_array(
+  jsonb_build_object('id', 'A', 'text', option_a),
+  jsonb_build_object('id', 'B', 'text', option_b),
+  jsonb_build_object('id', 'C', 'text', option_c),
+  jsonb_build_object('id', 'D', 'text', option_d)
+);
+
+alter table public.questions
+  drop constraint if exists questions_correct_answer_check;
+
+alter table public.questions
+  alter column correct_answer type jsonb using to_jsonb(upper(trim(correct_answer)));
+
+alter table public.questions
+  drop column option_a,
+  drop column option_b,
+  drop column option_c,
+  drop column option_d;
+
+alter table public.test_submissions
+  add column if not exists response jsonb;
+
+update public.test_submissions
+set response = to_jsonb(selected_answer)
+where selected_answer is not null;
+
+alter table public.test_submissions
+  drop column selected_answer;
+
+-- Dropped columns took their grants with them; the answer key stays hidden
+grant select (id, batch_id, bank_id, question_type, question_text, options, created_at)
+  on public.questions to anon;
@@ -0,0 +1,25 @@
+-- Metadata and search for the question bank browser: free-form tags, a
+-- difficulty level and a full-text index over the question text.
+
+create type public.question_difficulty as enum ('easy', 'medium', 'hard');
+
+alter table public.questions
+  add column if not exists tags text[] not null default '{}',
+  add column if not exists difficulty public.question_difficulty,
+  add column if not exists updated_at timestamptz not null default now(),
+  add column if not exists search_vector tsvector
+    generated always as (to_tsvector('english', coalesce(question_text, ''))) stored;
+
+create index if not exists questions_search_vector_idx on public.questions using gin (search_vector);
+create index if not exists questions_tags_idx on public.questions using gin (tags);
+create index if not exists questions_difficulty_idx on public.questions (difficulty);
+
+-- Edits warn when answers already reference the question
+create index if not exists test_submissions_question_id_idx on public.test_submissions (question_id);
+
+-- Deleting a question keeps its recorded answers (and the session scores
+-- computed from them); they just lose the link to the question
+alter table public.test_submissions
+  drop constraint if exists test_submissions_question_id_fkey,
+  add constraint test_submissions_question_id_fkey
+    foreign key (question_id) references public.questions(id) on delete set null;
@@ -0,0 +1,13 @@
+-- Per-test shuffling. Each session gets its own paper the first time it is
+-- served by the exam-paper edge function: question_order lists the question
+-- ids as presented, and option_orders maps each question id to its canonical
+-- option ids in presented order. Candidates answer with presented option
+-- labels, which are mapped back to canonical ids before grading.
+
+alter table public.tests
+  add column if not exists shuffle_questions boolean not null default false,
+  add column if not exists shuffle_options boolean not null default false;
+
+alter table public.test_sessions
+  add column if not exists question_order uuid[],
+  add column if not exists option_orders jsonb;
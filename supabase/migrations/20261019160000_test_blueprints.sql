@@ -0,0 +1,34 @@
+-- Test blueprints: besides the questions composed into a test, each rule
+-- draws question_count questions at random from the pool matching its bank,
+-- tag and difficulty. Every session draws its own sample when the paper is
+-- first served, recorded in test_sessions.question_order along with the
+-- points each drawn question carries.
+
+create table if not exists public.test_blueprint_rules (
+  id uuid primary key default gen_random_uuid(),
+  test_id uuid not null references public.tests(id) on delete cascade,
+  -- Pool filters; null means any
+  bank_id uuid references public.question_banks(id) on delete cascade,
+  tag text,
+  difficulty public.question_difficulty,
+  question_count integer not null check (question_count > 0),
+  points numeric not null default 1 check (points >= 0),
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists test_blueprint_rules_test_id_idx on public.test_blueprint_rules (test_id, position);
+
+-- Question id -> points for the paper the session was served
+alter table public.test_sessions
+  add column if not exists question_points jsonb;
+
+-- Rules are only read by the edge functions and by authors
+alter table public.test_blueprint_rules enable row level security;
+
+create policy "Admins read blueprint rules" on public.test_blueprint_rules
+  for select to authenticated using (public.is_admin());
+create policy "Authors manage blueprint rules" on public.test_blueprint_rules
+  for all to authenticated
+  using (public.has_admin_role('owner', 'test_author'))
+  with check (public.has_admin_role('owner', 'test_author'));
@@ -0,0 +1,12 @@
+-- Server-side exam deadlines. A session's deadline is started_at plus the
+-- test duration, capped at the test's end_time; the edge functions accept
+-- answers for grace_period_seconds past it to absorb network latency.
+-- Sessions still open after that are closed by the server and flagged
+-- timed_out.
+
+alter table public.tests
+  add column if not exists grace_period_seconds integer not null default 30
+    check (grace_period_seconds >= 0);
+
+alter table public.test_sessions
+  add column if not exists timed_out boolean not null default false;
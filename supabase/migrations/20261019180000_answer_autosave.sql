@@ -0,0 +1,14 @@
+-- Autosave. Answers are written to test_submissions as the candidate works
+-- through the paper (is_correct stays null until the session is graded), so
+-- each session has at most one row per question.
+
+-- Keep the latest row where earlier submits left duplicates
+delete from public.test_submissions s
+using public.test_submissions newer
+where s.session_id = newer.session_id
+  and s.question_id = newer.question_id
+  and (s.submitted_at, s.id) < (newer.submitted_at, newer.id);
+
+alter table public.test_submissions
+  add column if not exists saved_at timestamptz not null default now(),
+  add constraint test_submissions_session_question_key unique (session_id, question_id);
@@ -0,0 +1,48 @@
+-- Sectioned tests. A test may be split into ordered sections, each with its
+-- own optional time limit and an optional number of questions to serve from
+-- it. Questions and blueprint rules are assigned to a section; those left
+-- unassigned belong to the first one. Candidates work through the sections
+-- in order and cannot go back to one they have finished.
+--
+-- Each session freezes its sections when the paper is first served
+-- (section_layout) and tracks the one it is in. The scores per section are
+-- recorded alongside the total when the session is graded.
+
+create table if not exists public.test_sections (
+  id uuid primary key default gen_random_uuid(),
+  test_id uuid not null references public.tests(id) on delete cascade,
+  title text not null,
+  position integer not null default 0,
+  -- Null: the section only ends with the test itself
+  duration_minutes integer check (duration_minutes > 0),
+  -- Null: every question in the section is served
+  question_count integer check (question_count > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists test_sections_test_id_idx on public.test_sections (test_id, position);
+
+alter table public.test_questions
+  add column if not exists section_id uuid references public.test_sections(id) on delete set null;
+
+alter table public.test_blueprint_rules
+  add column if not exists section_id uuid references public.test_sections(id) on delete set null;
+
+-- section_layout: [{ id, title, duration_minutes, question_ids }] as served.
+-- section_index and section_started_at: the section the candidate is in and
+-- when it started; a null start means the session's own started_at.
+-- section_scores: [{ section_id, title, score, max_score, total_questions }]
+alter table public.test_sessions
+  add column if not exists section_layout jsonb,
+  add column if not exists section_index integer not null default 0,
+  add column if not exists section_started_at timestamptz,
+  add column if not exists section_scores jsonb;
+
+alter table public.test_sections enable row level security;
+
+create policy "Admins read test sections" on public.test_sections
+  for select to authenticated using (public.is_admin());
+create policy "Authors manage test sections" on public.test_sections
+  for all to authenticated
+  using (public.has_admin_role('owner', 'test_author'))
+  with check (public.has_admin_role('owner', 'test_author'));
@@ -0,0 +1,19 @@
+-- Configurable scoring. Each question carries its points (test_questions and
+-- blueprint rules); on top of that a test can deduct a fraction of a
+-- question's points for a wrong answer and give partial credit on multiple
+-- select questions. Unanswered questions always score zero.
+--
+-- Sessions keep the raw score (questions answered fully correctly) next to
+-- total_score, which is now the weighted score after penalties and partial
+-- credit. Each graded answer records the points it earned.
+
+alter table public.tests
+  add column if not exists wrong_answer_penalty numeric not null default 0
+    check (wrong_answer_penalty >= 0 and wrong_answer_penalty <= 1),
+  add column if not exists partial_credit boolean not null default false;
+
+alter table public.test_sessions
+  add column if not exists raw_score integer;
+
+alter table public.test_submissions
+  add column if not exists score numeric;
@@ -0,0 +1,30 @@
+-- Named grading schemes: a pass mark and the grade bands results are shown
+-- with. A test uses its own scheme, else its batch's, else the built-in
+-- standard scheme (src/lib/gradingSchemes.ts).
+--
+-- bands: [{ label, min_percentage, tone }], a percentage earning the first
+-- band whose min_percentage it reaches when sorted from the highest down.
+
+create table if not exists public.grading_schemes (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  pass_mark numeric not null default 60 check (pass_mark >= 0 and pass_mark <= 100),
+  bands jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.tests
+  add column if not exists grading_scheme_id uuid references public.grading_schemes(id) on delete set null;
+
+alter table public.batches
+  add column if not exists grading_scheme_id uuid references public.grading_schemes(id) on delete set null;
+
+alter table public.grading_schemes enable row level security;
+
+create policy "Admins read grading schemes" on public.grading_schemes
+  for select to authenticated using (public.is_admin());
+create policy "Authors manage grading schemes" on public.grading_schemes
+  for all to authenticated
+  using (public.has_admin_role('owner', 'test_author'))
+  with check (public.has_admin_role('owner', 'test_author'));
@@ -0,0 +1,6 @@
+-- Time candidates spend on each question, for item analysis. The exam page
+-- keeps running totals (seconds each question was on screen, keyed by
+-- question id) and sends them when a section or the test is closed.
+
+alter table public.test_sessions
+  add column if not exists question_seconds jsonb;
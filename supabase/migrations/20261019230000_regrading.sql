@@ -0,0 +1,59 @@
+-- Answer-key corrections after a test has run. Fixing a key is an edit of
+-- the question; voiding takes a question out of one test's scoring: it earns
+-- nothing and no longer counts towards the maximum. Either way the regrade-test
+-- edge function then recomputes the test's graded sessions from their stored
+-- answers.
+--
+-- Every regrade is a run; each session whose score changed gets a change row
+-- with the old and new scores and pass/fail outcome, and notified_at once the
+-- candidate has been told about a changed outcome.
+
+alter table public.tests
+  add column if not exists voided_question_ids uuid[] not null default '{}';
+
+create table if not exists public.regrade_runs (
+  id uuid primary key default gen_random_uuid(),
+  test_id uuid not null references public.tests(id) on delete cascade,
+  requested_by uuid references auth.users(id) on delete set null,
+  reason text not null,
+  status text not null default 'running' check (status in ('running', 'completed', 'failed')),
+  notify_candidates boolean not null default false,
+  sessions_regraded integer not null default 0,
+  error text,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists regrade_runs_test_id_idx on public.regrade_runs (test_id, created_at desc);
+
+create table if not exists public.regrade_changes (
+  id uuid primary key default gen_random_uuid(),
+  run_id uuid not null references public.regrade_runs(id) on delete cascade,
+  session_id uuid not null references public.test_sessions(id) on delete cascade,
+  student_id uuid references public.students(id) on delete set null,
+  old_total_score numeric,
+  new_total_score numeric not null,
+  old_max_score numeric,
+  new_max_score numeric not null,
+  old_raw_score integer,
+  new_raw_score integer not null,
+  old_passed boolean not null,
+  new_passed boolean not null,
+  notified_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists regrade_changes_run_id_idx on public.regrade_changes (run_id);
+
+-- Runs and changes are written by the edge function with the service role
+alter table public.regrade_runs enable row level security;
+alter table public.regrade_changes enable row level security;
+
+create policy "Result viewers read regrade runs" on public.regrade_runs
+  for select to authenticated using (public.has_admin_role('owner', 'test_author', 'grader'));
+create policy "Result viewers read regrade changes" on public.regrade_changes
+  for select to authenticated using (public.has_admin_role('owner', 'test_author', 'grader'));
+create policy "Authors record regrade notifications" on public.regrade_changes
+  for update to authenticated
+  using (public.has_admin_role('owner', 'test_author'))
+  with check (public.has_admin_role('owner', 'test_author'));
@@ -0,0 +1,22 @@
+-- Camera, screen and audio recordings the proctoring server (server/proctoring)
+-- stores for a test session. The media itself lives on the proctoring
+-- server's disk; path is relative to its RECORDINGS_DIR.
+create table if not exists public.session_recordings (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.test_sessions(id) on delete cascade,
+  kind text not null check (kind in ('camera', 'screen', 'audio')),
+  path text not null unique,
+  mime_type text not null,
+  bytes bigint not null default 0,
+  chunks integer not null default 0,
+  started_at timestamptz not null default now(),
+  last_chunk_at timestamptz
+);
+
+create index if not exists session_recordings_session_id_idx on public.session_recordings (session_id);
+
+-- Written by the proctoring server with the service role
+alter table public.session_recordings enable row level security;
+
+create policy "Proctors read session recordings" on public.session_recordings
+  for select to authenticated using (public.has_admin_role('owner', 'proctor'));
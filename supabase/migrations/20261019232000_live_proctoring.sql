@@ -0,0 +1,36 @@
+-- Live proctoring: proctors can pause a session, give it more time or end it
+-- early, and every action they take is kept.
+--
+-- extra_seconds is time added by proctors plus time spent paused, and pushes
+-- back both the session's deadline and the test window for that candidate.
+-- While paused_at is set the session accepts no answers and its clock
+-- stands still; resuming folds the pause into extra_seconds.
+alter table public.test_sessions
+  add column if not exists extra_seconds integer not null default 0,
+  add column if not exists paused_at timestamptz,
+  add column if not exists terminated_at timestamptz,
+  add column if not exists terminated_by uuid references auth.users(id) on delete set null,
+  add column if not exists termination_reason text;
+
+create table if not exists public.proctor_actions (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.test_sessions(id) on delete cascade,
+  action text not null check (action in ('warn', 'pause', 'resume', 'add_time', 'terminate')),
+  -- The warning shown to the candidate, or why the session was terminated
+  message text,
+  -- Minutes given with add_time
+  minutes integer,
+  performed_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists proctor_actions_session_id_idx on public.proctor_actions (session_id, created_at);
+
+-- Written by the proctor-session edge function with the service role
+alter table public.proctor_actions enable row level security;
+
+create policy "Proctors read proctor actions" on public.proctor_actions
+  for select to authenticated using (public.has_admin_role('owner', 'proctor'));
+
+-- The monitoring dashboard follows sessions as they start, change and close
+alter publication supabase_realtime add table public.test_sessions;
@@ -0,0 +1,33 @@
+-- Integrity events the exam page records while a candidate takes a test:
+-- leaving the tab or window, leaving fullscreen, copy/paste and right-click
+-- attempts, signs of open developer tools and extra monitors. See
+-- src/lib/integrity.ts for the kinds.
+create table if not exists public.session_violations (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.test_sessions(id) on delete cascade,
+  kind text not null check (kind in (
+    'tab_hidden', 'window_blur', 'fullscreen_exit', 'copy', 'paste',
+    'right_click', 'devtools', 'multiple_monitors'
+  )),
+  detail text,
+  -- When it happened in the browser; recorded_at is when it reached us
+  occurred_at timestamptz not null,
+  recorded_at timestamptz not null default now()
+);
+
+create index if not exists session_violations_session_id_idx on public.session_violations (session_id, occurred_at);
+
+-- Written by the record-violations edge function with the service role
+alter table public.session_violations enable row level security;
+
+create policy "Admins read session violations" on public.session_violations
+  for select to authenticated using (public.is_admin());
+
+-- Proctors see violations come in on the monitoring dashboard
+alter publication supabase_realtime add table public.session_violations;
+
+-- How many violations in a session make the exam page warn the candidate,
+-- and how many submit their test for them. Null leaves either off.
+alter table public.tests
+  add column if not exists violation_warn_threshold integer check (violation_warn_threshold > 0),
+  add column if not exists violation_submit_threshold integer check (violation_submit_threshold > 0);
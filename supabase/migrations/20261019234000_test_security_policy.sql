@@ -0,0 +1,11 @@
+-- Which proctoring setup steps a test requires and which restrictions apply
+-- on the exam page. See src/lib/securityPolicy.ts for the rules; missing
+-- keys read as on.
+alter table public.tests
+  add column if not exists security_policy jsonb not null default '{
+    "require_camera": true,
+    "screen_monitoring": true,
+    "require_fullscreen": true,
+    "disable_right_click": true,
+    "disable_copy_paste": true
+  }'::jsonb check (jsonb_typeof(security_policy) = 'object');
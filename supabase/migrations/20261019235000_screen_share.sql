@@ -0,0 +1,16 @@
+-- Screen sharing on the exam page: stopping it mid-test is a violation and
+-- pauses the session until the candidate shares their screen again.
+alter table public.session_violations drop constraint if exists session_violations_kind_check;
+alter table public.session_violations add constraint session_violations_kind_check check (kind in (
+  'tab_hidden', 'window_blur', 'fullscreen_exit', 'copy', 'paste',
+  'right_click', 'devtools', 'multiple_monitors', 'screen_share_stopped'
+));
+
+-- Who paused the session while paused_at is set. The candidate can resume a
+-- screen_share pause by sharing again; only a proctor resumes their own.
+-- Screen share pauses and resumes are logged in proctor_actions with no
+-- performed_by.
+alter table public.test_sessions
+  add column if not exists pause_reason text check (pause_reason in ('proctor', 'screen_share'));
+
+update public.test_sessions set pause_reason = 'proctor' where paused_at is not null and pause_reason is null;
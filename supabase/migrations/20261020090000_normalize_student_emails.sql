@@ -0,0 +1,17 @@
+-- Candidates log in by email, matched exactly. Emails are stored trimmed and
+-- lower-cased so the match doesn't depend on how an admin typed them.
+create or replace function public.normalize_student_email()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.email := lower(trim(new.email));
+  return new;
+end;
+$$;
+
+create trigger students_normalize_email
+  before insert or update of email on public.students
+  for each row execute function public.normalize_student_email();
+
+update public.students set email = lower(trim(email)) where email <> lower(trim(email));
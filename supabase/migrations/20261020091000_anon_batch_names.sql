@@ -0,0 +1,10 @@
+-- The candidate login page shows the batch of the test it was linked to.
+-- Anonymous visitors may read the name of a batch with an active test, and
+-- nothing else about it.
+revoke select on public.batches from anon;
+grant select (id, name) on public.batches to anon;
+
+create policy "Candidates read batch names" on public.batches
+  for select to anon using (
+    exists (select 1 from public.tests where tests.batch_id = batches.id and tests.is_active)
+  );
@@ -0,0 +1,9 @@
+-- Candidates get their paper from the exam-paper edge function, which hides
+-- the answer key and maps option ids per session. Reading questions or test
+-- compositions with the anon key would expose every bank and the authored
+-- option order of ordering questions, so anon loses both.
+drop policy if exists "Candidates read questions" on public.questions;
+drop policy if exists "Candidates read test questions" on public.test_questions;
+
+revoke select on public.questions from anon;
+revoke select on public.test_questions from anon;
@@ -0,0 +1,20 @@
+-- Questions used by a batch, for the question browser's batch filter: those
+-- in any of the batch's tests, plus questions still tagged with the batch
+-- from before question banks. Resolved here rather than by sending every
+-- linked id from the browser, which outgrows the request URL. Runs with the
+-- caller's rights, so questions RLS still applies; returns rows of the table
+-- so the browser can filter, embed and count on top of it.
+create or replace function public.batch_questions(batch uuid)
+returns setof public.questions
+language sql
+stable
+set search_path = public
+as $$
+  select q.* from public.questions q
+  where q.batch_id = batch
+    or exists (
+      select 1 from public.test_questions tq
+      join public.tests t on t.id = tq.test_id
+      where tq.question_id = q.id and t.batch_id = batch
+    );
+$$;
@@ -0,0 +1,32 @@
+-- A regraded session's new scores and its regrade_changes row are written in
+-- one transaction, so a run that fails part way never leaves a rewritten
+-- score without the record of its old value. change is null when the scores
+-- didn't move. Called by the regrade-test edge function only.
+create or replace function public.apply_session_regrade(session_id uuid, scores jsonb, change jsonb)
+returns void
+language sql
+set search_path = public
+as $$
+  update public.test_sessions s set
+    total_score = (scores->>'total_score')::numeric,
+    raw_score = (scores->>'raw_score')::integer,
+    max_score = (scores->>'max_score')::numeric,
+    total_questions = (scores->>'total_questions')::integer,
+    section_scores = nullif(scores->'section_scores', 'null'::jsonb)
+  where s.id = apply_session_regrade.session_id;
+
+  insert into public.regrade_changes (
+    run_id, session_id, student_id,
+    old_total_score, new_total_score, old_max_score, new_max_score,
+    old_raw_score, new_raw_score, old_passed, new_passed
+  )
+  select
+    c.run_id, c.session_id, c.student_id,
+    c.old_total_score, c.new_total_score, c.old_max_score, c.new_max_score,
+    c.old_raw_score, c.new_raw_score, c.old_passed, c.new_passed
+  from jsonb_populate_record(null::public.regrade_changes, change) c
+  where change is not null;
+$$;
+
+revoke execute on function public.apply_session_regrade(uuid, jsonb, jsonb) from public, anon, authenticated;
+grant execute on function public.apply_session_regrade(uuid, jsonb, jsonb) to service_role;
@@ -0,0 +1,5 @@
+-- Sessions the server submitted because their integrity violations reached
+-- the test's submit threshold. The exam page may still send the answers it
+-- held then, which are taken within the grace period.
+alter table public.test_sessions
+  add column if not exists auto_submitted boolean not null default false;
@@ -0,0 +1,21 @@
+-- Issues access codes for a test: codes is an array of
+-- {student_id, code_hash}. A student whose code is already used keeps it,
+-- checked in the same statement, so a candidate logging in while codes are
+-- resent isn't reset and cut off from their session. Returns the students
+-- who got the new code. Runs with the caller's rights, so the access code
+-- policies still apply.
+create or replace function public.issue_access_codes(test uuid, expires timestamptz, codes jsonb)
+returns setof uuid
+language sql
+set search_path = public
+as $$
+  insert into public.candidate_access_codes as a (student_id, test_id, code_hash, expires_at)
+  select (c->>'student_id')::uuid, test, c->>'code_hash', expires
+  from jsonb_array_elements(codes) c
+  on conflict (student_id, test_id) do update set
+    code_hash = excluded.code_hash,
+    expires_at = excluded.expires_at,
+    session_id = null
+  where a.used_at is null
+  returning a.student_id;
+$$;
@@ -0,0 +1,14 @@
+-- At most one regrade of a test runs at a time, enforced here rather than by
+-- regrade-test checking before it starts. Runs already overlapping keep the
+-- newest. A run whose function was stopped part way stays running;
+-- regrade-test fails such runs once they are stale.
+update public.regrade_runs r
+set status = 'failed', error = 'Superseded by a later run', completed_at = now()
+where r.status = 'running'
+  and exists (
+    select 1 from public.regrade_runs o
+    where o.test_id = r.test_id and o.status = 'running' and o.created_at > r.created_at
+  );
+
+create unique index if not exists regrade_runs_running_test_id_idx
+  on public.regrade_runs (test_id) where status = 'running';
@@ -0,0 +1,8 @@
+-- Admins no longer update sessions directly. Pausing, resuming, adding time
+-- and terminating go through the proctor-session edge function and score
+-- changes through regrade-test, both with the service role and both logged.
+-- The old policy let a proctor or grader rewrite any column, scores and
+-- completed_at included, past that record.
+drop policy if exists "Proctors and graders update sessions" on public.test_sessions;
+
+revoke update on public.test_sessions from anon, authenticated;